@@ -5,9 +5,16 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
 import Home from "@/pages/home";
+import IdeaDetail from "@/pages/idea-detail";
 import Admin from "@/pages/admin";
 import AdminComments from "@/pages/admin-comments";
+import AdminVotes from "@/pages/admin-votes";
+import AdminAudit from "@/pages/admin-audit";
+import AdminModeration from "@/pages/admin-moderation";
 import AuthPage from "@/pages/auth-page";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
+import Unsubscribe from "@/pages/unsubscribe";
 import UserDashboard from "@/pages/user-dashboard";
 import NotificationPreferences from "@/pages/notification-preferences";
 import NotFound from "@/pages/not-found";
@@ -22,11 +29,18 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/idea/:id" component={IdeaDetail} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
+      <Route path="/unsubscribe" component={Unsubscribe} />
       <Route path="/dashboard" component={UserDashboard} />
       <Route path="/notifications" component={NotificationPreferences} />
       <Route path="/admin" component={Admin} />
       <Route path="/admin/comments" component={AdminComments} />
+      <Route path="/admin/votes" component={AdminVotes} />
+      <Route path="/admin/audit" component={AdminAudit} />
+      <Route path="/admin/moderation" component={AdminModeration} />
       <Route component={NotFound} />
     </Switch>
   );
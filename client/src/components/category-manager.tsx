@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Archive, ArchiveRestore, Edit, GitMerge, Save, Trash2, X } from "lucide-react";
+import type { PublicCategory } from "@shared/schema";
+
+type CategoryWithUsage = PublicCategory & { ideaCount: number };
+
+interface CategoryEdit {
+  id: number;
+  label: string;
+  icon: string;
+  description: string;
+  sortOrder: string;
+}
+
+// Where ideas without a category go; the server won't archive, delete or merge it away
+const FALLBACK_CATEGORY = 'other';
+
+// Admin-only panel for the categories ideas are filed under
+export default function CategoryManager() {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [icon, setIcon] = useState("");
+  const [description, setDescription] = useState("");
+  const [editing, setEditing] = useState<CategoryEdit | null>(null);
+  const [fromId, setFromId] = useState("");
+  const [intoId, setIntoId] = useState("");
+
+  const { data: categories = [] } = useQuery<CategoryWithUsage[]>({
+    queryKey: ['/api/admin/categories'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/categories');
+      if (!res.ok) throw new Error('Failed to get categories');
+      return res.json();
+    },
+  });
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || 'Request failed');
+    return data;
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/categories'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update categories",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => request('/api/admin/categories', 'POST', {
+      label: label.trim(),
+      icon: icon.trim() || null,
+      description: description.trim() || null,
+    }),
+    onSuccess: () => {
+      setLabel("");
+      setIcon("");
+      setDescription("");
+      refresh();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...updates }: { id: number } & Record<string, unknown>) =>
+      request(`/api/admin/categories/${id}`, 'PATCH', updates),
+    onSuccess: () => {
+      setEditing(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => request(`/api/admin/categories/${id}`, 'DELETE'),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: () => request(`/api/admin/categories/${fromId}/merge`, 'POST', { intoId: Number(intoId) }),
+    onSuccess: (data: { message: string }) => {
+      setFromId("");
+      toast({ title: "Categories merged", description: data.message });
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['/api/ideas'] });
+    },
+    onError,
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+    createMutation.mutate();
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !editing.label.trim()) return;
+    const sortOrder = parseInt(editing.sortOrder);
+    updateMutation.mutate({
+      id: editing.id,
+      label: editing.label.trim(),
+      icon: editing.icon.trim() || null,
+      description: editing.description.trim() || null,
+      ...(!isNaN(sortOrder) && { sortOrder }),
+    });
+  };
+
+  const handleMerge = (e: React.FormEvent) => {
+    e.preventDefault();
+    const from = categories.find((category) => String(category.id) === fromId);
+    const into = categories.find((category) => String(category.id) === intoId);
+    if (!from || !into) return;
+    if (!confirm(`Merge "${from.label}" into "${into.label}"? Its ${from.ideaCount} ideas will be moved and "${from.label}" deleted.`)) return;
+    mergeMutation.mutate();
+  };
+
+  const categoryOptions = (exclude?: string) => categories
+    .filter((category) => exclude === undefined || category.slug !== exclude)
+    .map((category) => (
+      <SelectItem key={category.id} value={String(category.id)}>
+        {category.label} ({category.ideaCount}){category.archived ? ' – archived' : ''}
+      </SelectItem>
+    ));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Categories</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Offered on the submission form and feed filter in this order. Archiving a category hides it there while its
+        ideas keep it; merging moves its ideas to another category and deletes it.
+      </p>
+
+      <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-3 mb-3">
+        <Input
+          value={icon}
+          onChange={(e) => setIcon(e.target.value)}
+          placeholder="Icon"
+          maxLength={8}
+          className="sm:w-20"
+          aria-label="Icon"
+        />
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label, e.g. Education"
+          maxLength={50}
+          className="sm:w-56"
+        />
+        <Input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          maxLength={200}
+          className="sm:flex-1"
+        />
+        <Button type="submit" disabled={!label.trim() || createMutation.isPending}>
+          Add
+        </Button>
+      </form>
+
+      <form onSubmit={handleMerge} className="flex flex-col sm:flex-row gap-3 mb-6">
+        <Select value={fromId} onValueChange={setFromId}>
+          <SelectTrigger className="sm:flex-1">
+            <SelectValue placeholder="Category to merge" />
+          </SelectTrigger>
+          <SelectContent>{categoryOptions(FALLBACK_CATEGORY)}</SelectContent>
+        </Select>
+        <Select value={intoId} onValueChange={setIntoId}>
+          <SelectTrigger className="sm:flex-1">
+            <SelectValue placeholder="Merge into" />
+          </SelectTrigger>
+          <SelectContent>{categoryOptions()}</SelectContent>
+        </Select>
+        <Button type="submit" disabled={!fromId || !intoId || fromId === intoId || mergeMutation.isPending}>
+          <GitMerge className="w-4 h-4 mr-1" />
+          Merge
+        </Button>
+      </form>
+
+      <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+        {categories.map((category) => editing?.id === category.id ? (
+          <form key={category.id} onSubmit={handleSave} className="flex flex-col sm:flex-row gap-2 px-3 py-2">
+            <Input
+              value={editing.icon}
+              onChange={(e) => setEditing({ ...editing, icon: e.target.value })}
+              maxLength={8}
+              className="sm:w-16 h-8"
+              aria-label="Icon"
+            />
+            <Input
+              value={editing.label}
+              onChange={(e) => setEditing({ ...editing, label: e.target.value })}
+              maxLength={50}
+              className="sm:w-48 h-8"
+              aria-label="Label"
+            />
+            <Input
+              value={editing.description}
+              onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+              maxLength={200}
+              placeholder="Description"
+              className="sm:flex-1 h-8"
+              aria-label="Description"
+            />
+            <Input
+              type="number"
+              value={editing.sortOrder}
+              onChange={(e) => setEditing({ ...editing, sortOrder: e.target.value })}
+              className="sm:w-20 h-8"
+              aria-label="Sort order"
+              title="Lower numbers come first"
+            />
+            <div className="flex gap-1">
+              <Button type="submit" size="sm" disabled={!editing.label.trim() || updateMutation.isPending}>
+                <Save className="w-4 h-4" />
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setEditing(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div key={category.id} className="flex flex-wrap items-center gap-2 px-3 py-1.5 text-sm">
+            {category.icon && <span aria-hidden="true">{category.icon}</span>}
+            <span className="font-medium">{category.label}</span>
+            <span className="text-xs text-gray-500 font-mono">{category.slug}</span>
+            <span className="text-gray-500">{category.ideaCount} {category.ideaCount === 1 ? 'idea' : 'ideas'}</span>
+            {category.archived && <Badge variant="outline" className="text-xs">archived</Badge>}
+            {category.description && (
+              <span className="text-xs text-gray-500 truncate basis-full sm:basis-auto">{category.description}</span>
+            )}
+            <div className="flex gap-1 ml-auto">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setEditing({
+                  id: category.id,
+                  label: category.label,
+                  icon: category.icon || "",
+                  description: category.description || "",
+                  sortOrder: String(category.sortOrder),
+                })}
+                aria-label={`Edit ${category.label}`}
+              >
+                <Edit className="w-4 h-4" />
+              </Button>
+              {category.slug !== FALLBACK_CATEGORY && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => updateMutation.mutate({ id: category.id, archived: !category.archived })}
+                  disabled={updateMutation.isPending}
+                  aria-label={`${category.archived ? 'Unarchive' : 'Archive'} ${category.label}`}
+                  title={category.archived ? 'Unarchive' : 'Archive'}
+                >
+                  {category.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                </Button>
+              )}
+              {category.slug !== FALLBACK_CATEGORY && category.ideaCount === 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    if (confirm(`Delete "${category.label}"?`)) deleteMutation.mutate(category.id);
+                  }}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Delete ${category.label}`}
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
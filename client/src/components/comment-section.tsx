@@ -1,16 +1,15 @@
-import { useState, memo, lazy, Suspense, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, memo, lazy, Suspense, useEffect, createContext, useContext } from "react";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { MessageCircle, Send, Trash2, User, ChevronUp, ChevronDown } from "lucide-react";
-import type { Comment, User as UserType } from "@shared/schema";
+import { MessageCircle, Send, Trash2, User, ChevronUp, ChevronDown, BadgeCheck, Pencil, PlusCircle, MinusCircle, ArrowLeft, CornerDownRight } from "lucide-react";
+import type { Comment, CommentRevision, User as UserType } from "@shared/schema";
 
 // Lazy load heavy components for better performance
 const Avatar = lazy(() => import("@/components/ui/avatar").then(module => ({ default: module.Avatar })));
-const AvatarImage = lazy(() => import("@/components/ui/avatar").then(module => ({ default: module.AvatarImage })));
 const AvatarFallback = lazy(() => import("@/components/ui/avatar").then(module => ({ default: module.AvatarFallback })));
 const AccountCreationPopup = lazy(() => import("./account-creation-popup"));
 const UsernameCollectionPopup = lazy(() => import("./username-collection-popup").then(module => ({ default: module.UsernameCollectionPopup })));
@@ -21,80 +20,193 @@ interface CommentSectionProps {
   commentCount?: number;
 }
 
+// The part of a comment's author the server sends
+type CommentAuthor = Pick<UserType, 'id' | 'username' | 'emailVerifiedAt'>;
+
+// A comment as served by the comment tree endpoints
 interface CommentWithUser extends Comment {
-  user: UserType | null;
+  user: CommentAuthor | null;
   votes: number;
   parentId: number | null;
-  replies?: CommentWithUser[];
-  replyCount?: number;
+  depth: number;
+  replies: CommentWithUser[]; // First page of direct replies
+  replyCount: number; // Direct replies
+  descendantCount: number; // Replies at any depth
+  moreReplies: number; // Direct replies not in `replies` yet
+  continueThread: boolean; // Replies continue past the depth cap
+  isOwner?: boolean;
+  canEdit?: boolean; // Owner and still inside the edit window
+}
+
+interface RepliesPage {
+  replies: CommentWithUser[];
+  total: number;
+  hasMore: boolean;
 }
 
-// Memoized comment item for better performance
-const CommentItem = memo(({ comment, onDelete, currentUserId, onVote, sessionId, onReply, onToggleReplies, replyingTo, replyContent, setReplyContent, onSubmitReply, onCancelReply, expandedReplies }: {
-  comment: CommentWithUser;
+// Callbacks and reply form state shared by every comment in the tree
+interface CommentTreeActions {
   onDelete: (id: number) => void;
+  onEdit: (id: number, content: string) => Promise<unknown>;
   onVote: (commentId: number, voteType: 'up' | 'down') => void;
   onReply: (parentId: number) => void;
-  onToggleReplies: (commentId: number) => void;
-  currentUserId?: string;
+  onContinueThread: (commentId: number) => void;
+  onToggleCollapse: (commentId: number) => void;
+  collapsed: Set<number>;
   sessionId?: string;
   replyingTo: number | null;
   replyContent: string;
   setReplyContent: (content: string) => void;
   onSubmitReply: (parentId: number, content: string) => void;
   onCancelReply: () => void;
-  expandedReplies: Set<number>;
-}) => {
-  const formatTimeAgo = (date: Date) => {
-    const now = new Date();
-    const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
-    
-    if (diffInSeconds < 60) return 'just now';
-    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
-    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
-    return `${Math.floor(diffInSeconds / 86400)}d ago`;
-  };
+}
 
-  const getInitials = (user: UserType | null) => {
-    if (!user) return 'A';
-    if (user.firstName && user.lastName) {
-      return `${user.firstName[0]}${user.lastName[0]}`.toUpperCase();
-    }
-    if (user.email) {
-      return user.email[0].toUpperCase();
+const CommentTreeContext = createContext<CommentTreeActions | null>(null);
+
+function useCommentTree() {
+  const actions = useContext(CommentTreeContext);
+  if (!actions) throw new Error("CommentItem must be rendered inside a CommentTreeContext");
+  return actions;
+}
+
+// Applies `update` to the comment with the given id wherever it sits in the tree
+function updateCommentInTree(comments: CommentWithUser[], id: number, update: (comment: CommentWithUser) => CommentWithUser): CommentWithUser[] {
+  return comments.map((comment) => {
+    if (comment.id === id) return update(comment);
+    if (comment.replies.length === 0) return comment;
+    return { ...comment, replies: updateCommentInTree(comment.replies, id, update) };
+  });
+}
+
+const formatTimeAgo = (date: Date) => {
+  const now = new Date();
+  const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+  
+  if (diffInSeconds < 60) return 'just now';
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+  return `${Math.floor(diffInSeconds / 86400)}d ago`;
+};
+
+// Earlier versions of an edited comment, loaded when the "edited" marker is expanded
+const CommentHistory = ({ commentId }: { commentId: number }) => {
+  const { data: revisions = [], isLoading } = useQuery<CommentRevision[]>({
+    queryKey: ["/api/comments", commentId, "revisions"],
+    queryFn: async () => {
+      const response = await fetch(`/api/comments/${commentId}/revisions`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch comment history: ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <p className="mt-2 text-xs text-gray-500">Loading history...</p>;
+  }
+
+  return (
+    <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+      {revisions.map((revision, index) => (
+        <li key={revision.id} className="text-xs">
+          <span className="text-gray-500">
+            {index === 0 ? 'Original' : `Version ${index + 1}`} · {formatTimeAgo(new Date(revision.createdAt))}
+          </span>
+          <p className="text-gray-600 break-words whitespace-pre-wrap">{revision.content}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+// Replies beyond the first page, fetched a page at a time when asked for
+const MoreReplies = ({ parent }: { parent: CommentWithUser }) => {
+  const { sessionId } = useCommentTree();
+  const [requested, setRequested] = useState(false);
+
+  const { data, fetchNextPage, isFetching } = useInfiniteQuery({
+    queryKey: ["/api/comments", parent.id, "replies", parent.depth],
+    queryFn: async ({ pageParam }): Promise<RepliesPage> => {
+      const response = await fetch(`/api/comments/${parent.id}/replies?offset=${pageParam}&depth=${parent.depth}`, {
+        headers: { "x-session-id": sessionId || "" },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch replies: ${response.status}`);
+      }
+      return response.json();
+    },
+    initialPageParam: parent.replies.length,
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.hasMore ? parent.replies.length + pages.reduce((count, page) => count + page.replies.length, 0) : undefined,
+    enabled: requested,
+  });
+
+  const loaded = data?.pages.flatMap((page) => page.replies) ?? [];
+  const remaining = parent.replyCount - parent.replies.length - loaded.length;
+
+  return (
+    <>
+      {loaded.map((reply) => (
+        <CommentItem key={reply.id} comment={reply} />
+      ))}
+      {remaining > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => requested ? fetchNextPage() : setRequested(true)}
+          disabled={isFetching}
+          className="h-7 px-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+        >
+          <CornerDownRight className="w-3 h-3 mr-1" />
+          {isFetching ? 'Loading...' : `Load ${remaining} more ${remaining === 1 ? 'reply' : 'replies'}`}
+        </Button>
+      )}
+    </>
+  );
+};
+
+// Memoized comment item for better performance; renders its replies recursively
+const CommentItem = memo(({ comment }: { comment: CommentWithUser }) => {
+  const {
+    onDelete, onEdit, onVote, onReply, onContinueThread, onToggleCollapse, collapsed,
+    replyingTo, replyContent, setReplyContent, onSubmitReply, onCancelReply,
+  } = useCommentTree();
+  const isCollapsed = collapsed.has(comment.id);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(comment.content);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleSaveEdit = async () => {
+    const content = editContent.trim();
+    if (!content) return;
+    setIsSavingEdit(true);
+    try {
+      await onEdit(comment.id, content);
+      setIsEditing(false);
+    } catch {
+      // The mutation reports the error; keep the editor open so nothing is lost
+    } finally {
+      setIsSavingEdit(false);
     }
-    return 'U';
   };
 
-  const getDisplayName = (comment: any) => {
+  const getInitials = (user: CommentAuthor | null) => {
+    return user?.username ? user.username[0].toUpperCase() : 'A';
+  };
+
+  const getDisplayName = (comment: CommentWithUser) => {
     // For anonymous comments, use the anonymousUsername if available
     if (!comment.user && comment.anonymousUsername) {
       return comment.anonymousUsername;
     }
-    
-    // For authenticated users
-    if (comment.user) {
-      const user = comment.user;
-      if (user.firstName && user.lastName) {
-        return `${user.firstName} ${user.lastName}`;
-      }
-      if (user.firstName) {
-        return user.firstName;
-      }
-      if (user.username) {
-        return user.username;
-      }
-      return user.email?.split('@')[0] || "Anonymous";
-    }
-    
-    // Default for anonymous without username
-    return "Anonymous";
+    return comment.user?.username || "Anonymous";
   };
 
   return (
-    <div className="flex gap-3 p-4 border-b border-gray-100 last:border-0">
+    <div className={`flex gap-3 ${comment.depth === 0 ? 'p-4 border-b border-gray-100 last:border-0' : 'pt-3'}`}>
       {/* Voting buttons on the left */}
-      <div className="flex flex-col items-center flex-shrink-0 -mt-1">
+      <div className={`flex flex-col items-center flex-shrink-0 -mt-1 ${isCollapsed ? 'invisible' : ''}`}>
         <Button
           variant="ghost"
           size="sm"
@@ -120,14 +232,6 @@ const CommentItem = memo(({ comment, onDelete, currentUserId, onVote, sessionId,
 
       <Suspense fallback={<div className="w-8 h-8 bg-gray-200 rounded-full animate-pulse" />}>
         <Avatar className="w-8 h-8 flex-shrink-0">
-          {comment.user?.profileImageUrl && (
-            <AvatarImage 
-              src={comment.user.profileImageUrl} 
-              alt={`${getDisplayName(comment)}'s avatar`}
-              loading="lazy"
-              decoding="async"
-            />
-          )}
           <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-600 text-white text-sm font-medium">
             {comment.anonymousUsername ? comment.anonymousUsername.charAt(0).toUpperCase() : getInitials(comment.user)}
           </AvatarFallback>
@@ -136,34 +240,122 @@ const CommentItem = memo(({ comment, onDelete, currentUserId, onVote, sessionId,
       
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2 mb-1">
+          <button
+            type="button"
+            onClick={() => onToggleCollapse(comment.id)}
+            className="text-gray-400 hover:text-gray-600 flex-shrink-0"
+            aria-label={isCollapsed ? "Expand thread" : "Collapse thread"}
+            aria-expanded={!isCollapsed}
+          >
+            {isCollapsed ? <PlusCircle className="w-3.5 h-3.5" /> : <MinusCircle className="w-3.5 h-3.5" />}
+          </button>
           <span className="font-medium text-sm text-gray-900 truncate">
             {getDisplayName(comment)}
           </span>
+          {comment.user?.emailVerifiedAt && (
+            <span title="Verified account" className="flex-shrink-0">
+              <BadgeCheck className="w-3.5 h-3.5 text-blue-500" aria-label="Verified account" />
+            </span>
+          )}
           <span className="text-xs text-gray-500 flex-shrink-0">
             {formatTimeAgo(new Date(comment.createdAt))}
           </span>
+          {comment.editedAt && (
+            <button
+              type="button"
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-xs text-gray-500 hover:text-gray-700 underline decoration-dotted flex-shrink-0"
+              title={`Edited ${formatTimeAgo(new Date(comment.editedAt))}`}
+              aria-expanded={showHistory}
+            >
+              edited
+            </button>
+          )}
+          {comment.moderationStatus === 'held' && (
+            <span className="text-xs text-amber-600 flex-shrink-0">Awaiting review</span>
+          )}
+          {isCollapsed && comment.descendantCount > 0 && (
+            <span className="text-xs text-gray-400 flex-shrink-0">
+              ({comment.descendantCount} {comment.descendantCount === 1 ? 'reply' : 'replies'} hidden)
+            </span>
+          )}
         </div>
         
-        <p className="text-sm text-gray-700 leading-relaxed break-words">
-          {comment.content}
-        </p>
+        {isCollapsed ? null : <>
+        {isEditing ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSaveEdit();
+            }}
+          >
+            <Textarea
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              className="min-h-[80px] resize-none border-gray-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm"
+              maxLength={500}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2 mt-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setIsEditing(false);
+                  setEditContent(comment.content);
+                }}
+                className="h-8 px-3 text-xs"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                size="sm"
+                disabled={!editContent.trim() || editContent.trim() === comment.content || isSavingEdit}
+                className="h-8 px-3 text-xs"
+              >
+                {isSavingEdit ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-700 leading-relaxed break-words">
+            {comment.content}
+          </p>
+        )}
+
+        {showHistory && <CommentHistory commentId={comment.id} />}
         
         <div className="flex items-center gap-3 mt-2">
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => comment.replyCount && comment.replyCount > 0 ? onToggleReplies(comment.id) : onReply(comment.id)}
+            onClick={() => onReply(comment.id)}
             className="h-7 px-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
-            aria-label={comment.replyCount && comment.replyCount > 0 ? "View replies" : "Reply to comment"}
+            aria-label="Reply to comment"
           >
             <MessageCircle className="w-3 h-3 mr-1" />
-            {comment.replyCount && comment.replyCount > 0 
-              ? `${comment.replyCount} ${comment.replyCount === 1 ? 'Reply' : 'Replies'}`
-              : 'Reply'
-            }
+            Reply
           </Button>
           
-          {currentUserId === comment.userId && (
+          {comment.canEdit && !isEditing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setEditContent(comment.content);
+                setIsEditing(true);
+              }}
+              className="h-7 px-2 text-xs text-gray-600 hover:text-gray-700 hover:bg-gray-50"
+              aria-label="Edit comment"
+            >
+              <Pencil className="w-3 h-3 mr-1" />
+              Edit
+            </Button>
+          )}
+
+          {comment.isOwner && comment.userId && (
             <Button
               variant="ghost"
               size="sm"
@@ -217,28 +409,26 @@ const CommentItem = memo(({ comment, onDelete, currentUserId, onVote, sessionId,
         )}
 
         {/* Nested Replies */}
-        {expandedReplies.has(comment.id) && comment.replies && comment.replies.length > 0 && (
-          <div className="mt-4 pl-11 border-l-2 border-gray-200 space-y-4">
+        {(comment.replies.length > 0 || comment.moreReplies > 0 || comment.continueThread) && (
+          <div className="mt-2 pl-3 border-l-2 border-gray-200">
             {comment.replies.map((reply) => (
-              <CommentItem
-                key={reply.id}
-                comment={reply}
-                onDelete={() => {}}
-                onVote={() => {}}
-                onReply={onReply}
-                onToggleReplies={onToggleReplies}
-                currentUserId={currentUserId}
-                sessionId={sessionId}
-                replyingTo={replyingTo}
-                replyContent={replyContent}
-                setReplyContent={setReplyContent}
-                onSubmitReply={onSubmitReply}
-                onCancelReply={onCancelReply}
-                expandedReplies={expandedReplies}
-              />
+              <CommentItem key={reply.id} comment={reply} />
             ))}
+            {comment.moreReplies > 0 && <MoreReplies parent={comment} />}
+            {comment.continueThread && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onContinueThread(comment.id)}
+                className="h-7 px-2 mt-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+              >
+                <CornerDownRight className="w-3 h-3 mr-1" />
+                Continue this thread ({comment.descendantCount} more {comment.descendantCount === 1 ? 'reply' : 'replies'})
+              </Button>
+            )}
           </div>
         )}
+        </>}
       </div>
     </div>
   );
@@ -254,7 +444,9 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
   const [pendingComment, setPendingComment] = useState("");
   const [replyingTo, setReplyingTo] = useState<number | null>(null);
   const [replyContent, setReplyContent] = useState("");
-  const [expandedReplies, setExpandedReplies] = useState<Set<number>>(new Set());
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  // Comment shown as the root of its own tree after "Continue this thread"
+  const [threadRootId, setThreadRootId] = useState<number | null>(null);
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -285,7 +477,9 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
   const { data: comments = [], isLoading, refetch } = useQuery<CommentWithUser[]>({
     queryKey: ["/api/ideas", ideaId, "comments"],
     queryFn: async () => {
-      const response = await fetch(`/api/ideas/${ideaId}/comments`);
+      const response = await fetch(`/api/ideas/${ideaId}/comments`, {
+        headers: { "x-session-id": sessionId || "" },
+      });
       if (!response.ok) {
         throw new Error(`Failed to fetch comments: ${response.status}`);
       }
@@ -300,7 +494,10 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
     mutationFn: async (content: string) => {
       const response = await fetch(`/api/ideas/${ideaId}/comments`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "x-session-id": sessionId || ""
+        },
         body: JSON.stringify({ content }),
       });
       if (!response.ok) {
@@ -319,9 +516,10 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
       setNewComment("");
       
       // Immediately update local cache with optimistic update
-      queryClient.setQueryData(["/api/ideas", ideaId, "comments"], (oldComments: any) => {
-        if (!oldComments) return [newComment];
-        return [...oldComments, newComment];
+      const newNode: CommentWithUser = { ...newComment, depth: 0, replies: [], replyCount: 0, descendantCount: 0, moreReplies: 0, continueThread: false };
+      queryClient.setQueryData<CommentWithUser[]>(["/api/ideas", ideaId, "comments"], (oldComments) => {
+        if (!oldComments) return [newNode];
+        return [...oldComments, newNode];
       });
       
       // Update comment count immediately
@@ -338,10 +536,17 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
       // Force immediate refetch for accuracy
       await refetch();
       
+      if (newComment.moderationStatus === 'held') {
+        toast({
+          title: "Comment awaiting review",
+          description: "Only you can see it until a moderator approves it.",
+        });
+      }
+
       // Show username collection popup for anonymous users
       if (!isAuthenticated) {
         setShowUsernamePopup(true);
-      } else {
+      } else if (newComment.moderationStatus !== 'held') {
         toast({
           title: "Success",
           description: "Comment posted successfully",
@@ -417,6 +622,37 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
     },
   });
 
+  // Edit comment mutation
+  const editCommentMutation = useMutation({
+    mutationFn: async ({ commentId, content }: { commentId: number; content: string }) => {
+      const response = await fetch(`/api/comments/${commentId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "x-session-id": sessionId || ""
+        },
+        body: JSON.stringify({ content }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to edit comment");
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ideas", ideaId, "comments"] });
+      // Revisions, loaded reply pages and continued threads
+      queryClient.invalidateQueries({ queryKey: ["/api/comments"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to edit comment",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Vote on comment mutation
   const voteCommentMutation = useMutation({
     mutationFn: async ({ commentId, voteType, sessionId: currentSessionId }: { commentId: number; voteType: 'up' | 'down'; sessionId: string }) => {
@@ -441,30 +677,13 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
       const previousData = queryClient.getQueryData(["/api/ideas", ideaId, "comments"]);
       
       // Optimistically update the vote count
-      queryClient.setQueryData(["/api/ideas", ideaId, "comments"], (oldData: any) => {
+      queryClient.setQueryData<CommentWithUser[]>(["/api/ideas", ideaId, "comments"], (oldData) => {
         if (!oldData) return oldData;
         
-        return oldData.map((comment: any) => {
-          if (comment.id === commentId) {
-            const currentVotes = comment.votes || 0;
-            const newVotes = voteType === 'up' ? currentVotes + 1 : Math.max(0, currentVotes - 1);
-            return { ...comment, votes: newVotes };
-          }
-          // Also update in replies
-          if (comment.replies) {
-            return {
-              ...comment,
-              replies: comment.replies.map((reply: any) => {
-                if (reply.id === commentId) {
-                  const currentVotes = reply.votes || 0;
-                  const newVotes = voteType === 'up' ? currentVotes + 1 : Math.max(0, currentVotes - 1);
-                  return { ...reply, votes: newVotes };
-                }
-                return reply;
-              })
-            };
-          }
-          return comment;
+        return updateCommentInTree(oldData, commentId, (comment) => {
+          const currentVotes = comment.votes || 0;
+          const newVotes = voteType === 'up' ? currentVotes + 1 : Math.max(0, currentVotes - 1);
+          return { ...comment, votes: newVotes };
         });
       });
       
@@ -475,27 +694,13 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
       const commentId = variables.commentId;
       
       // Update with actual server response
-      queryClient.setQueryData(["/api/ideas", ideaId, "comments"], (oldData: any) => {
+      queryClient.setQueryData<CommentWithUser[]>(["/api/ideas", ideaId, "comments"], (oldData) => {
         if (!oldData) return oldData;
         
-        return oldData.map((comment: any) => {
-          if (comment.id === commentId) {
-            return { ...comment, votes: newVoteCount };
-          }
-          // Also update in replies
-          if (comment.replies) {
-            return {
-              ...comment,
-              replies: comment.replies.map((reply: any) => 
-                reply.id === commentId 
-                  ? { ...reply, votes: newVoteCount }
-                  : reply
-              )
-            };
-          }
-          return comment;
-        });
+        return updateCommentInTree(oldData, commentId, (comment) => ({ ...comment, votes: newVoteCount }));
       });
+      // Replies loaded later and continued threads are cached separately
+      queryClient.invalidateQueries({ queryKey: ["/api/comments"] });
     },
     onError: (error, variables, context) => {
       // Rollback optimistic update on error
@@ -567,11 +772,15 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (reply) => {
       queryClient.invalidateQueries({ queryKey: ["/api/ideas", ideaId, "comments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/ideas", ideaId, "comments", "count"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/comments"] });
       refetch(); // Force immediate refetch to update reply counts
-      toast({
+      toast(reply.moderationStatus === 'held' ? {
+        title: "Reply awaiting review",
+        description: "Only you can see it until a moderator approves it.",
+      } : {
         title: "Reply posted!",
         description: "Your reply has been added to the conversation.",
       });
@@ -585,16 +794,30 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
     },
   });
 
-  const toggleReplies = (commentId: number) => {
-    const newExpanded = new Set(expandedReplies);
-    if (newExpanded.has(commentId)) {
-      newExpanded.delete(commentId);
+  const toggleCollapse = (commentId: number) => {
+    const newCollapsed = new Set(collapsed);
+    if (newCollapsed.has(commentId)) {
+      newCollapsed.delete(commentId);
     } else {
-      newExpanded.add(commentId);
+      newCollapsed.add(commentId);
     }
-    setExpandedReplies(newExpanded);
+    setCollapsed(newCollapsed);
   };
 
+  const { data: thread, isLoading: threadLoading } = useQuery<CommentWithUser>({
+    queryKey: ["/api/comments", threadRootId, "thread"],
+    queryFn: async () => {
+      const response = await fetch(`/api/comments/${threadRootId}/thread`, {
+        headers: { "x-session-id": sessionId || "" },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch thread: ${response.status}`);
+      }
+      return response.json();
+    },
+    enabled: threadRootId !== null,
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newComment.trim()) return;
@@ -607,10 +830,31 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
     deleteCommentMutation.mutate(commentId);
   };
 
+  const handleEdit = (commentId: number, content: string) =>
+    editCommentMutation.mutateAsync({ commentId, content });
+
   const handleToggleExpand = () => {
     setIsExpanded(!isExpanded);
   };
 
+  const treeActions: CommentTreeActions = {
+    onDelete: handleDelete,
+    onEdit: handleEdit,
+    onVote: handleVote,
+    onReply: handleReply,
+    onContinueThread: setThreadRootId,
+    onToggleCollapse: toggleCollapse,
+    collapsed,
+    sessionId: sessionId ?? undefined,
+    replyingTo,
+    replyContent,
+    setReplyContent,
+    onSubmitReply: handleSubmitReply,
+    onCancelReply: handleCancelReply,
+  };
+
+  const visibleComments = threadRootId === null ? comments : thread ? [thread] : [];
+
   return (
     <div className={`border border-gray-200 rounded-lg bg-white ${className}`}>
       {/* Header */}
@@ -684,7 +928,20 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
 
           {/* Comments List */}
           <div className="max-h-96 overflow-y-auto">
-            {isLoading ? (
+            {threadRootId !== null && (
+              <div className="px-4 pt-3">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setThreadRootId(null)}
+                  className="h-7 px-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                >
+                  <ArrowLeft className="w-3 h-3 mr-1" />
+                  Back to all comments
+                </Button>
+              </div>
+            )}
+            {isLoading || (threadRootId !== null && threadLoading) ? (
               <div className="p-4 space-y-4">
                 {[...Array(3)].map((_, i) => (
                   <div key={i} className="flex gap-3 animate-pulse">
@@ -697,27 +954,14 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
                   </div>
                 ))}
               </div>
-            ) : comments.length > 0 ? (
-              <div>
-                {comments.map((comment) => (
-                  <CommentItem
-                    key={comment.id}
-                    comment={comment}
-                    onDelete={handleDelete}
-                    onVote={handleVote}
-                    onReply={handleReply}
-                    onToggleReplies={toggleReplies}
-                    currentUserId={user?.id}
-                    sessionId={sessionId ?? undefined}
-                    replyingTo={replyingTo}
-                    replyContent={replyContent}
-                    setReplyContent={setReplyContent}
-                    onSubmitReply={handleSubmitReply}
-                    onCancelReply={handleCancelReply}
-                    expandedReplies={expandedReplies}
-                  />
-                ))}
-              </div>
+            ) : visibleComments.length > 0 ? (
+              <CommentTreeContext.Provider value={treeActions}>
+                <div>
+                  {visibleComments.map((comment) => (
+                    <CommentItem key={comment.id} comment={comment} />
+                  ))}
+                </div>
+              </CommentTreeContext.Provider>
             ) : null}
           </div>
         </div>
@@ -745,8 +989,8 @@ export default function CommentSection({ ideaId, className = "", commentCount: p
                     try {
                       await fetch(`/api/comments/${pendingComment.id}/username`, {
                         method: 'PATCH',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ username, sessionId }),
+                        headers: { 'Content-Type': 'application/json', 'x-session-id': sessionId },
+                        body: JSON.stringify({ username }),
                       });
                       
                       // Close the popup and refresh comments to show updated username
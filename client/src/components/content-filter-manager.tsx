@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { X } from "lucide-react";
+
+type FilterList = 'block' | 'allow';
+type FilterAction = 'block' | 'review' | 'flag';
+
+interface FilterTerm {
+  id: number;
+  term: string;
+  list: FilterList;
+  action: FilterAction;
+}
+
+interface FilterResult {
+  action: FilterAction | null;
+  matches: { term: string; action: FilterAction; text: string }[];
+}
+
+const actionLabels: Record<FilterAction, string> = {
+  block: 'Block',
+  review: 'Hold for review',
+  flag: 'Flag',
+};
+
+// Admin-only panel for the content filter's blocklist and allowlist
+export default function ContentFilterManager() {
+  const { toast } = useToast();
+  const [term, setTerm] = useState("");
+  const [list, setList] = useState<FilterList>('block');
+  const [action, setAction] = useState<FilterAction>('block');
+  const [testText, setTestText] = useState("");
+  const [testResult, setTestResult] = useState<FilterResult | null>(null);
+
+  const { data: terms = [] } = useQuery<FilterTerm[]>({
+    queryKey: ['/api/admin/content-filter/terms'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/content-filter/terms');
+      if (!res.ok) throw new Error('Failed to get filter terms');
+      return res.json();
+    },
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update the filter",
+      variant: "destructive",
+    });
+  };
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || 'Request failed');
+    return data;
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => request('/api/admin/content-filter/terms', 'POST', { term: term.trim(), list, action }),
+    onSuccess: () => {
+      setTerm("");
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/content-filter/terms'] });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: FilterAction }) =>
+      request(`/api/admin/content-filter/terms/${id}`, 'PATCH', { action }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/content-filter/terms'] }),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => request(`/api/admin/content-filter/terms/${id}`, 'DELETE'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/content-filter/terms'] }),
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (): Promise<FilterResult> => request('/api/admin/content-filter/test', 'POST', { text: testText }),
+    onSuccess: setTestResult,
+    onError,
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!term.trim()) return;
+    addMutation.mutate();
+  };
+
+  const blocklist = terms.filter((t) => t.list === 'block');
+  const allowlist = terms.filter((t) => t.list === 'allow');
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Content Filter</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Checked against ideas, comments and usernames. Terms match whole words, including leetspeak and look-alike
+        letters; end a term with * to match words starting with it. Allowlisted words are never matched.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3 mb-6">
+        <Input
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder="Word or phrase"
+          maxLength={100}
+          className="sm:flex-1"
+        />
+        <Select value={list} onValueChange={(value) => setList(value as FilterList)}>
+          <SelectTrigger className="sm:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="block">Blocklist</SelectItem>
+            <SelectItem value="allow">Allowlist</SelectItem>
+          </SelectContent>
+        </Select>
+        {list === 'block' && (
+          <Select value={action} onValueChange={(value) => setAction(value as FilterAction)}>
+            <SelectTrigger className="sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(actionLabels) as FilterAction[]).map((key) => (
+                <SelectItem key={key} value={key}>{actionLabels[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button type="submit" disabled={!term.trim() || addMutation.isPending}>
+          Add
+        </Button>
+      </form>
+
+      <div className="grid gap-6 md:grid-cols-2 mb-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Blocklist ({blocklist.length})</h3>
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+            {blocklist.map((t) => (
+              <div key={t.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                <span className="flex-1 font-mono truncate">{t.term}</span>
+                <Select
+                  value={t.action}
+                  onValueChange={(value) => updateMutation.mutate({ id: t.id, action: value as FilterAction })}
+                >
+                  <SelectTrigger className="h-8 w-40 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(actionLabels) as FilterAction[]).map((key) => (
+                      <SelectItem key={key} value={key}>{actionLabels[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeMutation.mutate(t.id)}
+                  disabled={removeMutation.isPending}
+                  aria-label={`Remove ${t.term}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Allowlist ({allowlist.length})</h3>
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+            {allowlist.length === 0 ? (
+              <p className="px-3 py-2 text-sm text-gray-500">No allowlisted words.</p>
+            ) : allowlist.map((t) => (
+              <div key={t.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                <span className="flex-1 font-mono truncate">{t.term}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeMutation.mutate(t.id)}
+                  disabled={removeMutation.isPending}
+                  aria-label={`Remove ${t.term}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-medium text-gray-900 mb-2">Try it</h3>
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Textarea
+          value={testText}
+          onChange={(e) => setTestText(e.target.value)}
+          placeholder="Paste text to see what the filter would do"
+          className="sm:flex-1 min-h-16"
+        />
+        <Button variant="outline" onClick={() => testMutation.mutate()} disabled={!testText.trim() || testMutation.isPending}>
+          Check
+        </Button>
+      </div>
+      {testResult && (
+        <div className="mt-3 text-sm">
+          {testResult.action ? (
+            <>
+              <Badge variant={testResult.action === 'block' ? 'destructive' : 'secondary'}>{actionLabels[testResult.action]}</Badge>
+              <span className="ml-2 text-gray-700">
+                {testResult.matches.map((match) => `"${match.text}" (${match.term})`).join(', ')}
+              </span>
+            </>
+          ) : (
+            <span className="text-gray-700">No matches; this text would be accepted.</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
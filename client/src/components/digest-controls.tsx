@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Eye, Send, CalendarClock } from "lucide-react";
+
+interface DigestPreview {
+  subject: string;
+  html: string;
+  text: string;
+  period: { start: string; end: string };
+  ideaCount: number;
+  recipientCount: number;
+}
+
+interface DigestIssue {
+  id: number;
+  periodStart: string;
+  status: 'scheduled' | 'sending' | 'sent' | 'cancelled';
+  scheduledFor: string;
+  completedAt: string | null;
+  recipientCount: number;
+}
+
+const statusVariants: Record<DigestIssue['status'], "default" | "secondary" | "destructive" | "outline"> = {
+  scheduled: 'outline',
+  sending: 'secondary',
+  sent: 'default',
+  cancelled: 'destructive',
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Admin-only panel for previewing, sending and scheduling the weekly digest email
+export default function DigestControls() {
+  const { toast } = useToast();
+  const [showPreview, setShowPreview] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState("");
+
+  const { data: preview, isFetching: previewLoading } = useQuery<DigestPreview>({
+    queryKey: ['/api/admin/digest/preview'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/digest/preview');
+      if (!res.ok) throw new Error('Failed to build digest preview');
+      return res.json();
+    },
+  });
+
+  const { data: issues = [] } = useQuery<DigestIssue[]>({
+    queryKey: ['/api/admin/digest/issues'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/digest/issues');
+      if (!res.ok) throw new Error('Failed to get digest issues');
+      return res.json();
+    },
+  });
+
+  const postJson = async (url: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body ?? {}),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || 'Request failed');
+    return data;
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Digest request failed",
+      variant: "destructive",
+    });
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: () => postJson('/api/admin/digest/send'),
+    onSuccess: (data) => {
+      toast({ title: "Digest sent", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/digest/issues'] });
+    },
+    onError,
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: (when: string) => postJson('/api/admin/digest/schedule', { scheduledFor: new Date(when).toISOString() }),
+    onSuccess: (issue: DigestIssue) => {
+      setScheduledFor("");
+      toast({ title: "Digest scheduled", description: `Sending ${formatDate(issue.scheduledFor)}` });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/digest/issues'] });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: number) => postJson(`/api/admin/digest/issues/${id}/cancel`),
+    onSuccess: () => {
+      toast({ title: "Scheduled digest cancelled" });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/digest/issues'] });
+    },
+    onError,
+  });
+
+  const handleSendNow = () => {
+    if (!preview) return;
+    if (!confirm(`Send this week's digest to ${preview.recipientCount} subscribers now?`)) return;
+    sendMutation.mutate();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Weekly Digest</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {preview
+          ? `${preview.ideaCount} ideas for the week of ${new Date(preview.period.start).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })} · ${preview.recipientCount} subscribers`
+          : "Building preview..."}
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <Button variant="outline" onClick={() => setShowPreview(true)} disabled={!preview || previewLoading}>
+          <Eye className="w-4 h-4 mr-2" />
+          Preview
+        </Button>
+        <Button onClick={handleSendNow} disabled={!preview || sendMutation.isPending}>
+          <Send className="w-4 h-4 mr-2" />
+          {sendMutation.isPending ? "Sending..." : "Send Now"}
+        </Button>
+        <form
+          className="flex gap-2 sm:ml-auto"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (scheduledFor) scheduleMutation.mutate(scheduledFor);
+          }}
+        >
+          <Input
+            type="datetime-local"
+            value={scheduledFor}
+            onChange={(e) => setScheduledFor(e.target.value)}
+            aria-label="Send at"
+          />
+          <Button type="submit" variant="outline" disabled={!scheduledFor || scheduleMutation.isPending}>
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Schedule
+          </Button>
+        </form>
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="text-sm text-gray-500">No digests sent or scheduled yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {issues.map((issue) => (
+            <div key={issue.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-900">
+                  Week of {new Date(issue.periodStart).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}
+                </span>
+                <span className="text-gray-500 ml-2">
+                  {issue.status === 'sent' && issue.completedAt
+                    ? `sent ${formatDate(issue.completedAt)} to ${issue.recipientCount}`
+                    : `for ${formatDate(issue.scheduledFor)}`}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={statusVariants[issue.status]}>{issue.status}</Badge>
+                {issue.status === 'scheduled' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => cancelMutation.mutate(issue.id)}
+                    disabled={cancelMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={showPreview} onOpenChange={setShowPreview}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.subject}</DialogTitle>
+          </DialogHeader>
+          <iframe
+            title="Digest preview"
+            srcDoc={preview?.html}
+            sandbox=""
+            className="w-full h-[60vh] border border-gray-200 rounded"
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
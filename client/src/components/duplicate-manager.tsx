@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { GitMerge } from "lucide-react";
+
+interface DuplicateIdea {
+  id: number;
+  title: string;
+  useCase: string | null;
+  votes: number;
+  commentCount: number;
+  submittedAt: string;
+}
+
+interface DuplicateCluster {
+  similarity: number;
+  ideas: DuplicateIdea[]; // Most voted first
+}
+
+function clusterKey(cluster: DuplicateCluster) {
+  return cluster.ideas.map((idea) => idea.id).join("-");
+}
+
+// Admin-only panel listing clusters of likely duplicates, with a merge into the chosen canonical idea
+export default function DuplicateManager() {
+  const { toast } = useToast();
+  // Canonical idea per cluster; defaults to the most voted one
+  const [canonicalIds, setCanonicalIds] = useState<Record<string, number>>({});
+
+  const { data: clusters = [], isLoading } = useQuery<DuplicateCluster[]>({
+    queryKey: ['/api/admin/duplicates'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/duplicates');
+      if (!res.ok) throw new Error('Failed to find duplicates');
+      return res.json();
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ id, canonicalId }: { id: number; canonicalId: number }) => {
+      const res = await fetch(`/api/admin/ideas/${id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ canonicalId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || 'Failed to merge ideas');
+      return data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Ideas merged",
+        description: `${data.message}: moved ${data.votesMoved} votes and ${data.commentsMoved} comments` +
+          (data.voteAdjustmentDropped ? `; its vote adjustment of ${data.voteAdjustmentDropped} was not carried over` : ''),
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ideas'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge ideas",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleMerge = (id: number, canonicalId: number) => {
+    if (!confirm(`Merge idea #${id} into #${canonicalId}? Its votes and comments move over and #${id} is removed.`)) return;
+    mergeMutation.mutate({ id, canonicalId });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Likely Duplicates</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Pick the idea to keep in each group, then merge the others into it. Links to merged ideas redirect to the one you keep.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Looking for duplicates...</p>
+      ) : clusters.length === 0 ? (
+        <p className="text-sm text-gray-500">No likely duplicates found.</p>
+      ) : (
+        <div className="space-y-4">
+          {clusters.map((cluster) => {
+            const key = clusterKey(cluster);
+            const canonicalId = canonicalIds[key] ?? cluster.ideas[0].id;
+            return (
+              <div key={key} className="border border-gray-200 rounded-md">
+                <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm text-gray-600">
+                  {Math.round(cluster.similarity * 100)}% similar
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {cluster.ideas.map((idea) => (
+                    <div key={idea.id} className="flex items-start gap-3 px-4 py-3 text-sm">
+                      <input
+                        type="radio"
+                        name={`canonical-${key}`}
+                        checked={idea.id === canonicalId}
+                        onChange={() => setCanonicalIds({ ...canonicalIds, [key]: idea.id })}
+                        className="mt-1"
+                        aria-label={`Keep idea #${idea.id}`}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <a href={`/idea/${idea.id}`} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:text-blue-800">
+                          #{idea.id} {idea.title}
+                        </a>
+                        <p className="text-gray-700 line-clamp-2 break-words">{idea.useCase}</p>
+                        <p className="text-gray-500 mt-1">
+                          {idea.votes} votes · {idea.commentCount} comments · {new Date(idea.submittedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      {idea.id === canonicalId ? (
+                        <Badge variant="secondary">Keep</Badge>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleMerge(idea.id, canonicalId)}
+                          disabled={mergeMutation.isPending}
+                        >
+                          <GitMerge className="w-4 h-4 mr-1" />
+                          Merge into #{canonicalId}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,41 +4,26 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useState, memo, lazy, Suspense, useMemo, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
-import type { Idea } from "@shared/schema";
+import { useCategories } from "@/hooks/use-categories";
+import type { Idea, PublicLinkPreview, PublicTag } from "@shared/schema";
 
 // Lazy load comment section for better performance
 const CommentSection = lazy(() => import("@/components/comment-section"));
 
 interface IdeaCardProps {
-  idea: Idea;
-  onVote: (ideaId: number, voteType: 'up' | 'down') => void;
+  idea: Idea & { userVote?: 'up' | 'down' | null; linkPreview?: PublicLinkPreview | null; tags?: PublicTag[] };
+  // 'none' retracts the caller's current vote
+  onVote: (ideaId: number, voteType: 'up' | 'down' | 'none') => void;
   isVoting: boolean;
   isHighlighted?: boolean;
   isSharedLink?: boolean;
   isRecentlySubmitted?: boolean;
+  searchSnippet?: string;
+  // Tag chips become buttons, e.g. to filter the feed by the tag
+  onTagClick?: (tag: PublicTag) => void;
 }
 
-// Function to format category names properly
-const formatCategoryName = (category: string): string => {
-  const categoryMap: Record<string, string> = {
-    'marketing-ads': 'Marketing & Ads',
-    'automation-ai-agents': 'Automation AI Agents',
-    'data-analysis-reporting': 'Data Analysis & Reporting',
-    'sales-outreach': 'Sales & Outreach',
-    'content-creation': 'Content Creation',
-    'productivity-time-saving': 'Productivity & Time-Saving',
-    'customer-support': 'Customer Support',
-    'ecommerce-dropshipping': 'E-commerce & Dropshipping',
-    'personal-lifestyle': 'Personal & Lifestyle',
-    'real-estate': 'Real Estate',
-  };
-
-  return categoryMap[category] || category
-    .split('-')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
-
+// Colors for the default categories; ones admins add later are gray
 const categoryColors: Record<string, string> = {
   "content-creation": "bg-purple-100 text-purple-800",
   "marketing-ads": "bg-pink-100 text-pink-800",
@@ -53,6 +38,16 @@ const categoryColors: Record<string, string> = {
   "other": "bg-gray-100 text-gray-800",
 };
 
+// Render a server search snippet, turning [[match]] markers into <mark> elements
+const renderSnippet = (snippet: string) =>
+  snippet.split(/(\[\[.*?\]\])/g).map((part, index) =>
+    part.startsWith('[[') && part.endsWith(']]') ? (
+      <mark key={index} className="bg-yellow-200 text-slate-900 rounded px-0.5">{part.slice(2, -2)}</mark>
+    ) : (
+      part
+    )
+  );
+
 const formatTimeAgo = (date: Date) => {
   const now = new Date();
   const diffInMs = now.getTime() - new Date(date).getTime();
@@ -68,9 +63,10 @@ const formatTimeAgo = (date: Date) => {
   }
 };
 
-export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false, isSharedLink = false, isRecentlySubmitted = false }: IdeaCardProps) {
+export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false, isSharedLink = false, isRecentlySubmitted = false, searchSnippet, onTagClick }: IdeaCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const { toast } = useToast();
+  const { getCategory, getLabel } = useCategories();
   
   // Memoize expensive calculations for better performance
   const { useCase, shouldTruncate, displayText } = useMemo(() => {
@@ -89,7 +85,7 @@ export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false
   }, [idea.useCase, idea.description, idea.title, isExpanded]);
 
   const handleShareIdea = useCallback(async () => {
-    const shareUrl = `${window.location.origin}/?idea=${idea.id}`;
+    const shareUrl = `${window.location.origin}/idea/${idea.id}`;
     try {
       await navigator.clipboard.writeText(shareUrl);
       toast({
@@ -139,12 +135,13 @@ export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false
         <div className="flex items-start space-x-4">
           <div className="flex flex-col items-center space-y-1">
             <button
-              className="p-1 rounded-lg hover:bg-slate-100 transition-colors"
-              onClick={() => onVote(idea.id, 'up')}
+              className={`p-1 rounded-lg transition-colors ${idea.userVote === 'up' ? "bg-blue-50" : "hover:bg-slate-100"}`}
+              onClick={() => onVote(idea.id, idea.userVote === 'up' ? 'none' : 'up')}
               disabled={isVoting}
+              aria-pressed={idea.userVote === 'up'}
               aria-label={`Upvote idea: ${idea.useCase?.substring(0, 50) || idea.title || 'this idea'}...`}
             >
-              <ChevronUp className="text-slate-600 hover:text-blue-600 h-5 w-5" />
+              <ChevronUp className={`h-5 w-5 ${idea.userVote === 'up' ? "text-blue-600" : "text-slate-600 hover:text-blue-600"}`} />
             </button>
             <span className="text-sm font-semibold text-slate-700 px-2">{idea.votes}</span>
             <button
@@ -153,8 +150,9 @@ export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false
                   ? "hover:bg-slate-100" 
                   : "opacity-30 cursor-not-allowed"
               }`}
-              onClick={() => idea.votes >= 100 && onVote(idea.id, 'down')}
+              onClick={() => idea.votes >= 100 && onVote(idea.id, idea.userVote === 'down' ? 'none' : 'down')}
               disabled={isVoting || idea.votes < 100}
+              aria-pressed={idea.userVote === 'down'}
               aria-label={
                 idea.votes >= 100 
                   ? `Downvote idea: ${idea.useCase?.substring(0, 50) || idea.title || 'this idea'}...`
@@ -163,9 +161,11 @@ export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false
               title={idea.votes < 100 ? `Downvoting enabled at 100 upvotes (currently ${idea.votes})` : undefined}
             >
               <ChevronDown className={`h-5 w-5 ${
-                idea.votes >= 100 
-                  ? "text-slate-600 hover:text-red-600" 
-                  : "text-slate-300"
+                idea.userVote === 'down'
+                  ? "text-red-600"
+                  : idea.votes >= 100 
+                    ? "text-slate-600 hover:text-red-600" 
+                    : "text-slate-300"
               }`} />
             </button>
           </div>
@@ -203,14 +203,17 @@ export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false
                   className={`text-xs rounded-full ${categoryColors[idea.category] || categoryColors.other}`}
                   variant="secondary"
                 >
-                  {formatCategoryName(idea.category)}
+                  {getCategory(idea.category)?.icon && <span className="mr-1" aria-hidden="true">{getCategory(idea.category)!.icon}</span>}
+                  {getLabel(idea.category)}
                 </Badge>
               )}
             </div>
             
             <div className="mb-2">
-              <p className="text-slate-800 leading-relaxed whitespace-pre-wrap break-words overflow-hidden">{displayText}</p>
-              {shouldTruncate && (
+              <p className="text-slate-800 leading-relaxed whitespace-pre-wrap break-words overflow-hidden">
+                {searchSnippet && !isExpanded ? renderSnippet(searchSnippet) : displayText}
+              </p>
+              {(shouldTruncate || (searchSnippet && searchSnippet.replace(/\[\[|\]\]/g, '') !== useCase)) && (
                 <button
                   onClick={() => setIsExpanded(!isExpanded)}
                   className="text-blue-700 hover:text-blue-900 text-sm font-medium mt-0.5"
@@ -232,23 +235,66 @@ export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false
                     preload="metadata"
                   />
                 ) : (
-                  <img 
-                    src={idea.mediaUrl} 
-                    alt="User uploaded content" 
-                    className="w-full max-h-96 object-cover"
+                  <a href={idea.mediaUrl} target="_blank" rel="noopener noreferrer">
+                    <img 
+                      src={idea.mediaThumbnailUrl || idea.mediaUrl} 
+                      alt="User uploaded content" 
+                      className="w-full max-h-96 object-cover"
+                      loading="lazy"
+                      decoding="async"
+                      fetchPriority="low"
+                      width={600}
+                      height={400}
+                      style={{ aspectRatio: '3/2', objectFit: 'cover' }}
+                    />
+                  </a>
+                )}
+              </div>
+            )}
+
+            {/* Link preview for link posts; the bare link until the page has been unfurled */}
+            {idea.postType === 'link' && idea.linkUrl && idea.linkPreview && (
+              <a
+                href={idea.linkPreview.finalUrl || idea.linkPreview.url}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="mb-2 flex overflow-hidden border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex-1 min-w-0 p-3">
+                  <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                    {idea.linkPreview.faviconUrl && (
+                      <img
+                        src={idea.linkPreview.faviconUrl}
+                        alt=""
+                        className="w-4 h-4"
+                        loading="lazy"
+                        referrerPolicy="no-referrer"
+                        onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                      />
+                    )}
+                    <span className="truncate">{idea.linkPreview.siteName}</span>
+                  </div>
+                  <p className="font-medium text-sm text-gray-900 line-clamp-2 break-words">
+                    {idea.linkPreview.title || idea.linkUrl}
+                  </p>
+                  {idea.linkPreview.description && (
+                    <p className="text-xs text-gray-600 line-clamp-2 mt-1 break-words">{idea.linkPreview.description}</p>
+                  )}
+                </div>
+                {idea.linkPreview.imageUrl && (
+                  <img
+                    src={idea.linkPreview.imageUrl}
+                    alt=""
+                    className="w-28 sm:w-36 object-cover flex-shrink-0 bg-gray-100"
                     loading="lazy"
                     decoding="async"
-                    fetchPriority="low"
-                    width={600}
-                    height={400}
-                    style={{ aspectRatio: '3/2', objectFit: 'cover' }}
+                    referrerPolicy="no-referrer"
+                    onError={(e) => { e.currentTarget.style.display = 'none'; }}
                   />
                 )}
-              </div>
+              </a>
             )}
-
-            {/* Link preview for link posts */}
-            {idea.postType === 'link' && idea.linkUrl && (
+            {idea.postType === 'link' && idea.linkUrl && !idea.linkPreview && (
               <div className="mb-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                 <div className="flex items-center gap-2 text-blue-700">
                   <Link2 className="w-4 h-4" />
@@ -309,9 +355,31 @@ export default function IdeaCard({ idea, onVote, isVoting, isHighlighted = false
                 </div>
               );
             })()}
+            {idea.tags && idea.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-1">
+                {idea.tags.map((tag) => {
+                  const label = tag.kind === 'tool' ? tag.name : `#${tag.name}`;
+                  const className = `text-xs rounded-full px-2 py-0.5 ${
+                    tag.kind === 'tool' ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-600'
+                  }`;
+                  return onTagClick ? (
+                    <button
+                      key={tag.id}
+                      type="button"
+                      onClick={() => onTagClick(tag)}
+                      className={`${className} hover:ring-1 hover:ring-current`}
+                      title={`Show ideas tagged ${tag.name}`}
+                    >
+                      {label}
+                    </button>
+                  ) : (
+                    <span key={tag.id} className={className}>{label}</span>
+                  );
+                })}
+              </div>
+            )}
             <div className="flex items-center justify-between text-sm text-slate-500 mt-1">
               <div className="flex items-center space-x-4">
-                {idea.tools && <span>Tools: {idea.tools}</span>}
                 <span>{formatTimeAgo(idea.submittedAt)}</span>
               </div>
               <button
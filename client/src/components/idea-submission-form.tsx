@@ -1,21 +1,36 @@
 import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertIdeaSchema } from "@shared/schema";
+import { insertIdeaSchema, MAX_TAGS_PER_KIND } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent } from "@/components/ui/card";
-import { Rocket, FileText, Link2, Image } from "lucide-react";
+import TagInput from "@/components/tag-input";
+import { Rocket, FileText, Link2, Image, Copy } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
 import { trackEvent } from "@/lib/analytics";
 import { useState } from "react";
 import type { InsertIdea } from "@shared/schema";
 
+interface SimilarIdea {
+  id: number;
+  title: string;
+  similarity: number;
+}
+
+interface UploadedMedia {
+  id: number;
+  url: string;
+  thumbnailUrl: string | null;
+  mediaType: 'image' | 'video';
+}
+
 interface IdeaSubmissionFormProps {
   sessionId: string;
   onSubmitted: (newIdeaId?: number, ideaText?: string) => void;
@@ -23,7 +38,11 @@ interface IdeaSubmissionFormProps {
 
 export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmissionFormProps) {
   const { toast } = useToast();
+  const { open: categories, getCategory } = useCategories();
   const [selectedPostType, setSelectedPostType] = useState<"text" | "link" | "media">("text");
+  // Set when the submission looks like existing ideas; the author can still post it
+  const [duplicateWarning, setDuplicateWarning] = useState<{ submission: InsertIdea; matches: SimilarIdea[] } | null>(null);
+  const [uploadedMedia, setUploadedMedia] = useState<UploadedMedia | null>(null);
   
   const form = useForm<InsertIdea>({
     resolver: zodResolver(insertIdeaSchema),
@@ -32,11 +51,11 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
       description: "",
       useCase: "",
       category: "",
-      tools: "",
+      tools: [],
+      topics: [],
       linkUrl: "",
       postType: "text",
-      mediaUrl: undefined,
-      mediaType: undefined,
+      mediaUploadId: undefined,
     },
   });
 
@@ -60,9 +79,12 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
       return res.json();
     },
     onSuccess: (data) => {
+      const held = data?.moderationStatus === 'held';
       toast({
-        title: "Idea submitted successfully!",
-        description: "Your AI use case has been added to the community.",
+        title: held ? "Idea submitted for review" : "Idea submitted successfully!",
+        description: held
+          ? "It will appear in the community once a moderator approves it."
+          : "Your AI use case has been added to the community.",
         action: (
           <Button
             variant="outline"
@@ -77,6 +99,8 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
         ),
       });
       form.reset();
+      setDuplicateWarning(null);
+      setUploadedMedia(null);
       onSubmitted(data?.id, data?.useCase);
     },
     onError: (error: any) => {
@@ -88,6 +112,59 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
     },
   });
 
+  // Files are uploaded as soon as they're picked; the idea is submitted with the upload's id
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File): Promise<UploadedMedia> => {
+      const body = new FormData();
+      body.append('file', file);
+      const res = await fetch('/api/uploads', {
+        method: 'POST',
+        headers: { 'x-session-id': sessionId },
+        body,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || 'Failed to upload file');
+      return data;
+    },
+    onSuccess: (upload) => {
+      setUploadedMedia(upload);
+      form.setValue('mediaUploadId', upload.id);
+    },
+    onError: (error: any) => {
+      setUploadedMedia(null);
+      form.setValue('mediaUploadId', undefined);
+      toast({
+        title: "Upload failed",
+        description: error.message || "Failed to upload file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const similarCheckMutation = useMutation({
+    mutationFn: async (submission: InsertIdea) => {
+      const res = await fetch('/api/ideas/similar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-session-id': sessionId },
+        body: JSON.stringify({ useCase: submission.useCase }),
+      });
+      if (!res.ok) throw new Error('Failed to check for similar ideas');
+      const data: { matches: SimilarIdea[] } = await res.json();
+      return { submission, matches: data.matches };
+    },
+    onSuccess: ({ submission, matches }) => {
+      if (matches.length > 0) {
+        setDuplicateWarning({ submission, matches });
+      } else {
+        submitMutation.mutate(submission);
+      }
+    },
+    // The check is only advisory, so never block a submission on it
+    onError: (_error, submission) => {
+      submitMutation.mutate(submission);
+    },
+  });
+
   const onSubmit = (data: InsertIdea) => {
     console.log("Form submit - sessionId:", sessionId);
     if (!sessionId) {
@@ -109,7 +186,7 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
       return;
     }
     
-    if (selectedPostType === "media" && !data.mediaUrl) {
+    if (selectedPostType === "media" && !data.mediaUploadId) {
       toast({
         title: "Error",
         description: "Media upload is required for media posts",
@@ -118,19 +195,23 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
       return;
     }
     
-    // Auto-default to "Other" if no category or tools selected
+    // Auto-default to "other" if no category selected
     const submissionData = {
       ...data,
-      category: data.category || "Other",
-      tools: data.tools || "Other",
+      category: data.category || "other",
       postType: selectedPostType,
       // Ensure post type is correctly set based on selection
-      mediaUrl: selectedPostType === "media" ? data.mediaUrl : undefined,
-      mediaType: selectedPostType === "media" ? data.mediaType : undefined,
+      mediaUploadId: selectedPostType === "media" ? data.mediaUploadId : undefined,
       linkUrl: selectedPostType === "link" ? data.linkUrl : data.linkUrl, // Keep optional link for text posts
     };
     
-    submitMutation.mutate(submissionData);
+    // Already warned about this exact text: the author chose to post it anyway
+    if (duplicateWarning && duplicateWarning.submission.useCase === submissionData.useCase) {
+      submitMutation.mutate(submissionData);
+      return;
+    }
+    setDuplicateWarning(null);
+    similarCheckMutation.mutate(submissionData);
   };
 
   return (
@@ -239,19 +320,16 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="content-creation">Content Creation</SelectItem>
-                        <SelectItem value="marketing-ads">Marketing & Ads</SelectItem>
-                        <SelectItem value="sales-outreach">Sales & Outreach</SelectItem>
-                        <SelectItem value="automation-ai-agents">Automation & AI Agents</SelectItem>
-                        <SelectItem value="data-analysis-reporting">Data Analysis & Reporting</SelectItem>
-                        <SelectItem value="productivity-time-saving">Productivity & Time-Saving</SelectItem>
-                        <SelectItem value="customer-support">Customer Support</SelectItem>
-                        <SelectItem value="ecommerce-dropshipping">E-commerce & Dropshipping</SelectItem>
-                        <SelectItem value="personal-lifestyle">Personal Life & Lifestyle Hacks</SelectItem>
-                        <SelectItem value="real-estate">Real Estate</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.slug} value={category.slug}>
+                            {category.icon ? `${category.icon} ${category.label}` : category.label}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    {getCategory(field.value)?.description && (
+                      <FormDescription>{getCategory(field.value)!.description}</FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -263,33 +341,43 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel className="text-sm font-medium text-slate-700">AI Tools Used</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value || ""}>
-                      <FormControl>
-                        <SelectTrigger className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-all">
-                          <SelectValue placeholder="Select AI tools" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="chatgpt">ChatGPT</SelectItem>
-                        <SelectItem value="claude">Claude</SelectItem>
-                        <SelectItem value="gemini">Gemini</SelectItem>
-                        <SelectItem value="deepseek">DeepSeek</SelectItem>
-                        <SelectItem value="grok">Grok</SelectItem>
-                        <SelectItem value="perplexity">Perplexity</SelectItem>
-                        <SelectItem value="manus">Manus</SelectItem>
-                        <SelectItem value="mistral">Mistral</SelectItem>
-                        <SelectItem value="llama">Llama</SelectItem>
-                        <SelectItem value="gumloop">Gumloop</SelectItem>
-                        <SelectItem value="lindy">Lindy</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <FormControl>
+                      <TagInput
+                        value={field.value ?? []}
+                        onChange={field.onChange}
+                        kind="tool"
+                        max={MAX_TAGS_PER_KIND}
+                        placeholder="ChatGPT, Zapier..."
+                        aria-label="AI tools used"
+                      />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="topics"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm font-medium text-slate-700">Topics <span className="text-slate-400 font-normal">(optional)</span></FormLabel>
+                  <FormControl>
+                    <TagInput
+                      value={field.value ?? []}
+                      onChange={field.onChange}
+                      kind="topic"
+                      max={MAX_TAGS_PER_KIND}
+                      placeholder="e.g. cold email, meal planning"
+                      aria-label="Topics"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* Conditional fields based on post type */}
             {selectedPostType === "link" && (
               <FormField
@@ -317,8 +405,8 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
             {selectedPostType === "media" && (
               <FormField
                 control={form.control}
-                name="mediaUrl"
-                render={({ field }) => (
+                name="mediaUploadId"
+                render={() => (
                   <FormItem>
                     <FormLabel className="text-sm font-medium text-slate-700">
                       Upload Media <span className="text-red-500">*</span>
@@ -327,32 +415,27 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
                       <div className="space-y-3">
                         <Input
                           type="file"
-                          accept="image/*,video/*"
+                          accept="image/jpeg,image/png,image/gif,image/webp,video/mp4,video/webm,video/quicktime"
                           className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-all"
+                          disabled={uploadMutation.isPending}
                           onChange={(e) => {
                             const file = e.target.files?.[0];
                             if (file) {
-                              // For demo purposes, we'll use a data URL
-                              const reader = new FileReader();
-                              reader.onload = (event) => {
-                                const result = event.target?.result as string;
-                                field.onChange(result);
-                              };
-                              reader.readAsDataURL(file);
-                              
-                              // Determine media type
-                              const mediaType = file.type.startsWith('video/') ? 'video' : 'image';
-                              form.setValue('mediaType', mediaType);
+                              uploadMutation.mutate(file);
                             }
                           }}
                         />
-                        {field.value && (
+                        <p className="text-xs text-gray-500">Images up to 10 MB, videos up to 50 MB</p>
+                        {uploadMutation.isPending && (
+                          <p className="text-sm text-gray-600">Uploading...</p>
+                        )}
+                        {uploadedMedia && !uploadMutation.isPending && (
                           <div className="border rounded-lg p-3 bg-gray-50">
                             <p className="text-sm text-gray-600 mb-2">Preview:</p>
-                            {form.watch('mediaType') === 'video' ? (
-                              <video src={field.value} className="max-w-full h-32 rounded" controls />
+                            {uploadedMedia.mediaType === 'video' ? (
+                              <video src={uploadedMedia.url} className="max-w-full h-32 rounded" controls />
                             ) : (
-                              <img src={field.value} alt="Preview" className="max-w-full h-32 object-cover rounded" />
+                              <img src={uploadedMedia.thumbnailUrl || uploadedMedia.url} alt="Preview" className="max-w-full h-32 object-cover rounded" />
                             )}
                           </div>
                         )}
@@ -389,9 +472,36 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
               />
             )}
 
+            {duplicateWarning && (
+              <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 space-y-2">
+                <p className="flex items-center font-medium text-amber-900">
+                  <Copy className="w-4 h-4 mr-2" />
+                  This looks like {duplicateWarning.matches.length === 1 ? "an idea that's" : "ideas that have"} already been shared
+                </p>
+                <ul className="space-y-1 text-sm">
+                  {duplicateWarning.matches.map((match) => (
+                    <li key={match.id}>
+                      <a
+                        href={`/idea/${match.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        Idea #{match.id}: {match.title}
+                      </a>
+                      <span className="text-slate-500"> ({Math.round(match.similarity * 100)}% similar)</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-sm text-amber-800">
+                  Consider upvoting or commenting on it instead. If yours is different, submit again to post it anyway.
+                </p>
+              </div>
+            )}
+
             <Button
               type="submit"
-              disabled={submitMutation.isPending || !sessionId}
+              disabled={submitMutation.isPending || similarCheckMutation.isPending || uploadMutation.isPending || !sessionId}
               className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-6 px-4 rounded-xl font-bold text-sm sm:text-base md:text-lg shadow-lg hover:shadow-xl hover:from-blue-700 hover:to-purple-700 focus:ring-4 focus:ring-blue-300 transition-all transform hover:scale-[1.05] border-2 border-blue-500 min-h-[60px] flex items-center justify-center"
             >
               {submitMutation.isPending ? (
@@ -399,6 +509,10 @@ export default function IdeaSubmissionForm({ sessionId, onSubmitted }: IdeaSubmi
                   <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
                   <span>Submitting...</span>
                 </>
+              ) : duplicateWarning ? (
+                <>
+                  🚀&nbsp;&nbsp;Share It Anyway
+                </>
               ) : (
                 <>
                   🚀&nbsp;&nbsp;Share My Idea
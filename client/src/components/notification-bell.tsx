@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bell, MessageCircle, Reply, TrendingUp } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface NotificationItem {
+  id: number;
+  type: 'comment_reply' | 'idea_comment' | 'idea_votes';
+  ideaId: number;
+  commentId: number | null;
+  message: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Notifications are addressed to the logged-in user or, before signup, to this browser's session
+function sessionHeaders(): Record<string, string> {
+  const sessionId = typeof window !== 'undefined' ? localStorage.getItem('ai-ideas-session') : null;
+  return sessionId ? { 'x-session-id': sessionId } : {};
+}
+
+const typeIcons = {
+  comment_reply: Reply,
+  idea_comment: MessageCircle,
+  idea_votes: TrendingUp,
+};
+
+export function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ['/api/notifications/unread-count'],
+    queryFn: async () => {
+      const response = await fetch('/api/notifications/unread-count', { headers: sessionHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch unread count');
+      return response.json();
+    },
+    refetchInterval: 60000, // Check every minute
+  });
+
+  const { data: items = [], isLoading } = useQuery<NotificationItem[]>({
+    queryKey: ['/api/notifications'],
+    queryFn: async () => {
+      const response = await fetch('/api/notifications', { headers: sessionHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch notifications');
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      const response = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      if (!response.ok) throw new Error('Failed to mark notifications as read');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const unreadCount = unread?.count || 0;
+
+  const openNotification = (item: NotificationItem) => {
+    if (!item.readAt) markReadMutation.mutate([item.id]);
+    setIsOpen(false);
+    window.location.href = `/idea/${item.ideaId}`;
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative h-9 w-9 p-0 text-gray-700 hover:text-gray-900 hover:bg-gray-100"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-[18px] text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+          <span className="text-sm font-medium text-gray-900">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+              className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="p-4 space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-100 rounded animate-pulse" />
+              ))}
+            </div>
+          ) : items.length === 0 ? (
+            <div className="p-6 text-center text-sm text-gray-500">
+              <Bell className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+              No notifications yet
+            </div>
+          ) : (
+            items.map((item) => {
+              const Icon = typeIcons[item.type] || Bell;
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => openNotification(item)}
+                  className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-gray-50 border-b border-gray-50 last:border-0 ${item.readAt ? '' : 'bg-blue-50/50'}`}
+                >
+                  <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${item.readAt ? 'text-gray-400' : 'text-blue-600'}`} />
+                  <div className="min-w-0">
+                    <p className={`text-sm break-words ${item.readAt ? 'text-gray-600' : 'text-gray-900 font-medium'}`}>
+                      {item.message}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {formatDistanceToNow(new Date(item.createdAt))} ago
+                    </p>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+type Role = 'user' | 'moderator' | 'admin';
+
+interface StaffUser {
+  id: string;
+  username: string;
+  email: string;
+  role: Role;
+}
+
+// Admin-only panel for granting and revoking moderator/admin roles by account email
+export default function StaffRoleManager() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>('moderator');
+
+  const { data: staff = [] } = useQuery<StaffUser[]>({
+    queryKey: ['/api/admin/staff'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/staff');
+      if (!res.ok) throw new Error('Failed to get staff');
+      return res.json();
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ email, role }: { email: string; role: Role }) => {
+      const res = await fetch('/api/admin/users/role', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to update role');
+      }
+      return res.json();
+    },
+    onSuccess: (user: StaffUser) => {
+      setEmail("");
+      toast({
+        title: "Role updated",
+        description: `${user.username} is now ${user.role === 'user' ? 'a regular user' : `a ${user.role}`}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/staff'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update role",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    updateRoleMutation.mutate({ email: email.trim(), role });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Team Roles</h2>
+
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3 mb-6">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Account email"
+          className="sm:flex-1"
+        />
+        <Select value={role} onValueChange={(value: Role) => setRole(value)}>
+          <SelectTrigger className="sm:w-40" aria-label="Role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="moderator">Moderator</SelectItem>
+            <SelectItem value="admin">Admin</SelectItem>
+            <SelectItem value="user">User (revoke)</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={updateRoleMutation.isPending}>
+          {updateRoleMutation.isPending ? "Saving..." : "Set Role"}
+        </Button>
+      </form>
+
+      {staff.length === 0 ? (
+        <p className="text-sm text-gray-500">No moderators or admins yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {staff.map((member) => (
+            <div key={member.id} className="flex items-center justify-between py-2">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900">{member.username}</div>
+                <div className="text-xs text-gray-500 truncate">{member.email}</div>
+              </div>
+              <Badge variant={member.role === 'admin' ? 'default' : 'secondary'}>
+                {member.role === 'admin' ? 'Admin' : 'Moderator'}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
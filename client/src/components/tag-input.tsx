@@ -0,0 +1,149 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { X } from "lucide-react";
+import type { PublicTag, TagKind } from "@shared/schema";
+
+type TagSuggestion = PublicTag & { ideaCount: number };
+
+interface TagInputProps {
+  value: string[]; // Tag names
+  onChange: (value: string[]) => void;
+  kind?: TagKind; // Only suggest tags of this kind
+  max?: number;
+  // Off for filters: only existing tags can be picked
+  allowNew?: boolean;
+  placeholder?: string;
+  className?: string;
+  "aria-label"?: string;
+}
+
+// Chips for the chosen tags plus a text box that autocompletes from existing tags.
+// Enter or a comma adds what's typed; Backspace in an empty box removes the last tag.
+export default function TagInput({ value, onChange, kind, max = 5, allowNew = true, placeholder, className, ...props }: TagInputProps) {
+  const [text, setText] = useState("");
+  const [debouncedText, setDebouncedText] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedText(text.trim()), 150);
+    return () => clearTimeout(timeoutId);
+  }, [text]);
+
+  const { data: suggestions = [] } = useQuery<TagSuggestion[]>({
+    queryKey: ['/api/tags', debouncedText, kind],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedText, limit: '8' });
+      if (kind) params.set('kind', kind);
+      const res = await fetch(`/api/tags?${params}`);
+      if (!res.ok) throw new Error('Failed to search tags');
+      return res.json();
+    },
+    enabled: open,
+    staleTime: 60 * 1000,
+  });
+
+  const chosen = new Set(value.map((name) => name.toLowerCase()));
+  const options = suggestions.filter((tag) => !chosen.has(tag.name.toLowerCase()));
+  const isFull = value.length >= max;
+
+  const add = (name: string) => {
+    const cleaned = name.replace(/,/g, " ").replace(/\s+/g, " ").trim();
+    if (cleaned && !isFull && !chosen.has(cleaned.toLowerCase())) {
+      onChange([...value, cleaned]);
+    }
+    setText("");
+    setHighlighted(0);
+  };
+
+  const remove = (name: string) => onChange(value.filter((tag) => tag !== name));
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      if (!text.trim() && e.key === "Enter") return;
+      e.preventDefault();
+      const option = options[highlighted];
+      // Prefer the suggestion so "chatgpt" becomes "ChatGPT"; with no match, the typed text is a new tag
+      if (option && (!allowNew || option.name.toLowerCase().startsWith(text.trim().toLowerCase()))) {
+        add(option.name);
+      } else if (allowNew) {
+        add(text);
+      }
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      remove(value[value.length - 1]);
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((index) => Math.min(index + 1, options.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <div className="flex flex-wrap items-center gap-1.5 min-h-10 w-full rounded-md border border-input bg-background px-2 py-1.5 focus-within:ring-2 focus-within:ring-ring">
+        {value.map((name) => (
+          <Badge key={name} variant="secondary" className="gap-1 pr-1">
+            {name}
+            <button
+              type="button"
+              onClick={() => remove(name)}
+              className="rounded-full hover:bg-gray-300 p-0.5"
+              aria-label={`Remove ${name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder={isFull ? undefined : placeholder}
+          disabled={isFull}
+          className="flex-1 min-w-[8rem] h-7 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+          aria-label={props["aria-label"]}
+          aria-autocomplete="list"
+          aria-expanded={open && options.length > 0}
+        />
+      </div>
+      {open && !isFull && options.length > 0 && (
+        <ul role="listbox" className="absolute z-50 mt-1 w-full rounded-md border bg-white shadow-lg py-1 max-h-60 overflow-auto">
+          {options.map((tag, index) => (
+            <li
+              key={tag.id}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                e.preventDefault(); // Keep focus in the text box so the list stays open
+                add(tag.name);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex items-center justify-between px-3 py-1.5 text-sm cursor-pointer",
+                index === highlighted && "bg-gray-100"
+              )}
+            >
+              <span>{tag.name}</span>
+              <span className="text-xs text-gray-500">
+                {tag.ideaCount} {tag.ideaCount === 1 ? 'idea' : 'ideas'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { GitMerge } from "lucide-react";
+import type { TagKind } from "@shared/schema";
+
+interface TagSummary {
+  id: number;
+  slug: string;
+  name: string;
+  kind: TagKind;
+  ideaCount: number;
+  aliases: string[];
+}
+
+// Admin-only panel for cleaning up tags: merging near-duplicates and adding other spellings as aliases
+export default function TagManager() {
+  const { toast } = useToast();
+  const [fromId, setFromId] = useState("");
+  const [intoId, setIntoId] = useState("");
+  const [alias, setAlias] = useState("");
+  const [aliasTagId, setAliasTagId] = useState("");
+
+  const { data: tags = [] } = useQuery<TagSummary[]>({
+    queryKey: ['/api/admin/tags'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/tags');
+      if (!res.ok) throw new Error('Failed to get tags');
+      return res.json();
+    },
+  });
+
+  const request = async (url: string, body: unknown) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.message || 'Request failed');
+    return data;
+  };
+
+  const onSuccess = (data: { message: string }) => {
+    toast({ title: "Tags updated", description: data.message });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/tags'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/ideas'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update tags",
+      variant: "destructive",
+    });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: () => request(`/api/admin/tags/${fromId}/merge`, { intoId: Number(intoId) }),
+    onSuccess: (data) => {
+      setFromId("");
+      onSuccess(data);
+    },
+    onError,
+  });
+
+  const aliasMutation = useMutation({
+    mutationFn: () => request(`/api/admin/tags/${aliasTagId}/aliases`, { alias: alias.trim() }),
+    onSuccess: (data) => {
+      setAlias("");
+      onSuccess(data);
+    },
+    onError,
+  });
+
+  const handleMerge = (e: React.FormEvent) => {
+    e.preventDefault();
+    const from = tags.find((tag) => String(tag.id) === fromId);
+    const into = tags.find((tag) => String(tag.id) === intoId);
+    if (!from || !into) return;
+    if (!confirm(`Merge "${from.name}" into "${into.name}"? Its ${from.ideaCount} ideas will be retagged.`)) return;
+    mergeMutation.mutate();
+  };
+
+  const handleAddAlias = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!alias.trim() || !aliasTagId) return;
+    aliasMutation.mutate();
+  };
+
+  const tagOptions = tags.map((tag) => (
+    <SelectItem key={tag.id} value={String(tag.id)}>
+      {tag.name} ({tag.kind}, {tag.ideaCount})
+    </SelectItem>
+  ));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Tags</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Tools and topics on ideas. Merging a tag moves its ideas to the other tag and keeps its name as an alias, so
+        anyone typing it later gets the merged tag.
+      </p>
+
+      <form onSubmit={handleMerge} className="flex flex-col sm:flex-row gap-3 mb-3">
+        <Select value={fromId} onValueChange={setFromId}>
+          <SelectTrigger className="sm:flex-1">
+            <SelectValue placeholder="Tag to merge" />
+          </SelectTrigger>
+          <SelectContent>{tagOptions}</SelectContent>
+        </Select>
+        <Select value={intoId} onValueChange={setIntoId}>
+          <SelectTrigger className="sm:flex-1">
+            <SelectValue placeholder="Merge into" />
+          </SelectTrigger>
+          <SelectContent>{tagOptions}</SelectContent>
+        </Select>
+        <Button type="submit" disabled={!fromId || !intoId || fromId === intoId || mergeMutation.isPending}>
+          <GitMerge className="w-4 h-4 mr-1" />
+          Merge
+        </Button>
+      </form>
+
+      <form onSubmit={handleAddAlias} className="flex flex-col sm:flex-row gap-3 mb-6">
+        <Input
+          value={alias}
+          onChange={(e) => setAlias(e.target.value)}
+          placeholder="Alias, e.g. gpt-4"
+          maxLength={40}
+          className="sm:flex-1"
+        />
+        <Select value={aliasTagId} onValueChange={setAliasTagId}>
+          <SelectTrigger className="sm:flex-1">
+            <SelectValue placeholder="Means" />
+          </SelectTrigger>
+          <SelectContent>{tagOptions}</SelectContent>
+        </Select>
+        <Button type="submit" disabled={!alias.trim() || !aliasTagId || aliasMutation.isPending}>
+          Add alias
+        </Button>
+      </form>
+
+      <div className="divide-y divide-gray-100 border border-gray-200 rounded-md max-h-96 overflow-y-auto">
+        {tags.length === 0 ? (
+          <p className="px-3 py-2 text-sm text-gray-500">No tags yet.</p>
+        ) : tags.map((tag) => (
+          <div key={tag.id} className="flex flex-wrap items-center gap-2 px-3 py-1.5 text-sm">
+            <span className="font-medium">{tag.name}</span>
+            <Badge variant="outline" className="text-xs">{tag.kind}</Badge>
+            <span className="text-gray-500">{tag.ideaCount} {tag.ideaCount === 1 ? 'idea' : 'ideas'}</span>
+            {tag.aliases.length > 0 && (
+              <span className="text-xs text-gray-500 font-mono truncate">aka {tag.aliases.join(', ')}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useRef, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { useLocation } from "wouter";
 import { User, LogOut, Settings, MessageCircle, Bell } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { NotificationBell } from "@/components/notification-bell";
 
 interface UserDropdownProps {
   user: {
@@ -17,7 +18,7 @@ interface UserDropdownProps {
 export function UserDropdown({ user, onLogout }: UserDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const router = useRouter();
+  const [, setLocation] = useLocation();
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -34,7 +35,8 @@ export function UserDropdown({ user, onLogout }: UserDropdownProps) {
   const displayName = user.username || user.firstName || user.email?.split('@')[0] || 'User';
 
   return (
-    <div className="relative" ref={dropdownRef}>
+    <div className="relative flex items-center gap-1" ref={dropdownRef}>
+      <NotificationBell />
       <Button
         variant="ghost"
         onClick={() => setIsOpen(!isOpen)}
@@ -59,7 +61,7 @@ export function UserDropdown({ user, onLogout }: UserDropdownProps) {
               <button
                 onClick={() => {
                   setIsOpen(false);
-                  router.push("/dashboard");
+                  setLocation("/dashboard");
                 }}
                 className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center"
               >
@@ -70,7 +72,7 @@ export function UserDropdown({ user, onLogout }: UserDropdownProps) {
               <button
                 onClick={() => {
                   setIsOpen(false);
-                  router.push("/notifications");
+                  setLocation("/notifications");
                 }}
                 className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center"
               >
@@ -13,6 +13,8 @@ type User = {
   email: string;
   firstName?: string;
   lastName?: string;
+  role?: 'user' | 'moderator' | 'admin';
+  emailVerified?: boolean;
 };
 
 type AuthContextType = {
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PublicCategory } from "@shared/schema";
+
+// Title-cases a slug, for ideas whose category hasn't loaded or no longer exists
+function formatSlug(slug: string): string {
+  return slug
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// The category taxonomy from the server. `open` leaves out archived categories, for pickers;
+// `getCategory` and `getLabel` also know archived ones, since ideas can still be in them.
+export function useCategories() {
+  const { data: categories = [], isLoading } = useQuery<PublicCategory[]>({
+    queryKey: ['/api/categories'],
+    queryFn: async () => {
+      const res = await fetch('/api/categories');
+      if (!res.ok) throw new Error('Failed to get categories');
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getCategory = (slug: string | null | undefined) => categories.find(category => category.slug === slug);
+
+  return {
+    categories,
+    open: categories.filter(category => !category.archived),
+    isLoading,
+    getCategory,
+    getLabel: (slug: string) => getCategory(slug)?.label ?? formatSlug(slug),
+  };
+}
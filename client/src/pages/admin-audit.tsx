@@ -0,0 +1,228 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Home, History, ChevronDown, ChevronRight } from "lucide-react";
+
+interface AuditEntry {
+  id: number;
+  actorId: string | null;
+  actorUsername: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  before: unknown;
+  after: unknown;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+interface AuditLogResponse {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  actions: string[];
+}
+
+const targetTypes = ['idea', 'comment', 'vote', 'user', 'tag', 'category', 'setting', 'digest', 'system'];
+
+function formatJson(value: unknown): string {
+  return value === null || value === undefined ? '—' : JSON.stringify(value, null, 2);
+}
+
+export default function AdminAudit() {
+  const [action, setAction] = useState('all');
+  const [targetType, setTargetType] = useState('all');
+  const [targetId, setTargetId] = useState('');
+  const [actor, setActor] = useState('');
+  const [debouncedText, setDebouncedText] = useState({ targetId: '', actor: '' });
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Debounce the free-text filters so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedText({ targetId, actor }), 300);
+    return () => clearTimeout(timer);
+  }, [targetId, actor]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [action, targetType, debouncedText]);
+
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: ['/api/admin/audit-log', action, targetType, debouncedText.targetId, debouncedText.actor, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page) });
+      if (action !== 'all') params.set('action', action);
+      if (targetType !== 'all') params.set('targetType', targetType);
+      if (debouncedText.targetId) params.set('targetId', debouncedText.targetId);
+      if (debouncedText.actor) params.set('actor', debouncedText.actor);
+      const response = await fetch(`/api/admin/audit-log?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch audit log");
+      }
+      return response.json();
+    },
+  });
+
+  const entries = data?.entries || [];
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.pageSize), 1) : 1;
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      {/* Navigation buttons */}
+      <div className="mb-6 flex gap-3">
+        <Button
+          variant="outline"
+          onClick={() => window.location.href = '/admin'}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Admin
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => window.location.href = '/'}
+          className="flex items-center gap-2"
+        >
+          <Home className="h-4 w-4" />
+          Homepage
+        </Button>
+      </div>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Audit Log</h1>
+        <p className="text-gray-600">Every admin and moderator action, newest first</p>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger aria-label="Action">
+            <SelectValue placeholder="All actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {(data?.actions || []).map((name) => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={targetType} onValueChange={setTargetType}>
+          <SelectTrigger aria-label="Target type">
+            <SelectValue placeholder="All targets" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All targets</SelectItem>
+            {targetTypes.map((type) => (
+              <SelectItem key={type} value={type}>{type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          placeholder="Target ID (e.g. idea #)"
+        />
+        <Input
+          value={actor}
+          onChange={(e) => setActor(e.target.value)}
+          placeholder="Actor username or ID"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-3">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-14 bg-gray-200 rounded" />
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center h-32">
+            <div className="text-center text-gray-500">
+              <History className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+              <p>No matching audit entries</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <Card key={entry.id}>
+              <CardContent className="p-3">
+                <button
+                  className="w-full flex flex-wrap items-center gap-2 text-left text-sm"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  aria-expanded={expandedId === entry.id}
+                >
+                  {expandedId === entry.id
+                    ? <ChevronDown className="w-4 h-4 text-gray-400" />
+                    : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                  <span className="text-gray-500 w-44 shrink-0">{formatDate(entry.createdAt)}</span>
+                  <span className="font-medium text-gray-900">{entry.actorUsername || entry.actorId || 'unknown'}</span>
+                  <Badge variant="secondary">{entry.action}</Badge>
+                  <span className="text-gray-600">
+                    {entry.targetType}{entry.targetId ? ` #${entry.targetId}` : ''}
+                  </span>
+                  <span className="ml-auto font-mono text-xs text-gray-400">{entry.ipAddress}</span>
+                </button>
+
+                {expandedId === entry.id && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+                    <div>
+                      <div className="text-xs font-semibold text-gray-500 mb-1">Before</div>
+                      <pre className="bg-red-50 rounded p-2 text-xs overflow-auto max-h-64 whitespace-pre-wrap break-all">{formatJson(entry.before)}</pre>
+                    </div>
+                    <div>
+                      <div className="text-xs font-semibold text-gray-500 mb-1">After</div>
+                      <pre className="bg-green-50 rounded p-2 text-xs overflow-auto max-h-64 whitespace-pre-wrap break-all">{formatJson(entry.after)}</pre>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination Controls */}
+      {data && data.total > data.pageSize && (
+        <div className="flex justify-center items-center space-x-4 mt-8">
+          <Button
+            variant="outline"
+            onClick={() => setPage(prev => Math.max(1, prev - 1))}
+            disabled={page === 1}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            onClick={() => setPage(prev => Math.min(totalPages, prev + 1))}
+            disabled={page === totalPages}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
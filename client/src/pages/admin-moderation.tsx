@@ -0,0 +1,226 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { CheckCircle, Trash2, ShieldCheck, ArrowLeft, Home, ExternalLink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type ModerationStatus = 'held' | 'flagged';
+
+interface QueuedIdea {
+  id: number;
+  title: string;
+  useCase: string | null;
+  moderationStatus: ModerationStatus;
+  filterMatches: string[] | null;
+  submittedAt: string;
+}
+
+interface QueuedComment {
+  id: number;
+  ideaId: number;
+  ideaTitle: string | null;
+  content: string;
+  moderationStatus: ModerationStatus;
+  filterMatches: string[] | null;
+  createdAt: string;
+}
+
+interface ModerationQueue {
+  ideas: QueuedIdea[];
+  comments: QueuedComment[];
+}
+
+type ItemType = 'idea' | 'comment';
+
+export default function AdminModeration() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: queue = { ideas: [], comments: [] }, isLoading } = useQuery<ModerationQueue>({
+    queryKey: ["/api/admin/moderation"],
+    queryFn: async () => {
+      const response = await fetch("/api/admin/moderation");
+      if (!response.ok) {
+        throw new Error("Failed to fetch moderation queue");
+      }
+      return response.json();
+    },
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ type, id, action }: { type: ItemType; id: number; action: 'approve' | 'remove' }) => {
+      const response = await fetch(`/api/admin/moderation/${type}/${id}/${action}`, { method: "POST" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
+        throw new Error(errorData.message || "Failed to moderate content");
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/moderation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ideas"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to moderate content",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleModerate = (type: ItemType, id: number, action: 'approve' | 'remove') => {
+    if (action === 'remove' && !confirm(`Delete this ${type}? This can't be undone.`)) return;
+    moderateMutation.mutate({ type, id, action });
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const renderItem = (type: ItemType, item: { id: number; moderationStatus: ModerationStatus; filterMatches: string[] | null }, date: string, link: string, linkLabel: string, body: string) => (
+    <Card key={`${type}-${item.id}`} className="hover:shadow-md transition-shadow">
+      <CardContent className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <Badge variant={item.moderationStatus === 'held' ? "destructive" : "secondary"}>
+              {item.moderationStatus === 'held' ? 'Held' : 'Flagged'}
+            </Badge>
+            <span>{formatDate(date)}</span>
+            {item.filterMatches && item.filterMatches.length > 0 && (
+              <>
+                <span>•</span>
+                <span>Matched: {item.filterMatches.join(', ')}</span>
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleModerate(type, item.id, 'approve')}
+              disabled={moderateMutation.isPending}
+              className="text-green-600 hover:text-green-700 hover:bg-green-50"
+            >
+              <CheckCircle className="w-4 h-4 mr-1" />
+              Approve
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleModerate(type, item.id, 'remove')}
+              disabled={moderateMutation.isPending}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Remove
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-900 whitespace-pre-wrap break-words mb-3">{body}</p>
+
+        <a href={link} className="flex items-center gap-2 text-sm text-gray-600 hover:underline">
+          <ExternalLink className="w-4 h-4" />
+          <span>{linkLabel}</span>
+        </a>
+      </CardContent>
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="animate-pulse space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-32 bg-gray-200 rounded" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      {/* Navigation buttons */}
+      <div className="mb-6 flex gap-3">
+        <Button
+          variant="outline"
+          onClick={() => window.location.href = '/admin'}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Admin
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => window.location.href = '/'}
+          className="flex items-center gap-2"
+        >
+          <Home className="h-4 w-4" />
+          Homepage
+        </Button>
+      </div>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Content Review</h1>
+        <p className="text-gray-600">
+          Held content is hidden until approved. Flagged content is already visible; approving clears the flag.
+        </p>
+      </div>
+
+      {queue.ideas.length === 0 && queue.comments.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center h-32">
+            <div className="text-center text-gray-500">
+              <ShieldCheck className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+              <p>Nothing awaiting review</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-8">
+          {queue.ideas.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Ideas ({queue.ideas.length})</h2>
+              <div className="space-y-4">
+                {queue.ideas.map((idea) =>
+                  renderItem('idea', idea, idea.submittedAt, `/idea/${idea.id}`, `Idea #${idea.id}: ${idea.title}`, idea.useCase || '')
+                )}
+              </div>
+            </section>
+          )}
+          {queue.comments.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Comments ({queue.comments.length})</h2>
+              <div className="space-y-4">
+                {queue.comments.map((comment) =>
+                  renderItem(
+                    'comment',
+                    comment,
+                    comment.createdAt,
+                    `/idea/${comment.ideaId}`,
+                    `On idea #${comment.ideaId}${comment.ideaTitle ? `: ${comment.ideaTitle}` : ''}`,
+                    comment.content
+                  )
+                )}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
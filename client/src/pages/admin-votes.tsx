@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent } from "@/components/ui/card";
+import { Ban, CheckCircle, ShieldAlert, ArrowLeft, Home, RefreshCw, ExternalLink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface FlaggedVote {
+  id: number;
+  sessionId: string;
+  userId: string | null;
+  ideaId: number;
+  voteType: string;
+  ipAddress: string;
+  fraudScore: number;
+  fraudReasons: string[] | null;
+  createdAt: string;
+  ideaUseCase: string | null;
+}
+
+export default function AdminVotes() {
+  const [selectedVotes, setSelectedVotes] = useState<Set<number>>(new Set());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: flaggedVotes = [], isLoading } = useQuery<FlaggedVote[]>({
+    queryKey: ["/api/admin/vote-review"],
+    queryFn: async () => {
+      const response = await fetch("/api/admin/vote-review");
+      if (!response.ok) {
+        throw new Error("Failed to fetch flagged votes");
+      }
+      return response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ action, voteIds }: { action: 'void' | 'approve'; voteIds: number[] }) => {
+      const response = await fetch(`/api/admin/vote-review/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ voteIds }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: "Unknown error" }));
+        throw new Error(errorData.message || "Failed to review votes");
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setSelectedVotes(new Set());
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/vote-review"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ideas"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ideas"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review votes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/admin/vote-fraud/scan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days: 7 }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to scan votes");
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Scan complete",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/vote-review"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to scan votes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelectVote = (voteId: number) => {
+    const newSelected = new Set(selectedVotes);
+    if (newSelected.has(voteId)) {
+      newSelected.delete(voteId);
+    } else {
+      newSelected.add(voteId);
+    }
+    setSelectedVotes(newSelected);
+  };
+
+  const handleSelectAll = () => {
+    if (selectedVotes.size === flaggedVotes.length) {
+      setSelectedVotes(new Set());
+    } else {
+      setSelectedVotes(new Set(flaggedVotes.map(v => v.id)));
+    }
+  };
+
+  const handleReview = (action: 'void' | 'approve', voteIds: number[]) => {
+    if (voteIds.length === 0) return;
+    reviewMutation.mutate({ action, voteIds });
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="animate-pulse space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-32 bg-gray-200 rounded" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      {/* Navigation buttons */}
+      <div className="mb-6 flex gap-3">
+        <Button
+          variant="outline"
+          onClick={() => window.location.href = '/admin'}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Admin
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => window.location.href = '/'}
+          className="flex items-center gap-2"
+        >
+          <Home className="h-4 w-4" />
+          Homepage
+        </Button>
+      </div>
+
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Vote Review</h1>
+          <p className="text-gray-600">Votes flagged as suspicious. Voided votes stop counting toward ideas and the leaderboard.</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => scanMutation.mutate()}
+          disabled={scanMutation.isPending}
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+          {scanMutation.isPending ? "Scanning..." : "Scan Last 7 Days"}
+        </Button>
+      </div>
+
+      {flaggedVotes.length > 0 && (
+        <div className="mb-4 flex items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="select-all"
+              checked={selectedVotes.size === flaggedVotes.length}
+              onCheckedChange={handleSelectAll}
+            />
+            <label htmlFor="select-all" className="text-sm font-medium">
+              Select All ({flaggedVotes.length})
+            </label>
+          </div>
+
+          {selectedVotes.size > 0 && (
+            <>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => handleReview('void', Array.from(selectedVotes))}
+                disabled={reviewMutation.isPending}
+              >
+                <Ban className="w-4 h-4 mr-2" />
+                Void Selected ({selectedVotes.size})
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleReview('approve', Array.from(selectedVotes))}
+                disabled={reviewMutation.isPending}
+              >
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Approve Selected
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {flaggedVotes.length === 0 ? (
+          <Card>
+            <CardContent className="flex items-center justify-center h-32">
+              <div className="text-center text-gray-500">
+                <ShieldAlert className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+                <p>No votes awaiting review</p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          flaggedVotes.map((vote) => (
+            <Card key={vote.id} className="hover:shadow-md transition-shadow">
+              <CardContent className="p-4">
+                <div className="flex items-start gap-4">
+                  <Checkbox
+                    checked={selectedVotes.has(vote.id)}
+                    onCheckedChange={() => handleSelectVote(vote.id)}
+                  />
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                        <Badge variant={vote.fraudScore >= 80 ? "destructive" : "secondary"}>
+                          Score {vote.fraudScore}
+                        </Badge>
+                        <span className="font-medium">{vote.voteType === 'up' ? 'Upvote' : 'Downvote'}</span>
+                        <span>•</span>
+                        <span>{formatDate(vote.createdAt)}</span>
+                        <span>•</span>
+                        <span className="font-mono text-xs">{vote.ipAddress}</span>
+                        <span>•</span>
+                        <span className="font-mono text-xs truncate max-w-[12rem]">
+                          {vote.userId ? `user ${vote.userId}` : vote.sessionId}
+                        </span>
+                      </div>
+
+                      <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReview('approve', [vote.id])}
+                          disabled={reviewMutation.isPending}
+                          className="text-green-600 hover:text-green-700 hover:bg-green-50"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReview('void', [vote.id])}
+                          disabled={reviewMutation.isPending}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {vote.fraudReasons && vote.fraudReasons.length > 0 && (
+                      <ul className="text-sm text-gray-900 mb-3 list-disc list-inside">
+                        {vote.fraudReasons.map((reason, index) => (
+                          <li key={index}>{reason}</li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <a href={`/idea/${vote.ideaId}`} className="flex items-center gap-2 text-sm text-gray-600 mb-1 hover:underline">
+                        <ExternalLink className="w-4 h-4" />
+                        <span>Voted on idea #{vote.ideaId}:</span>
+                      </a>
+                      <p className="text-sm text-gray-700 line-clamp-2">
+                        {(vote.ideaUseCase || '').substring(0, 150)}
+                        {(vote.ideaUseCase || '').length > 150 && "..."}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
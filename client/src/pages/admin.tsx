@@ -2,17 +2,27 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Trash2, AlertTriangle, Lock, Download, Mail, Edit, Save, X } from "lucide-react";
+import { Trash2, AlertTriangle, Lock, Download, Mail, Edit, Save, X, Sparkles } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useCategories } from "@/hooks/use-categories";
+import StaffRoleManager from "@/components/staff-role-manager";
+import DigestControls from "@/components/digest-controls";
+import DuplicateManager from "@/components/duplicate-manager";
+import ContentFilterManager from "@/components/content-filter-manager";
+import TagManager from "@/components/tag-manager";
+import CategoryManager from "@/components/category-manager";
 
 export default function Admin() {
   const { toast } = useToast();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [password, setPassword] = useState("");
+  const { user, isLoading: authLoading, loginMutation, logoutMutation } = useAuth();
+  const { getLabel: getCategoryLabel } = useCategories();
+  const [loginUsername, setLoginUsername] = useState("");
+  const [loginPassword, setLoginPassword] = useState("");
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editText, setEditText] = useState("");
   const [editUrl, setEditUrl] = useState("");
@@ -21,45 +31,13 @@ export default function Admin() {
   const [currentPage, setCurrentPage] = useState(1);
   const [sortBy, setSortBy] = useState<'votes' | 'recent'>('recent');
   const [paywallEnabled, setPaywallEnabled] = useState(true);
-  const [authToken, setAuthToken] = useState<string>('');
   const [selectedMetric, setSelectedMetric] = useState<'userStats' | 'sessionMetrics'>('userStats');
   const [selectedIdeas, setSelectedIdeas] = useState<Set<number>>(new Set());
   const itemsPerPage = 50;
 
-  // Load saved password and auth state on mount
-  useEffect(() => {
-    const savedPassword = localStorage.getItem('adminPassword');
-    const savedAuth = localStorage.getItem('adminAuthenticated');
-    const savedToken = localStorage.getItem('adminToken');
-    
-    if (savedPassword === 'xxx' && savedAuth === 'true') {
-      setPassword('xxx');
-      setIsAuthenticated(true);
-      if (savedToken) {
-        setAuthToken(savedToken);
-      } else {
-        // Auto-authenticate if password is correct but token is missing
-        fetch('/api/admin/auth', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ password: 'xxx' })
-        }).then(res => {
-          if (res.ok) {
-            return res.json();
-          }
-          throw new Error('Auth failed');
-        }).then(data => {
-          if (data.token) {
-            setAuthToken(data.token);
-            localStorage.setItem('adminToken', data.token);
-            console.log('Auto-auth successful, token set:', data.token);
-          }
-        }).catch(console.error);
-      }
-    } else if (savedPassword) {
-      setPassword(savedPassword);
-    }
-  }, []);
+  // Moderators can review content; admin-only tools (exports, paywall, vote overrides) need the admin role
+  const isStaff = user?.role === 'moderator' || user?.role === 'admin';
+  const isAdmin = user?.role === 'admin';
 
   // Get paywall status
   const { data: paywallStatus } = useQuery({
@@ -69,25 +47,20 @@ export default function Admin() {
       if (!res.ok) throw new Error('Failed to get paywall status');
       return res.json();
     },
-    enabled: isAuthenticated,
+    enabled: isStaff,
   });
 
   // Get user statistics
   const { data: userStats, isLoading: userStatsLoading, error: userStatsError } = useQuery({
-    queryKey: ['/api/admin/user-stats', authToken],
+    queryKey: ['/api/admin/user-stats'],
     queryFn: async () => {
-      const headers: Record<string, string> = {};
-      if (authToken) {
-        headers['Authorization'] = `Bearer ${authToken}`;
-      }
-      
-      const res = await fetch('/api/admin/user-stats', { headers });
+      const res = await fetch('/api/admin/user-stats');
       if (!res.ok) {
         throw new Error(`Failed to get user stats: ${res.status}`);
       }
       return res.json();
     },
-    enabled: isAuthenticated,
+    enabled: isStaff,
     refetchInterval: 30000,
   });
 
@@ -108,7 +81,7 @@ export default function Admin() {
       }
       return res.json();
     },
-    enabled: isAuthenticated,
+    enabled: isStaff,
   });
 
   // Get session metrics
@@ -121,7 +94,7 @@ export default function Admin() {
       }
       return res.json();
     },
-    enabled: isAuthenticated,
+    enabled: isStaff,
   });
 
   // Get all subscribers
@@ -134,7 +107,7 @@ export default function Admin() {
       }
       return res.json();
     },
-    enabled: isAuthenticated,
+    enabled: isAdmin,
   });
 
   // Get upvote trends over time
@@ -147,7 +120,7 @@ export default function Admin() {
       }
       return res.json();
     },
-    enabled: isAuthenticated,
+    enabled: isStaff,
   });
 
   // Update idea mutation
@@ -194,16 +167,9 @@ export default function Admin() {
   // Delete idea mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
-      console.log('Attempting to delete idea:', id, 'with token:', authToken);
-      
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (authToken) {
-        headers['Authorization'] = `Bearer ${authToken}`;
-      }
-      
       const res = await fetch(`/api/admin/ideas/${id}`, {
         method: 'DELETE',
-        headers,
+        headers: { 'Content-Type': 'application/json' },
       });
       
       console.log('Delete response status:', res.status);
@@ -247,14 +213,9 @@ export default function Admin() {
   // Bulk delete ideas mutation
   const bulkDeleteIdeasMutation = useMutation({
     mutationFn: async (ideaIds: number[]) => {
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (authToken) {
-        headers['Authorization'] = `Bearer ${authToken}`;
-      }
-      
       const res = await fetch('/api/admin/ideas/bulk-delete', {
         method: 'POST',
-        headers,
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ ideaIds }),
       });
       if (!res.ok) {
@@ -329,51 +290,12 @@ export default function Admin() {
     },
   });
 
-  const handlePasswordSubmit = async (e: React.FormEvent) => {
+  const handleLoginSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    try {
-      const res = await fetch('/api/admin/auth', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password })
-      });
-      
-      if (res.ok) {
-        const data = await res.json();
-        setIsAuthenticated(true);
-        setAuthToken(data.token);
-        
-        // Save everything to localStorage
-        localStorage.setItem('adminPassword', 'xxx');
-        localStorage.setItem('adminAuthenticated', 'true');
-        localStorage.setItem('adminToken', data.token);
-        
-        toast({
-          title: "Access granted",
-          description: "Welcome to the admin dashboard",
-        });
-        
-        // Force refresh of user stats after successful auth
-        queryClient.invalidateQueries({ queryKey: ['/api/admin/user-stats'] });
-      } else {
-        toast({
-          title: "Access Denied",
-          description: "Invalid password",
-          variant: "destructive",
-        });
-        setPassword("");
-        // Clear any stored auth
-        localStorage.removeItem('adminPassword');
-        localStorage.removeItem('adminAuthenticated');
-        localStorage.removeItem('adminToken');
-      }
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Authentication failed",
-        variant: "destructive",
-      });
-    }
+    loginMutation.mutate(
+      { username: loginUsername, password: loginPassword },
+      { onSettled: () => setLoginPassword("") }
+    );
   };
 
   const handleEdit = (idea: any) => {
@@ -437,33 +359,51 @@ export default function Admin() {
     setEditVoteValue("");
   };
 
-  // Delete duplicates mutation
-  const deleteDuplicatesMutation = useMutation({
+  // Recompute vote counts mutation
+  const recomputeVotesMutation = useMutation({
     mutationFn: async () => {
-      const res = await fetch('/api/admin/delete-duplicates', {
+      const res = await fetch('/api/admin/votes/recompute', {
         method: 'POST',
       });
-      if (!res.ok) throw new Error('Failed to delete duplicates');
+      if (!res.ok) throw new Error('Failed to recompute votes');
       return res.json();
     },
     onSuccess: (data) => {
       toast({
-        title: "Duplicates deleted",
-        description: `Removed ${data.deletedIds?.length || 0} duplicate entries`,
+        title: "Vote counts recomputed",
+        description: `Corrected ${data.ideasCorrected} ideas, removed ${data.duplicateVotesRemoved} duplicate votes`,
       });
-      
-      // Update the query data manually by removing deleted items
-      queryClient.setQueryData(['/api/admin/ideas', sortBy], (oldData: any) => {
-        if (!oldData || !data.deletedIds) return oldData;
-        return oldData.filter((idea: any) => !data.deletedIds.includes(idea.id));
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/ideas'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to recompute votes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Regrade mutation: queues one idea, or every idea when no id is given, for AI grading
+  const regradeMutation = useMutation({
+    mutationFn: async (id?: number) => {
+      const res = await fetch(id ? `/api/admin/ideas/${id}/regrade` : '/api/admin/ideas/regrade-all', {
+        method: 'POST',
+      });
+      if (!res.ok) throw new Error('Failed to queue regrading');
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Regrading queued",
+        description: data.message,
       });
-      
       queryClient.invalidateQueries({ queryKey: ['/api/admin/ideas'] });
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to delete duplicates",
+        description: error.message || "Failed to queue regrading",
         variant: "destructive",
       });
     },
@@ -472,16 +412,9 @@ export default function Admin() {
   // Toggle paywall mutation
   const togglePaywallMutation = useMutation({
     mutationFn: async (enabled: boolean) => {
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (authToken) {
-        headers['Authorization'] = `Bearer ${authToken}`;
-      }
-      
-      console.log('Toggle paywall - token:', authToken, 'enabled:', enabled);
-      
       const res = await fetch('/api/admin/paywall-toggle', {
         method: 'POST',
-        headers,
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ enabled })
       });
       
@@ -561,31 +494,60 @@ export default function Admin() {
     }
   };
 
-  // Show password form if not authenticated
-  if (!isAuthenticated) {
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Show login form if not logged in as a moderator or admin
+  if (!isStaff) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
         <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full">
           <div className="text-center mb-6">
             <Lock className="mx-auto h-12 w-12 text-slate-400 mb-4" />
             <h1 className="text-2xl font-bold text-slate-900 mb-2">Admin Dashboard</h1>
-            <p className="text-slate-600">Authorized access required</p>
+            <p className="text-slate-600">
+              {user
+                ? `Signed in as ${user.username}, which doesn't have admin access.`
+                : "Sign in with a moderator or admin account"}
+            </p>
           </div>
-          <form onSubmit={handlePasswordSubmit} autoComplete="off">
-            <Input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Access code"
-              className="mb-4"
-              autoFocus
-              autoComplete="new-password"
-              name="admin-access-code"
-            />
-            <Button type="submit" className="w-full">
-              Continue
-            </Button>
-          </form>
+          {user ? (
+            <div className="flex flex-col gap-3">
+              <Button onClick={() => logoutMutation.mutate()} variant="outline" className="w-full">
+                Sign in with a different account
+              </Button>
+              <Button onClick={() => window.location.href = '/'} className="w-full">
+                Go to Homepage
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleLoginSubmit}>
+              <Input
+                value={loginUsername}
+                onChange={(e) => setLoginUsername(e.target.value)}
+                placeholder="Username or email"
+                className="mb-4"
+                autoFocus
+                autoComplete="username"
+              />
+              <Input
+                type="password"
+                value={loginPassword}
+                onChange={(e) => setLoginPassword(e.target.value)}
+                placeholder="Password"
+                className="mb-4"
+                autoComplete="current-password"
+              />
+              <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                {loginMutation.isPending ? "Signing in..." : "Sign In"}
+              </Button>
+            </form>
+          )}
         </div>
       </div>
     );
@@ -613,35 +575,59 @@ export default function Admin() {
               >
                 Manage Comments
               </Button>
-              <Button onClick={handleExportEmails} className="bg-green-600 hover:bg-green-700 text-sm">
-                <Download className="w-4 h-4 mr-2" />
-                Export CSV
+              <Button 
+                onClick={() => window.location.href = '/admin/votes'}
+                className="bg-red-600 hover:bg-red-700 text-sm"
+              >
+                Review Votes
+              </Button>
+              <Button 
+                onClick={() => window.location.href = '/admin/moderation'}
+                className="bg-orange-600 hover:bg-orange-700 text-sm"
+              >
+                Review Content
               </Button>
+              {isAdmin && (
+                <>
+                  <Button 
+                    onClick={() => window.location.href = '/admin/audit'}
+                    className="bg-slate-700 hover:bg-slate-800 text-sm"
+                  >
+                    Audit Log
+                  </Button>
+                  <Button onClick={handleExportEmails} className="bg-green-600 hover:bg-green-700 text-sm">
+                    <Download className="w-4 h-4 mr-2" />
+                    Export CSV
+                  </Button>
+                </>
+              )}
             </div>
           </div>
 
           {/* Paywall Control */}
-          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="text-lg font-semibold text-yellow-900 mb-1">Access Control</h3>
-                <p className="text-sm text-yellow-700">
-                  {paywallEnabled 
-                    ? "Users must submit an idea to view all ideas" 
-                    : "All users can view ideas without submitting"
-                  }
-                </p>
+          {isAdmin && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-yellow-900 mb-1">Access Control</h3>
+                  <p className="text-sm text-yellow-700">
+                    {paywallEnabled 
+                      ? "Users must submit an idea to view all ideas" 
+                      : "All users can view ideas without submitting"
+                    }
+                  </p>
+                </div>
+                <Button
+                  onClick={() => togglePaywallMutation.mutate(!paywallEnabled)}
+                  disabled={togglePaywallMutation.isPending}
+                  variant={paywallEnabled ? "destructive" : "default"}
+                  className="ml-4"
+                >
+                  {paywallEnabled ? "Disable Paywall" : "Enable Paywall"}
+                </Button>
               </div>
-              <Button
-                onClick={() => togglePaywallMutation.mutate(!paywallEnabled)}
-                disabled={togglePaywallMutation.isPending}
-                variant={paywallEnabled ? "destructive" : "default"}
-                className="ml-4"
-              >
-                {paywallEnabled ? "Disable Paywall" : "Enable Paywall"}
-              </Button>
             </div>
-          </div>
+          )}
 
           {/* Stats */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -826,6 +812,18 @@ export default function Admin() {
             </div>
           </div>
 
+          {isAdmin && <StaffRoleManager />}
+
+          {isAdmin && <DigestControls />}
+
+          {isAdmin && <DuplicateManager />}
+
+          {isAdmin && <ContentFilterManager />}
+
+          {isAdmin && <TagManager />}
+
+          {isAdmin && <CategoryManager />}
+
           {/* Ideas List */}
           <div className="mb-8">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
@@ -842,15 +840,28 @@ export default function Admin() {
                     <option value="recent">Most Recent</option>
                   </select>
                 </div>
-                <Button 
-                  onClick={() => deleteDuplicatesMutation.mutate()}
-                  disabled={deleteDuplicatesMutation.isPending}
-                  variant="outline"
-                  size="sm"
-                  className="text-red-600 border-red-300 hover:bg-red-50"
-                >
-                  {deleteDuplicatesMutation.isPending ? "Deleting..." : "Delete Duplicates"}
-                </Button>
+                {isAdmin && (
+                  <>
+                    <Button 
+                      onClick={() => recomputeVotesMutation.mutate()}
+                      disabled={recomputeVotesMutation.isPending}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {recomputeVotesMutation.isPending ? "Recomputing..." : "Recompute Votes"}
+                    </Button>
+                    <Button 
+                      onClick={() => {
+                        if (confirm('Queue every idea for AI regrading?')) regradeMutation.mutate(undefined);
+                      }}
+                      disabled={regradeMutation.isPending}
+                      variant="outline"
+                      size="sm"
+                    >
+                      Regrade All
+                    </Button>
+                  </>
+                )}
               </div>
             </div>
             {isLoading ? (
@@ -946,13 +957,15 @@ export default function Admin() {
                                     <X className="h-3 w-3" />
                                   </Button>
                                 </div>
-                              ) : (
+                              ) : isAdmin ? (
                                 <button
                                   onClick={() => handleEditVotes(idea)}
                                   className="text-sm text-blue-600 hover:text-blue-800 cursor-pointer"
                                 >
                                   Votes: {idea.votes}
                                 </button>
+                              ) : (
+                                <span className="text-sm text-slate-500">Votes: {idea.votes}</span>
                               )}
                               <span className="text-sm text-slate-500 hidden sm:inline">•</span>
                               <span className="text-xs sm:text-sm text-slate-500">
@@ -969,7 +982,18 @@ export default function Admin() {
                               {idea.category && (
                                 <>
                                   <span className="text-sm text-slate-500">•</span>
-                                  <span className="text-sm text-slate-500 capitalize">{idea.category}</span>
+                                  <span className="text-sm text-slate-500">{getCategoryLabel(idea.category)}</span>
+                                </>
+                              )}
+                              {idea.aiGradeStatus && (
+                                <>
+                                  <span className="text-sm text-slate-500">•</span>
+                                  <span
+                                    className="text-xs sm:text-sm text-slate-500"
+                                    title={idea.aiGradeReasoning || undefined}
+                                  >
+                                    AI grade: {idea.aiGradeStatus === 'graded' ? idea.aiGrade : idea.aiGradeStatus}
+                                  </span>
                                 </>
                               )}
                             </div>
@@ -1033,6 +1057,17 @@ export default function Admin() {
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
+                          {isAdmin && (
+                            <Button
+                              onClick={() => regradeMutation.mutate(idea.id)}
+                              variant="outline"
+                              size="sm"
+                              disabled={regradeMutation.isPending}
+                              title="Regrade with AI"
+                            >
+                              <Sparkles className="w-4 h-4" />
+                            </Button>
+                          )}
                           <Button
                             onClick={() => handleDelete(idea)}
                             variant="outline"
@@ -1,11 +1,13 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
 import { useEffect, useState, lazy, Suspense } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Lightbulb, Bell, ChevronDown, ChevronUp, Search, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useCategories } from "@/hooks/use-categories";
 
 // Lazy load heavy components only
 const SimpleSignupPopup = lazy(() => import("@/components/simple-signup-popup"));
@@ -14,15 +16,18 @@ const GiftCardPopup = lazy(() => import("@/components/gift-card-popup"));
 // Import lightweight components directly to reduce chunk splitting overhead
 import IdeaSubmissionForm from "@/components/idea-submission-form";
 import IdeaCard from "@/components/idea-card";
+import TagInput from "@/components/tag-input";
 import SubscriptionForm from "@/components/subscription-form";
 import UnlockMessage from "@/components/unlock-message";
 import InlineSubscribe from "@/components/inline-subscribe";
 import { UserDropdown } from "@/components/user-dropdown";
+import { NotificationBell } from "@/components/notification-bell";
 
 
 export default function Home() {
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading: authLoading, logoutMutation } = useAuth();
+  const { open: categories } = useCategories();
   const [sessionId, setSessionId] = useState<string>(() => {
     // Initialize from localStorage on mount
     if (typeof window !== 'undefined') {
@@ -33,13 +38,22 @@ export default function Home() {
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const [showUnlockMessage, setShowUnlockMessage] = useState(false);
   const [showGiftCardPopup, setShowGiftCardPopup] = useState(false);
-  const [sortBy, setSortBy] = useState<'votes' | 'recent' | 'comments'>('votes');
+  // "top" sorts carry their time window, e.g. "top:week"
+  const [sortBy, setSortBy] = useState<string>('hot');
   const [selectedCategory, setSelectedCategory] = useState<string>('');
-  const [selectedTool, setSelectedTool] = useState<string>('');
-  const [searchQuery, setSearchQuery] = useState<string>('');
+  // Tools and topics to filter by; "all" shows ideas with every tag, "any" with at least one
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<'any' | 'all'>('any');
+  const [searchQuery, setSearchQuery] = useState<string>(() => {
+    // Support the ?search= SearchAction advertised in index.html
+    if (typeof window !== 'undefined') {
+      return new URLSearchParams(window.location.search).get('search') || '';
+    }
+    return '';
+  });
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState<string>('');
   const [sharedIdeaAccess, setSharedIdeaAccess] = useState(false);
   const [highlightedIdeaId, setHighlightedIdeaId] = useState<number | null>(null);
-  const [visibleIdeasCount, setVisibleIdeasCount] = useState(15);
   const [newlySubmittedIdeaId, setNewlySubmittedIdeaId] = useState<number | null>(null);
   const [isSharedLink, setIsSharedLink] = useState(false);
   const [showSubmissionForm, setShowSubmissionForm] = useState(false);
@@ -147,44 +161,118 @@ export default function Home() {
     queryKey: ['/api/stats'],
   });
 
-  // Get ideas (show when paywall disabled OR user has submitted OR has shared access)
-  const { data: allIdeas, isLoading: ideasLoading } = useQuery({
-    queryKey: ['/api/ideas', sortBy, selectedCategory, selectedTool],
-    queryFn: async () => {
-      const categoryParam = selectedCategory && selectedCategory !== 'all' ? `&category=${selectedCategory}` : '';
-      const toolParam = selectedTool && selectedTool !== 'all' ? `&tool=${selectedTool}` : '';
-      const res = await fetch(`/api/ideas?sort=${sortBy}${categoryParam}${toolParam}`, {
+  // Get ideas a page at a time (show when paywall disabled OR user has submitted OR has shared access)
+  const {
+    data: ideasData,
+    isLoading: ideasLoading,
+    fetchNextPage: fetchNextIdeasPage,
+    hasNextPage: hasMoreIdeas,
+    isFetchingNextPage: isFetchingMoreIdeas,
+  } = useInfiniteQuery({
+    queryKey: ['/api/ideas', sortBy, selectedCategory, selectedTags, tagMatch],
+    queryFn: async ({ pageParam }) => {
+      // Small first page for a fast initial render, bigger pages after that
+      const [sort, timeWindow] = sortBy.split(':');
+      const params = new URLSearchParams({ sort, limit: pageParam ? '20' : '15' });
+      if (timeWindow) params.set('window', timeWindow);
+      if (selectedCategory && selectedCategory !== 'all') params.set('category', selectedCategory);
+      if (selectedTags.length > 0) {
+        params.set('tags', selectedTags.join(','));
+        params.set('match', tagMatch);
+      }
+      if (pageParam) params.set('cursor', pageParam);
+      const res = await fetch(`/api/ideas?${params}`, {
         headers: {
           'x-session-id': sessionId,
           'x-shared-access': sharedIdeaAccess ? 'true' : 'false',
         },
       });
       if (!res.ok) {
-        if (res.status === 403) return null; // User hasn't submitted yet
+        if (res.status === 403) return { ideas: [], nextCursor: null }; // User hasn't submitted yet
         throw new Error('Failed to get ideas');
       }
       return res.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: any) => lastPage.nextCursor ?? undefined,
     enabled: !!sessionId && (!paywallEnabled || hasSubmitted || sharedIdeaAccess),
   });
 
-  // Filter ideas based on search query
-  const ideas = allIdeas?.filter((idea: any) => {
-    if (!searchQuery.trim()) return true;
-    
-    const query = searchQuery.toLowerCase();
-    return (
-      idea.useCase?.toLowerCase().includes(query) ||
-      idea.title?.toLowerCase().includes(query) ||
-      idea.description?.toLowerCase().includes(query) ||
-      idea.category?.toLowerCase().includes(query) ||
-      idea.tool?.toLowerCase().includes(query)
-    );
-  }) || [];
+  // Shared ideas may sit on a later page, so load them directly
+  const { data: highlightedIdea } = useQuery({
+    queryKey: ['/api/ideas', highlightedIdeaId, sessionId],
+    queryFn: async () => {
+      const res = await fetch(`/api/ideas/${highlightedIdeaId}`, {
+        headers: {
+          'x-session-id': sessionId,
+        },
+      });
+      if (!res.ok) return null;
+      return res.json();
+    },
+    enabled: !!sessionId && !!highlightedIdeaId,
+  });
+
+  // Pages can overlap when the pinned/highlighted idea also appears later in the feed
+  const allIdeas = (() => {
+    const seen = new Set<number>();
+    const feed = [
+      ...(highlightedIdea ? [highlightedIdea] : []),
+      ...(ideasData?.pages.flatMap((page: any) => page.ideas) || []),
+    ];
+    return feed.filter((idea: any) => {
+      if (seen.has(idea.id)) return false;
+      seen.add(idea.id);
+      return true;
+    });
+  })();
+
+  // Debounce search input so we only hit the server once typing pauses
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearchQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  const isSearching = debouncedSearchQuery.length > 0;
+
+  // Server-side full-text search, ranked by relevance and paginated
+  const {
+    data: searchData,
+    isLoading: searchLoading,
+    fetchNextPage: fetchNextSearchPage,
+    hasNextPage: hasMoreSearchResults,
+    isFetchingNextPage: isFetchingMoreSearchResults,
+  } = useInfiniteQuery({
+    queryKey: ['/api/ideas/search', debouncedSearchQuery, selectedCategory, selectedTags, tagMatch],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ q: debouncedSearchQuery, page: String(pageParam) });
+      if (selectedCategory && selectedCategory !== 'all') params.set('category', selectedCategory);
+      if (selectedTags.length > 0) {
+        params.set('tags', selectedTags.join(','));
+        params.set('match', tagMatch);
+      }
+      const res = await fetch(`/api/ideas/search?${params}`, {
+        headers: {
+          'x-session-id': sessionId,
+          'x-shared-access': sharedIdeaAccess ? 'true' : 'false',
+        },
+      });
+      if (!res.ok) throw new Error('Failed to search ideas');
+      return res.json();
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage: any) => lastPage.hasMore ? lastPage.page + 1 : undefined,
+    enabled: isSearching && !!sessionId && (!paywallEnabled || hasSubmitted || sharedIdeaAccess),
+  });
+
+  const searchResults = searchData?.pages.flatMap((page: any) => page.results) || [];
+  const searchTotal = searchData?.pages[0]?.total || 0;
+  const ideas = (isSearching ? searchResults : allIdeas) || [];
+  const isLoadingIdeas = isSearching ? searchLoading : ideasLoading;
 
   // Vote mutation
   const voteMutation = useMutation({
-    mutationFn: async ({ ideaId, voteType }: { ideaId: number; voteType: 'up' | 'down' }) => {
+    mutationFn: async ({ ideaId, voteType }: { ideaId: number; voteType: 'up' | 'down' | 'none' }) => {
       const res = await fetch(`/api/ideas/${ideaId}/vote`, {
         method: 'POST',
         headers: {
@@ -201,6 +289,7 @@ export default function Home() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/ideas'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ideas/search'] });
     },
     onError: (error: any) => {
       // Check if it's a rate limiting error (429 status)
@@ -292,7 +381,7 @@ export default function Home() {
     }, 3000);
   };
 
-  const handleVote = (ideaId: number, voteType: 'up' | 'down') => {
+  const handleVote = (ideaId: number, voteType: 'up' | 'down' | 'none') => {
     voteMutation.mutate({ ideaId, voteType });
     
     // Track interactions for non-authenticated users
@@ -372,6 +461,7 @@ export default function Home() {
                   </div>
                 ) : (
                   <div className="flex items-center space-x-2">
+                    <NotificationBell />
                     <Button
                       onClick={() => window.location.href = '/auth'}
                       variant="outline"
@@ -568,7 +658,7 @@ Prioritize examples that combine creativity + execution. If relevant, include wh
               </div>
               
               {/* Filter and Sort Controls */}
-              <div className="grid grid-cols-3 gap-2 md:gap-4">
+              <div className="grid grid-cols-2 gap-2 md:gap-4">
                 {/* Category Filter */}
                 <Select value={selectedCategory} onValueChange={setSelectedCategory}>
                   <SelectTrigger className="w-full bg-white border border-blue-200 hover:border-blue-400 focus:border-blue-500 py-2 md:py-3 text-xs md:text-sm" aria-label="Filter by Category">
@@ -576,54 +666,57 @@ Prioritize examples that combine creativity + execution. If relevant, include wh
                   </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Categories</SelectItem>
-                      <SelectItem value="content-creation">Content Creation</SelectItem>
-                      <SelectItem value="marketing-ads">Marketing & Ads</SelectItem>
-                      <SelectItem value="sales-outreach">Sales & Outreach</SelectItem>
-                      <SelectItem value="automation-ai-agents">Automation & AI Agents</SelectItem>
-                      <SelectItem value="data-analysis-reporting">Data Analysis & Reporting</SelectItem>
-                      <SelectItem value="productivity-time-saving">Productivity & Time-Saving</SelectItem>
-                      <SelectItem value="customer-support">Customer Support</SelectItem>
-                      <SelectItem value="ecommerce-dropshipping">E-commerce & Dropshipping</SelectItem>
-                      <SelectItem value="personal-lifestyle">Personal Life & Lifestyle</SelectItem>
-                      <SelectItem value="real-estate">Real Estate</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.slug} value={category.slug}>
+                          {category.icon && !isMobile ? `${category.icon} ${category.label}` : category.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 
-                {/* Tool Filter */}
-                <Select value={selectedTool} onValueChange={setSelectedTool}>
-                  <SelectTrigger className="w-full bg-white border border-green-200 hover:border-green-400 focus:border-green-500 py-2 md:py-3 text-xs md:text-sm" aria-label="Filter by Tool">
-                    <SelectValue placeholder={isMobile ? "Tool" : "🛠️ Filter by Tool"} />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Tools</SelectItem>
-                    <SelectItem value="ChatGPT">ChatGPT</SelectItem>
-                    <SelectItem value="Claude">Claude</SelectItem>
-                    <SelectItem value="Midjourney">Midjourney</SelectItem>
-                    <SelectItem value="DALL-E">DALL-E</SelectItem>
-                    <SelectItem value="Stable Diffusion">Stable Diffusion</SelectItem>
-                    <SelectItem value="GitHub Copilot">GitHub Copilot</SelectItem>
-                    <SelectItem value="Cursor">Cursor</SelectItem>
-                    <SelectItem value="Notion AI">Notion AI</SelectItem>
-                    <SelectItem value="Zapier">Zapier</SelectItem>
-                    <SelectItem value="Make">Make</SelectItem>
-                    <SelectItem value="Custom API">Custom API</SelectItem>
-                    <SelectItem value="Other">Other</SelectItem>
-                  </SelectContent>
-                </Select>
-
                 {/* Sort Dropdown */}
-                <Select value={sortBy} onValueChange={(value: 'votes' | 'recent' | 'comments') => setSortBy(value)}>
+                <Select value={sortBy} onValueChange={setSortBy}>
                   <SelectTrigger className="w-full bg-white border border-orange-200 hover:border-orange-400 focus:border-orange-500 py-2 md:py-3 text-xs md:text-sm" aria-label="Sort by">
                     <SelectValue placeholder={isMobile ? "Sort" : "📊 Sort by"} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="votes">{isMobile ? "Upvotes" : "🔥 Sort by Upvotes"}</SelectItem>
+                    <SelectItem value="hot">{isMobile ? "Hot" : "🔥 Hot"}</SelectItem>
+                    <SelectItem value="top:day">{isMobile ? "Top Today" : "🏆 Top Today"}</SelectItem>
+                    <SelectItem value="top:week">{isMobile ? "Top Week" : "🏆 Top This Week"}</SelectItem>
+                    <SelectItem value="top:month">{isMobile ? "Top Month" : "🏆 Top This Month"}</SelectItem>
+                    <SelectItem value="top:year">{isMobile ? "Top Year" : "🏆 Top This Year"}</SelectItem>
+                    <SelectItem value="top:all">{isMobile ? "Top All Time" : "🏆 Top All Time"}</SelectItem>
+                    <SelectItem value="votes">{isMobile ? "Upvotes" : "👍 Sort by Upvotes"}</SelectItem>
                     <SelectItem value="recent">{isMobile ? "Recent" : "⏰ Most Recent"}</SelectItem>
                     <SelectItem value="comments">{isMobile ? "Comments" : "💬 Most Comments"}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+
+              {/* Tag Filter */}
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-2 md:mt-4">
+                <TagInput
+                  value={selectedTags}
+                  onChange={setSelectedTags}
+                  allowNew={false}
+                  max={10}
+                  placeholder={isMobile ? "Filter by tool or topic" : "🛠️ Filter by tools and topics"}
+                  className="flex-1"
+                  aria-label="Filter by tools and topics"
+                />
+                {selectedTags.length > 1 && (
+                  <ToggleGroup
+                    type="single"
+                    value={tagMatch}
+                    onValueChange={(value) => value && setTagMatch(value as 'any' | 'all')}
+                    className="shrink-0"
+                    aria-label="Tag match"
+                  >
+                    <ToggleGroupItem value="any" size="sm" aria-label="Ideas with any of these tags">Any</ToggleGroupItem>
+                    <ToggleGroupItem value="all" size="sm" aria-label="Ideas with all of these tags">All</ToggleGroupItem>
+                  </ToggleGroup>
+                )}
+              </div>
             </div>
 
             {/* Amazon Gift Card Banner - Subtle, below filters */}
@@ -638,7 +731,13 @@ Prioritize examples that combine creativity + execution. If relevant, include wh
               </div>
             </div>
 
-            {ideasLoading ? (
+            {isSearching && !searchLoading && (
+              <p className="text-sm text-slate-600 mb-4" aria-live="polite">
+                {searchTotal} result{searchTotal === 1 ? '' : 's'} for "{debouncedSearchQuery}"
+              </p>
+            )}
+
+            {isLoadingIdeas ? (
               <div className="space-y-6">
                 {[1, 2, 3].map((i) => (
                   <div key={i} className="bg-white rounded-xl border border-slate-200 p-6 animate-pulse">
@@ -673,7 +772,6 @@ Prioritize examples that combine creativity + execution. If relevant, include wh
                     }
                     return 0;
                   })
-                  .slice(0, visibleIdeasCount)
                   .map((idea: any, index: number) => {
                     const elements = [
                       <IdeaCard 
@@ -684,6 +782,8 @@ Prioritize examples that combine creativity + execution. If relevant, include wh
                         isHighlighted={highlightedIdeaId === idea.id || newlySubmittedIdeaId === idea.id}
                         isRecentlySubmitted={idea.isRecentlySubmitted}
                         isSharedLink={isSharedLink && highlightedIdeaId === idea.id}
+                        searchSnippet={isSearching ? idea.snippet : undefined}
+                        onTagClick={(tag) => setSelectedTags((tags) => tags.some((name) => name.toLowerCase() === tag.name.toLowerCase()) ? tags : [...tags, tag.name])}
                       />
                     ];
                     
@@ -698,21 +798,46 @@ Prioritize examples that combine creativity + execution. If relevant, include wh
                   })
                   .flat()}
                 
+                {/* Load more search results */}
+                {isSearching && hasMoreSearchResults && (
+                  <div className="text-center pt-8">
+                    <Button
+                      onClick={() => fetchNextSearchPage()}
+                      disabled={isFetchingMoreSearchResults}
+                      variant="outline"
+                      className="px-4 md:px-8 py-3 text-sm md:text-lg whitespace-nowrap"
+                    >
+                      {isFetchingMoreSearchResults ? 'Loading...' : `Show More Results (${searchTotal - ideas.length} remaining)`}
+                    </Button>
+                  </div>
+                )}
+
                 {/* Show More Button */}
-                {ideas.length > visibleIdeasCount && (
+                {!isSearching && hasMoreIdeas && (
                   <div className="text-center pt-8">
                     <Button
-                      onClick={() => setVisibleIdeasCount(prev => prev + 20)}
+                      onClick={() => fetchNextIdeasPage()}
+                      disabled={isFetchingMoreIdeas}
                       variant="outline"
                       className="px-4 md:px-8 py-3 text-sm md:text-lg whitespace-nowrap"
                     >
-                      <span className="hidden sm:inline">Show 20 More Ideas ({ideas.length - visibleIdeasCount} remaining)</span>
-                      <span className="sm:hidden">Show 20 More ({ideas.length - visibleIdeasCount})</span>
+                      {isFetchingMoreIdeas ? 'Loading...' : (
+                        <>
+                          <span className="hidden sm:inline">Show 20 More Ideas</span>
+                          <span className="sm:hidden">Show 20 More</span>
+                        </>
+                      )}
                     </Button>
                   </div>
                 )}
 
 
+              </div>
+            ) : isSearching ? (
+              <div className="text-center py-12">
+                <Search className="mx-auto h-12 w-12 text-slate-400 mb-4" />
+                <h3 className="text-lg font-semibold text-slate-900 mb-2">No matching ideas</h3>
+                <p className="text-slate-600">Try different keywords or clear the filters.</p>
               </div>
             ) : (
               <div className="text-center py-12">
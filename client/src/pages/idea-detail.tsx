@@ -0,0 +1,162 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import { Lightbulb, ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import IdeaCard from "@/components/idea-card";
+
+export default function IdeaDetail() {
+  const params = useParams<{ id: string }>();
+  const ideaId = parseInt(params.id || '');
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [sessionId, setSessionId] = useState<string>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('ai-ideas-session') || '';
+    }
+    return '';
+  });
+
+  // Get or create session so visitors from shared links can vote
+  const { data: sessionData } = useQuery({
+    queryKey: ['/api/session'],
+    queryFn: async () => {
+      const res = await fetch('/api/session', {
+        headers: {
+          'x-session-id': sessionId || '',
+        },
+      });
+      if (!res.ok) throw new Error('Failed to get session');
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (sessionData) {
+      setSessionId(sessionData.sessionId);
+      localStorage.setItem('ai-ideas-session', sessionData.sessionId);
+    }
+  }, [sessionData]);
+
+  // Landing on a shared idea grants access to the full feed, same as the old ?idea= links
+  useEffect(() => {
+    localStorage.setItem('shared-idea-access', 'true');
+  }, []);
+
+  const { data: idea, isLoading, isError } = useQuery({
+    queryKey: ['/api/ideas', ideaId, sessionId],
+    queryFn: async () => {
+      const res = await fetch(`/api/ideas/${ideaId}`, {
+        headers: {
+          'x-session-id': sessionId,
+        },
+      });
+      if (res.status === 404) {
+        // Ideas merged into another one point at the canonical idea
+        const body = await res.json().catch(() => ({}));
+        if (body.redirectTo) setLocation(`/idea/${body.redirectTo}`, { replace: true });
+        return null;
+      }
+      if (!res.ok) throw new Error('Failed to get idea');
+      return res.json();
+    },
+    enabled: !isNaN(ideaId),
+  });
+
+  // Keep the tab title in sync for client-side navigation (the server sets it on first load)
+  useEffect(() => {
+    if (idea?.useCase) {
+      const text = idea.useCase.replace(/\s+/g, ' ').trim();
+      document.title = `${text.length > 70 ? text.substring(0, 69) + '…' : text} | How Do You Use AI?`;
+    }
+  }, [idea?.useCase]);
+
+  const voteMutation = useMutation({
+    mutationFn: async ({ ideaId, voteType }: { ideaId: number; voteType: 'up' | 'down' | 'none' }) => {
+      const res = await fetch(`/api/ideas/${ideaId}/vote`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-session-id': sessionId,
+        },
+        body: JSON.stringify({ voteType }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to vote');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ideas'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to vote",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="bg-slate-50 min-h-screen font-inter">
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-4xl mx-auto px-4 py-4 md:py-6 flex items-center justify-between">
+          <a href="/" className="flex items-center space-x-3">
+            <div className="w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-primary to-secondary rounded-lg flex items-center justify-center">
+              <Lightbulb className="text-white text-base sm:text-lg" />
+            </div>
+            <span className="text-lg sm:text-xl font-bold text-slate-900">How Do You Use AI?</span>
+          </a>
+          <Button variant="outline" size="sm" onClick={() => window.location.href = '/'}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            All Ideas
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        {isLoading ? (
+          <div className="bg-white rounded-xl border border-slate-200 p-6 animate-pulse">
+            <div className="flex items-start space-x-4">
+              <div className="w-12 h-20 bg-slate-200 rounded"></div>
+              <div className="flex-1 space-y-3">
+                <div className="h-6 bg-slate-200 rounded w-3/4"></div>
+                <div className="h-4 bg-slate-200 rounded w-full"></div>
+                <div className="h-4 bg-slate-200 rounded w-5/6"></div>
+              </div>
+            </div>
+          </div>
+        ) : idea && !isError ? (
+          <IdeaCard
+            idea={idea}
+            onVote={(id, voteType) => voteMutation.mutate({ ideaId: id, voteType })}
+            isVoting={voteMutation.isPending}
+          />
+        ) : (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Lightbulb className="mx-auto h-12 w-12 text-slate-400 mb-4" />
+              <h1 className="text-lg font-semibold text-slate-900 mb-2">Idea not found</h1>
+              <p className="text-slate-600 mb-4">This idea may have been removed.</p>
+              <Button onClick={() => window.location.href = '/'}>
+                Browse All Ideas
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="mt-8 text-center">
+          <p className="text-slate-600 mb-3">Hundreds more real-world AI use cases are waiting.</p>
+          <Button onClick={() => window.location.href = '/'} className="bg-primary hover:bg-primary/90">
+            Explore the Community
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+}
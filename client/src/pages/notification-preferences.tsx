@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,13 +8,23 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Bell, Mail, MessageSquare, TrendingUp, ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+type Preferences = {
+  emailDigest: boolean;
+  commentReplies: boolean;
+  ideaUpvotes: boolean;
+  weeklyTrends: boolean;
+  newFeatures: boolean;
+  communityUpdates: boolean;
+};
 
 export default function NotificationPreferences() {
   const { user, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
   
-  // Default notification preferences
-  const [preferences, setPreferences] = useState({
+  // Default notification preferences, replaced by the saved ones once loaded
+  const [preferences, setPreferences] = useState<Preferences>({
     emailDigest: true,
     commentReplies: true,
     ideaUpvotes: false,
@@ -22,37 +33,64 @@ export default function NotificationPreferences() {
     communityUpdates: false,
   });
 
-  const [saving, setSaving] = useState(false);
+  const { data: savedPreferences, isLoading: preferencesLoading } = useQuery<Preferences>({
+    queryKey: ["/api/user/notification-preferences"],
+    enabled: !!user,
+  });
 
-  const handlePreferenceChange = (key: string, value: boolean) => {
-    setPreferences(prev => ({
-      ...prev,
-      [key]: value
-    }));
-  };
+  useEffect(() => {
+    if (savedPreferences) {
+      setPreferences({
+        emailDigest: savedPreferences.emailDigest,
+        commentReplies: savedPreferences.commentReplies,
+        ideaUpvotes: savedPreferences.ideaUpvotes,
+        weeklyTrends: savedPreferences.weeklyTrends,
+        newFeatures: savedPreferences.newFeatures,
+        communityUpdates: savedPreferences.communityUpdates,
+      });
+    }
+  }, [savedPreferences]);
 
-  const handleSave = async () => {
-    setSaving(true);
-    try {
-      // Simulate API call - replace with actual endpoint later
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+  const saveMutation = useMutation({
+    mutationFn: async (updates: Preferences) => {
+      const response = await fetch("/api/user/notification-preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to save preferences");
+      }
+      return response.json();
+    },
+    onSuccess: (data: Preferences) => {
+      queryClient.setQueryData(["/api/user/notification-preferences"], data);
       toast({
         title: "Preferences Updated",
         description: "Your notification preferences have been saved.",
       });
-    } catch (error) {
+    },
+    onError: () => {
       toast({
         title: "Error",
         description: "Failed to save preferences. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setSaving(false);
-    }
+    },
+  });
+
+  const handlePreferenceChange = (key: keyof Preferences, value: boolean) => {
+    setPreferences(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate(preferences);
   };
 
-  if (authLoading) {
+  if (authLoading || (user && preferencesLoading)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-pulse">Loading...</div>
@@ -241,10 +279,10 @@ export default function NotificationPreferences() {
         <div className="mt-8 flex justify-end">
           <Button 
             onClick={handleSave} 
-            disabled={saving}
+            disabled={saveMutation.isPending}
             className="w-full sm:w-auto"
           >
-            {saving ? "Saving..." : "Save Preferences"}
+            {saveMutation.isPending ? "Saving..." : "Save Preferences"}
           </Button>
         </div>
 
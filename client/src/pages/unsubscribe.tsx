@@ -0,0 +1,54 @@
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle, XCircle } from "lucide-react";
+
+export default function Unsubscribe() {
+  const params = new URLSearchParams(window.location.search);
+  const email = params.get("email");
+  const token = params.get("token");
+
+  const { data, error, isLoading } = useQuery<{ message: string }>({
+    queryKey: ["/api/digest/unsubscribe", email, token],
+    queryFn: async () => {
+      const response = await fetch("/api/digest/unsubscribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, token }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.message || "Failed to unsubscribe");
+      }
+      return body;
+    },
+    enabled: !!email && !!token,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md bg-white shadow-lg rounded-lg p-8 text-center space-y-4">
+        {isLoading ? (
+          <p className="text-gray-600">Unsubscribing...</p>
+        ) : data ? (
+          <>
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto" />
+            <h2 className="text-2xl font-bold text-gray-900">You're unsubscribed</h2>
+            <p className="text-gray-600">{email} won't receive the weekly digest anymore.</p>
+          </>
+        ) : (
+          <>
+            <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+            <h2 className="text-2xl font-bold text-gray-900">Unsubscribe failed</h2>
+            <p className="text-gray-600">{error?.message || "This unsubscribe link is incomplete."}</p>
+          </>
+        )}
+        <a
+          href="/"
+          className="inline-block text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          Back to How Do You Use AI
+        </a>
+      </div>
+    </div>
+  );
+}
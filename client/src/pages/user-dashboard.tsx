@@ -1,10 +1,29 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { MessageCircle, ThumbsUp, User, Calendar, TrendingUp } from "lucide-react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import TagInput from "@/components/tag-input";
+import { MessageCircle, ThumbsUp, User, Calendar, TrendingUp, MailWarning, Sparkles, Lightbulb, Edit } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { queryClient } from "@/lib/queryClient";
 import { formatDistanceToNow } from "date-fns";
+import { MAX_TAGS_PER_KIND, type PublicTag } from "@shared/schema";
+
+interface IdeaGrade {
+  id: number;
+  score: string;
+  reasoning: string;
+  tips: string[];
+  rubricVersion: string;
+  model: string;
+  createdAt: string;
+}
 
 interface UserIdea {
   id: number;
@@ -12,16 +31,84 @@ interface UserIdea {
   description: string;
   useCase: string;
   category: string;
-  tools: string;
+  tools: string | null;
+  tags: PublicTag[];
   linkUrl: string | null;
   sessionId: string | null;
   userId: string;
   votes: number;
   aiGrade: string | null;
+  aiGradeStatus: 'pending' | 'grading' | 'graded' | 'failed' | null;
+  aiGradedAt: string | null;
   submittedAt: string;
+  editedAt: string | null;
+  moderationStatus: 'held' | 'flagged' | null;
   postType: string;
   mediaUrl: string | null;
   mediaType: string | null;
+  grades: IdeaGrade[]; // Newest first
+}
+
+interface IdeaEdit {
+  id: number;
+  title: string;
+  description: string;
+  useCase: string;
+  tools: string[];
+  topics: string[];
+}
+
+// General pointers shown alongside the grader's own tips
+const SPECIFICITY_TIPS = [
+  "Name the exact tools or models you used",
+  "Describe one real task from start to finish",
+  "Say what changed: time saved, quality, or how often you use it",
+];
+
+function canRequestRegrade(idea: UserIdea) {
+  if (idea.aiGradeStatus === 'pending' || idea.aiGradeStatus === 'grading') return false;
+  if (!idea.aiGradedAt) return idea.aiGradeStatus === 'failed';
+  return !!idea.editedAt && new Date(idea.editedAt) > new Date(idea.aiGradedAt);
+}
+
+function GradeFeedback({ idea }: { idea: UserIdea }) {
+  if (idea.aiGradeStatus === 'pending' || idea.aiGradeStatus === 'grading') {
+    return <p className="text-sm text-gray-500">AI feedback is on its way...</p>;
+  }
+
+  const [latest, ...previous] = idea.grades;
+  if (!latest) return null;
+
+  return (
+    <div className="rounded-md border border-indigo-100 bg-indigo-50/60 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-indigo-700 font-medium">
+          <Sparkles className="h-4 w-4 mr-2" />
+          AI score: {latest.score}/10
+        </div>
+        <span className="text-xs text-gray-500">
+          {formatDistanceToNow(new Date(latest.createdAt))} ago
+        </span>
+      </div>
+      {latest.reasoning && <p className="text-sm text-gray-700">{latest.reasoning}</p>}
+      <div>
+        <p className="flex items-center text-sm font-medium text-gray-900 mb-1">
+          <Lightbulb className="h-4 w-4 mr-1 text-amber-500" />
+          How to make it more specific
+        </p>
+        <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+          {(latest.tips.length > 0 ? latest.tips : SPECIFICITY_TIPS).map((tip) => (
+            <li key={tip}>{tip}</li>
+          ))}
+        </ul>
+      </div>
+      {previous.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Earlier scores: {previous.map((grade) => grade.score).join(", ")}
+        </p>
+      )}
+    </div>
+  );
 }
 
 interface UserComment {
@@ -35,10 +122,95 @@ interface UserComment {
 
 export default function UserDashboard() {
   const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const { getLabel: getCategoryLabel } = useCategories();
+  const [editing, setEditing] = useState<IdeaEdit | null>(null);
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/auth/resend-verification", { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to send verification email");
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Check your inbox",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveIdeaMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: IdeaEdit) => {
+      const response = await fetch(`/api/user/ideas/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message || "Failed to save your idea");
+      }
+      return data;
+    },
+    onSuccess: () => {
+      setEditing(null);
+      toast({
+        title: "Idea updated",
+        description: "Request a new grade to get fresh feedback on your changes.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/ideas"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save your idea",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const regradeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/user/ideas/${id}/regrade`, { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to request a new grade");
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Regrade requested",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/ideas"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request a new grade",
+        variant: "destructive",
+      });
+    },
+  });
 
   const { data: userIdeas = [], isLoading: ideasLoading } = useQuery<UserIdea[]>({
     queryKey: ["/api/user/ideas"],
     enabled: !!user,
+    // Poll while a grade is being worked out so the feedback shows up on its own
+    refetchInterval: (query) =>
+      query.state.data?.some((idea) => idea.aiGradeStatus === 'pending' || idea.aiGradeStatus === 'grading') ? 5000 : false,
   });
 
   const { data: userComments = [], isLoading: commentsLoading } = useQuery<UserComment[]>({
@@ -102,6 +274,27 @@ export default function UserDashboard() {
           </div>
         </div>
 
+        {!user.emailVerified && (
+          <Card className="mb-8 border-amber-200 bg-amber-50">
+            <CardContent className="flex flex-col sm:flex-row sm:items-center gap-4 p-4">
+              <MailWarning className="h-6 w-6 text-amber-600 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">Please verify your email address</p>
+                <p className="text-sm text-gray-600">
+                  We sent a confirmation link to {user.email}. Verify it to get the verified badge and our newsletter.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => resendVerificationMutation.mutate()}
+                disabled={resendVerificationMutation.isPending}
+              >
+                {resendVerificationMutation.isPending ? "Sending..." : "Resend Email"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats Overview */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
           <Card>
@@ -177,8 +370,13 @@ export default function UserDashboard() {
                           <CardDescription className="mt-2">{idea.description}</CardDescription>
                           <div className="flex items-center space-x-4 mt-3 text-sm text-gray-500">
                             <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded">
-                              {idea.category}
+                              {getCategoryLabel(idea.category)}
                             </span>
+                            {idea.moderationStatus === 'held' && (
+                              <span className="bg-amber-100 text-amber-800 px-2 py-1 rounded" title="Only you can see this idea until a moderator approves it">
+                                Awaiting review
+                              </span>
+                            )}
                             <div className="flex items-center">
                               <Calendar className="h-4 w-4 mr-1" />
                               {idea.submittedAt ? formatDistanceToNow(new Date(idea.submittedAt)) + ' ago' : 'Recently'}
@@ -197,6 +395,36 @@ export default function UserDashboard() {
                         </div>
                       </div>
                     </CardHeader>
+                    <CardContent className="space-y-3">
+                      <GradeFeedback idea={idea} />
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditing({
+                            id: idea.id,
+                            title: idea.title,
+                            description: idea.description,
+                            useCase: idea.useCase || "",
+                            tools: idea.tags.filter((tag) => tag.kind === 'tool').map((tag) => tag.name),
+                            topics: idea.tags.filter((tag) => tag.kind === 'topic').map((tag) => tag.name),
+                          })}
+                        >
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        {canRequestRegrade(idea) && (
+                          <Button
+                            size="sm"
+                            onClick={() => regradeMutation.mutate(idea.id)}
+                            disabled={regradeMutation.isPending}
+                          >
+                            <Sparkles className="h-4 w-4 mr-1" />
+                            Request Regrade
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
                   </Card>
                 ))}
               </div>
@@ -246,6 +474,75 @@ export default function UserDashboard() {
           </TabsContent>
         </Tabs>
       </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit your idea</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveIdeaMutation.mutate(editing);
+              }}
+            >
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <Input
+                  value={editing.title}
+                  onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Use case</label>
+                <Textarea
+                  value={editing.useCase}
+                  onChange={(e) => setEditing({ ...editing, useCase: e.target.value })}
+                  className="min-h-[140px]"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <Textarea
+                  value={editing.description}
+                  onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tools</label>
+                <TagInput
+                  value={editing.tools}
+                  onChange={(tools) => setEditing({ ...editing, tools })}
+                  kind="tool"
+                  max={MAX_TAGS_PER_KIND}
+                  placeholder="e.g. ChatGPT, Claude, Midjourney"
+                  aria-label="Tools"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Topics</label>
+                <TagInput
+                  value={editing.topics}
+                  onChange={(topics) => setEditing({ ...editing, topics })}
+                  kind="topic"
+                  max={MAX_TAGS_PER_KIND}
+                  aria-label="Topics"
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveIdeaMutation.isPending}>
+                  {saveIdeaMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle, XCircle } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+
+export default function VerifyEmail() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const { data, error, isLoading } = useQuery<{ message: string; email: string }>({
+    queryKey: ["/api/auth/verify-email", token],
+    queryFn: async () => {
+      const response = await fetch(`/api/auth/verify-email?token=${encodeURIComponent(token || "")}`);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.message || "Failed to verify email");
+      }
+      // Refresh the logged-in user so the verified state shows up straight away
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      return body;
+    },
+    enabled: !!token,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md bg-white shadow-lg rounded-lg p-8 text-center space-y-4">
+        {isLoading ? (
+          <p className="text-gray-600">Verifying your email address...</p>
+        ) : data ? (
+          <>
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto" />
+            <h2 className="text-2xl font-bold text-gray-900">Email verified</h2>
+            <p className="text-gray-600">Thanks for confirming {data.email}.</p>
+          </>
+        ) : (
+          <>
+            <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+            <h2 className="text-2xl font-bold text-gray-900">Verification failed</h2>
+            <p className="text-gray-600">
+              {error?.message || "This verification link is missing its token."} You can request a new link from your dashboard.
+            </p>
+          </>
+        )}
+        <a
+          href="/dashboard"
+          className="inline-block text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          Go to your dashboard
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,72 @@
 import OpenAI from "openai";
+import { createHash } from "crypto";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Bump whenever the grading prompt or scoring changes, so old grades can be told apart
+export const RUBRIC_VERSION = '2';
 
 export interface IdeaGrading {
   score: number;
   reasoning: string;
+  tips: string[]; // How the author could make the idea more specific
+  model: string;
 }
 
-export async function gradeIdea(idea: {
+export interface IdeaGradingInput {
   title: string;
   description: string;
-  category: string;
-  tools: string;
-}): Promise<number> {
-  try {
+  useCase: string | null;
+  category: string | null;
+  tools: string | null;
+}
+
+// Grades a single idea. Implementations throw on failure so the grading queue can retry.
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  gradeIdea(idea: IdeaGradingInput): Promise<IdeaGrading>;
+}
+
+// Clamp to 1.0-10.0 and round to the nearest 0.1
+function normalizeScore(value: unknown): number {
+  let score = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(score) || score < 1.0) score = 1.0;
+  if (score > 10.0) score = 10.0;
+  return Math.round(score * 10) / 10;
+}
+
+function normalizeTips(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((tip): tip is string => typeof tip === 'string' && tip.trim() !== '').slice(0, 3);
+}
+
+class OpenAIProvider implements AIProvider {
+  readonly name = 'openai';
+  readonly model = 'gpt-4o'; // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+  private openai: OpenAI;
+
+  constructor(apiKey: string) {
+    this.openai = new OpenAI({ apiKey });
+  }
+
+  async gradeIdea(idea: IdeaGradingInput): Promise<IdeaGrading> {
     const prompt = `Rate this AI use case idea on a scale of 1.0 to 10.0 (in 0.1 increments) based on:
 - Creativity and uniqueness (30%)
-- Practical value and feasibility (40%) 
+- Practical value and feasibility (40%)
 - Clear explanation and specificity (30%)
 
 Idea Details:
 Title: ${idea.title}
 Description: ${idea.description}
-Category: ${idea.category}
-Tools: ${idea.tools}
+Use Case: ${idea.useCase || 'Not provided'}
+Category: ${idea.category || 'other'}
+Tools: ${idea.tools || 'Not specified'}
+
+Also suggest up to 3 short, concrete tips that would make the idea more specific (e.g. naming tools, giving a real example, quantifying results).
 
-Respond with only a JSON object in this format: { "score": 7.3, "reasoning": "Brief explanation" }`;
+Respond with only a JSON object in this format: { "score": 7.3, "reasoning": "Brief explanation", "tips": ["Tip one", "Tip two"] }`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
       messages: [
         {
           role: "system",
@@ -40,23 +78,73 @@ Respond with only a JSON object in this format: { "score": 7.3, "reasoning": "Br
         }
       ],
       response_format: { type: "json_object" },
-      max_tokens: 200,
+      max_tokens: 400,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{"score": 5.0}');
-    
-    // Ensure score is within bounds and properly formatted
-    let score = parseFloat(result.score);
-    if (isNaN(score) || score < 1.0) score = 1.0;
-    if (score > 10.0) score = 10.0;
-    
-    // Round to nearest 0.1
-    score = Math.round(score * 10) / 10;
-    
-    return score;
-  } catch (error) {
-    console.error('Error grading idea with AI:', error);
-    // Return a neutral score if AI grading fails
-    return 5.0;
+    const result = JSON.parse(response.choices[0].message.content || '{}');
+    if (result.score === undefined) {
+      throw new Error('AI grading response did not include a score');
+    }
+
+    return {
+      score: normalizeScore(result.score),
+      reasoning: typeof result.reasoning === 'string' ? result.reasoning : '',
+      tips: normalizeTips(result.tips),
+      model: this.model,
+    };
+  }
+}
+
+// Deterministic grader for development and tests: the same idea always gets the same score,
+// nudged up for more detailed write-ups, without calling out to any API
+class OfflineAIProvider implements AIProvider {
+  readonly name = 'offline';
+  readonly model = 'offline-v1';
+
+  async gradeIdea(idea: IdeaGradingInput): Promise<IdeaGrading> {
+    const text = [idea.title, idea.description, idea.useCase, idea.category, idea.tools].join('\n');
+    const hash = createHash('sha256').update(text).digest();
+    const base = 4 + (hash.readUInt16BE(0) / 0xffff) * 3;
+    const detail = Math.min(2, ((idea.useCase?.length || 0) + idea.description.length) / 500);
+    const toolsBonus = idea.tools ? 0.5 : 0;
+    const score = normalizeScore(base + detail + toolsBonus);
+
+    const tips: string[] = [];
+    if (!idea.tools) tips.push('Name the AI tools or models you used.');
+    if ((idea.useCase?.length || 0) < 300) tips.push('Walk through a concrete example of the task from start to finish.');
+    if (!/\d/.test(`${idea.description} ${idea.useCase || ''}`)) tips.push('Quantify the result, e.g. time saved or how often you use it.');
+
+    return {
+      score,
+      reasoning: `Offline grade based on the level of detail in the write-up${idea.tools ? ' and the tools listed' : ''}.`,
+      tips,
+      model: this.model,
+    };
+  }
+}
+
+// AI_PROVIDER picks the provider explicitly; otherwise OpenAI is used when a key is configured
+function createProvider(): AIProvider {
+  const configured = process.env.AI_PROVIDER;
+
+  if (configured === 'openai' || (!configured && process.env.OPENAI_API_KEY)) {
+    if (process.env.OPENAI_API_KEY) {
+      return new OpenAIProvider(process.env.OPENAI_API_KEY);
+    }
+    console.warn("AI_PROVIDER is openai but OPENAI_API_KEY is not set - using the offline grader");
   }
-}
\ No newline at end of file
+  return new OfflineAIProvider();
+}
+
+let provider: AIProvider | undefined;
+
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+}
+
+export async function gradeIdea(idea: IdeaGradingInput): Promise<IdeaGrading> {
+  return getAIProvider().gradeIdea(idea);
+}
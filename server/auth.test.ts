@@ -0,0 +1,47 @@
+import { test, describe, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { User, UserRole } from "@shared/schema";
+import { storage } from "./storage";
+import { promoteBootstrapAdmin } from "./auth";
+
+const adminEmails = ["admin@example.com"];
+
+function makeUser(overrides: Partial<User> = {}): User {
+  return {
+    id: "user-1",
+    email: "Admin@example.com",
+    username: "founder",
+    role: "user",
+    emailVerifiedAt: null,
+    ...overrides,
+  } as User;
+}
+
+describe("promoteBootstrapAdmin", () => {
+  afterEach(() => mock.restoreAll());
+
+  function mockUpdateUserRole() {
+    return mock.method(storage, "updateUserRole", async (id: string, role: UserRole) => makeUser({ id, role, emailVerifiedAt: new Date() }));
+  }
+
+  test("leaves an unverified account with a listed address as a user", async () => {
+    const updateUserRole = mockUpdateUserRole();
+    const user = await promoteBootstrapAdmin(makeUser(), adminEmails);
+    assert.equal(user.role, "user");
+    assert.equal(updateUserRole.mock.callCount(), 0);
+  });
+
+  test("promotes a verified account with a listed address", async () => {
+    const updateUserRole = mockUpdateUserRole();
+    const user = await promoteBootstrapAdmin(makeUser({ emailVerifiedAt: new Date() }), adminEmails);
+    assert.equal(user.role, "admin");
+    assert.deepEqual(updateUserRole.mock.calls[0].arguments, ["user-1", "admin"]);
+  });
+
+  test("leaves verified accounts with other addresses alone", async () => {
+    const updateUserRole = mockUpdateUserRole();
+    const user = await promoteBootstrapAdmin(makeUser({ email: "someone@example.com", emailVerifiedAt: new Date() }), adminEmails);
+    assert.equal(user.role, "user");
+    assert.equal(updateUserRole.mock.callCount(), 0);
+  });
+});
@@ -6,7 +6,10 @@ import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import bcrypt from "bcryptjs";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { sendVerificationEmail } from "./email-verification";
+import { ContentFilter } from "./content-filter";
+import { rateLimits } from "./rate-limit";
+import { User as SelectUser, type UserRole } from "@shared/schema";
 import connectPg from "connect-pg-simple";
 
 declare global {
@@ -17,6 +20,41 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
+const roleRank: Record<UserRole, number> = { user: 0, moderator: 1, admin: 2 };
+
+// Accounts listed here are promoted to admin once their address is verified, so the first admin
+// can be set up
+const bootstrapAdminEmails = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+// Called on login and when an address is verified. Unverified accounts are never promoted, or
+// whoever registered a listed address first would get admin.
+export async function promoteBootstrapAdmin(user: SelectUser, adminEmails = bootstrapAdminEmails): Promise<SelectUser> {
+  if (!user.emailVerifiedAt || user.role === 'admin' || !adminEmails.includes(user.email.toLowerCase())) {
+    return user;
+  }
+  return (await storage.updateUserRole(user.id, 'admin')) || user;
+}
+
+export function hasRole(user: SelectUser | undefined | null, role: UserRole): boolean {
+  return !!user && (roleRank[user.role as UserRole] ?? 0) >= roleRank[role];
+}
+
+// Public shape of the logged-in user returned by the auth endpoints
+function toPublicUser(user: SelectUser) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    emailVerified: !!user.emailVerifiedAt,
+  };
+}
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -108,6 +146,8 @@ export function setupAuth(app: Express) {
           return done(null, false);
         }
         
+        user = await promoteBootstrapAdmin(user);
+        
         console.log('Login successful for user:', username);
         return done(null, user);
       } catch (error) {
@@ -134,9 +174,14 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", rateLimits.signup, async (req, res, next) => {
     try {
       const { username, email, password } = req.body;
+
+      const usernameValidation = await ContentFilter.validateUsername(username || '');
+      if (!usernameValidation.isValid) {
+        return res.status(400).json({ message: usernameValidation.reason });
+      }
       
       // Check if username or email already exists
       const existingUser = await storage.getUserByUsername(username);
@@ -155,15 +200,16 @@ export function setupAuth(app: Express) {
         passwordHash: await hashPassword(password),
       });
 
+      try {
+        await sendVerificationEmail(user);
+      } catch (error) {
+        // Don't fail registration if the verification email can't be sent
+        console.error('Verification email error:', error);
+      }
+
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json({
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-        });
+        res.status(201).json(toPublicUser(user));
       });
     } catch (error) {
       console.error('Registration error:', error);
@@ -171,7 +217,7 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", rateLimits.login, (req, res, next) => {
     passport.authenticate("local", (err: any, user: any, info: any) => {
       if (err) {
         console.error('Login error:', err);
@@ -186,13 +232,7 @@ export function setupAuth(app: Express) {
           console.error('Session login error:', loginErr);
           return res.status(500).json({ message: "Login failed" });
         }
-        res.status(200).json({
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-        });
+        res.status(200).json(toPublicUser(user));
       });
     })(req, res, next);
   });
@@ -222,14 +262,7 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const user = req.user as SelectUser;
-    res.json({
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-    });
+    res.json(toPublicUser(req.user as SelectUser));
   });
 }
 
@@ -238,4 +271,17 @@ export function isAuthenticated(req: any, res: any, next: any) {
     return next();
   }
   res.status(401).json({ message: "Unauthorized" });
-}
\ No newline at end of file
+}
+
+// Only lets the request through when the logged-in user holds `role` or a higher one
+export function requireRole(role: UserRole) {
+  return (req: any, res: any, next: any) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,201 @@
+import { storage, type CategoryWithUsage } from "./storage";
+import { slugifyTag } from "./tags";
+import type { Category, CategoryInput, InsertCategory, UpdateCategory } from "@shared/schema";
+
+// The categories ideas are filed under. Ideas store the category's slug; the label, icon and
+// order are edited by admins. Archiving a category hides it from the submission form and
+// filters while its ideas keep it; merging moves its ideas to another category.
+
+// Installed when the category table is empty: the categories the submission form used to offer
+export const DEFAULT_CATEGORIES: Omit<InsertCategory, 'sortOrder'>[] = [
+  { slug: 'content-creation', label: 'Content Creation', icon: '✍️', description: 'Writing, video, social posts and design' },
+  { slug: 'marketing-ads', label: 'Marketing & Ads', icon: '📣', description: 'Campaigns, ad copy, SEO and audience research' },
+  { slug: 'sales-outreach', label: 'Sales & Outreach', icon: '🤝', description: 'Prospecting, cold email and closing deals' },
+  { slug: 'automation-ai-agents', label: 'Automation & AI Agents', icon: '🤖', description: 'Workflows and agents that run on their own' },
+  { slug: 'data-analysis-reporting', label: 'Data Analysis & Reporting', icon: '📊', description: 'Spreadsheets, dashboards and making sense of data' },
+  { slug: 'productivity-time-saving', label: 'Productivity & Time-Saving', icon: '⏱️', description: 'Getting everyday work done faster' },
+  { slug: 'customer-support', label: 'Customer Support', icon: '💬', description: 'Answering customers and handling tickets' },
+  { slug: 'ecommerce-dropshipping', label: 'E-commerce & Dropshipping', icon: '🛒', description: 'Running an online store' },
+  { slug: 'personal-lifestyle', label: 'Personal Life & Lifestyle Hacks', icon: '🏡', description: 'Health, travel, money and life outside work' },
+  { slug: 'real-estate', label: 'Real Estate', icon: '🏠', description: 'Listings, property research and agents' },
+  { slug: 'other', label: 'Other', icon: '✨', description: 'Anything that fits nowhere else' },
+];
+
+// Ideas without a category, or with one that can't be worked out, go here
+export const FALLBACK_CATEGORY = 'other';
+
+// How long the loaded categories are used before re-reading them, so edits made through
+// another server instance are picked up
+const CATEGORY_CACHE_MS = 60 * 1000;
+
+export type CategoryResult<T> = { ok: true } & T | { ok: false; status: number; message: string };
+
+let defaultsInstalled: Promise<void> | null = null;
+
+// Only fills an empty table, so categories admins have merged or deleted stay gone
+export function installDefaultCategories(): Promise<void> {
+  if (!defaultsInstalled) {
+    defaultsInstalled = (async () => {
+      const existing = await storage.getCategories();
+      if (existing.length === 0) {
+        await storage.createCategories(DEFAULT_CATEGORIES.map((category, index) => ({ ...category, sortOrder: (index + 1) * 10 })));
+      }
+    })().catch(error => {
+      defaultsInstalled = null;
+      throw error;
+    });
+  }
+  return defaultsInstalled;
+}
+
+let cached: { categories: CategoryWithUsage[]; loadedAt: number } | null = null;
+
+// Every category, archived ones included, in display order. Idea counts may be a minute old.
+export async function getCategories(): Promise<CategoryWithUsage[]> {
+  if (!cached || Date.now() - cached.loadedAt >= CATEGORY_CACHE_MS) {
+    await installDefaultCategories();
+    cached = { categories: await storage.getCategories(), loadedAt: Date.now() };
+  }
+  return cached.categories;
+}
+
+// Called after categories change so the next lookup reads them again
+export function invalidateCategories(): void {
+  cached = null;
+}
+
+// "Marketing & Ads", "marketing-ads" and "marketingads" all give "marketingads", so labels,
+// slugs and the older spellings of slugs can be compared
+function matchKey(value: string): string {
+  return slugifyTag(value).replace(/-/g, '');
+}
+
+function findCategory(all: Category[], value: string): Category | undefined {
+  return all.find(category => category.slug === value)
+    || all.find(category => matchKey(category.slug) === matchKey(value) || matchKey(category.label) === matchKey(value));
+}
+
+// The category for an idea being submitted or edited, given its slug or label. No value means
+// the fallback category. Archived categories are only accepted where an admin is filing the idea.
+export async function resolveIdeaCategory(value: unknown, { allowArchived = false } = {}): Promise<CategoryResult<{ category: Category }>> {
+  const all = await getCategories();
+  const name = typeof value === 'string' ? value.trim() : '';
+  const category = findCategory(all, name || FALLBACK_CATEGORY);
+  if (!category) {
+    return { ok: false, status: 400, message: "Please choose one of the listed categories" };
+  }
+  if (category.archived && !allowArchived) {
+    return { ok: false, status: 400, message: `"${category.label}" is no longer open for new ideas; please choose another category` };
+  }
+  return { ok: true, category };
+}
+
+// Reads the feed and search ?category= filter, which may be a slug or a label. "all" or no value
+// means no filter; a value naming no category matches nothing.
+export async function parseCategoryFilter(value: unknown): Promise<string | undefined> {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.toLowerCase() === 'all') return undefined;
+  return findCategory(await getCategories(), name)?.slug ?? name;
+}
+
+export async function createCategory(input: CategoryInput): Promise<CategoryResult<{ category: Category }>> {
+  const slug = input.slug || slugifyTag(input.label);
+  if (!slug) {
+    return { ok: false, status: 400, message: "The label must contain a letter or number" };
+  }
+  const all = await storage.getCategories();
+  if (all.some(category => category.slug === slug)) {
+    return { ok: false, status: 409, message: `A category with the slug "${slug}" already exists` };
+  }
+
+  const sortOrder = input.sortOrder ?? Math.max(0, ...all.filter(category => !category.archived).map(category => category.sortOrder)) + 10;
+  const [category] = await storage.createCategories([{ ...input, slug, sortOrder }]);
+  invalidateCategories();
+  return { ok: true, category };
+}
+
+export async function updateCategory(id: number, updates: UpdateCategory): Promise<CategoryResult<{ before: Category; category: Category }>> {
+  const before = await storage.getCategoryById(id);
+  if (!before) {
+    return { ok: false, status: 404, message: "Category not found" };
+  }
+  if (updates.archived && before.slug === FALLBACK_CATEGORY) {
+    return { ok: false, status: 400, message: `"${before.label}" is where uncategorized ideas go and can't be archived` };
+  }
+
+  const category = await storage.updateCategory(id, updates);
+  if (!category) {
+    return { ok: false, status: 404, message: "Category not found" };
+  }
+  invalidateCategories();
+  return { ok: true, before, category };
+}
+
+// Only empty categories can be deleted; ones with ideas are merged or archived instead
+export async function deleteCategory(id: number): Promise<CategoryResult<{ category: Category }>> {
+  const category = await storage.getCategoryById(id);
+  if (!category) {
+    return { ok: false, status: 404, message: "Category not found" };
+  }
+  if (category.slug === FALLBACK_CATEGORY) {
+    return { ok: false, status: 400, message: `"${category.label}" is where uncategorized ideas go and can't be deleted` };
+  }
+
+  const deleted = await storage.deleteUnusedCategory(id);
+  if (!deleted) {
+    return { ok: false, status: 409, message: `"${category.label}" still has ideas; merge it into another category instead` };
+  }
+  invalidateCategories();
+  return { ok: true, category: deleted };
+}
+
+// Moves a category's ideas to another category and deletes it
+export async function mergeCategory(fromId: number, intoId: number): Promise<CategoryResult<{ from: Category; into: Category; ideasMoved: number }>> {
+  if (fromId === intoId) {
+    return { ok: false, status: 400, message: "A category can't be merged into itself" };
+  }
+  const [from, into] = await Promise.all([storage.getCategoryById(fromId), storage.getCategoryById(intoId)]);
+  if (!from || !into) {
+    return { ok: false, status: 404, message: "Category not found" };
+  }
+  if (from.slug === FALLBACK_CATEGORY) {
+    return { ok: false, status: 400, message: `"${from.label}" is where uncategorized ideas go and can't be merged away` };
+  }
+
+  const result = await storage.mergeCategories(fromId, intoId);
+  if (!result) {
+    return { ok: false, status: 409, message: "The categories changed while merging; please try again" };
+  }
+  invalidateCategories();
+  return { ok: true, from, into, ideasMoved: result.ideasMoved };
+}
+
+// Ideas from before the category table hold a slug, a label like "Marketing & Ads", "Other" or
+// nothing. Each value is rewritten to the slug of the category it names; a value that names no
+// category becomes an archived category of its own, so its ideas keep it until an admin merges
+// it somewhere. Values are only rewritten once, so this is safe to run on every start.
+export async function normalizeIdeaCategories(): Promise<void> {
+  await installDefaultCategories();
+
+  const values = await storage.getUnknownIdeaCategories();
+  if (values.length === 0) return;
+
+  const all: Category[] = await storage.getCategories();
+  let moved = 0;
+  for (const value of values) {
+    const name = value?.trim() || FALLBACK_CATEGORY;
+    let category = findCategory(all, name);
+    if (!category) {
+      const slug = slugifyTag(name) || FALLBACK_CATEGORY;
+      [category] = await storage.createCategories([{ slug, label: name.slice(0, 50), archived: true, sortOrder: 1000 }]);
+      all.push(category);
+    }
+    if (category.slug !== value) {
+      moved += await storage.recategorizeIdeas(value, category.slug);
+    }
+  }
+  invalidateCategories();
+  if (moved > 0) {
+    console.log(`Moved ${moved} ideas to normalized categories`);
+  }
+}
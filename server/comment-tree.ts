@@ -0,0 +1,105 @@
+// Builds nested comment threads from the flat list stored for an idea
+
+// Replies deeper than this are left out and the client links to the rest of the thread instead
+export const COMMENT_TREE_MAX_DEPTH = 6;
+
+// Replies included per comment before the client has to load more
+export const COMMENT_REPLIES_PAGE_SIZE = 5;
+
+interface TreeComment {
+  id: number;
+  parentId: number | null;
+}
+
+export type CommentTreeNode<T extends TreeComment> = T & {
+  depth: number; // 0 for the comments at the top of the tree being returned
+  replyCount: number; // Direct replies
+  descendantCount: number; // Replies at any depth
+  replies: CommentTreeNode<T>[];
+  moreReplies: number; // Direct replies left out of `replies`, loaded a page at a time
+  continueThread: boolean; // Has replies below the depth cap
+};
+
+export class CommentTree<T extends TreeComment> {
+  private byId = new Map<number, T>();
+  private children = new Map<number | null, T[]>();
+  private descendants = new Map<number, number>();
+
+  // Comments are expected oldest first; replies keep that order
+  constructor(comments: T[]) {
+    for (const comment of comments) {
+      this.byId.set(comment.id, comment);
+    }
+    for (const comment of comments) {
+      // Replies whose parent is gone are shown at the top level rather than dropped
+      const parentKey = comment.parentId !== null && this.byId.has(comment.parentId) ? comment.parentId : null;
+      const siblings = this.children.get(parentKey);
+      if (siblings) {
+        siblings.push(comment);
+      } else {
+        this.children.set(parentKey, [comment]);
+      }
+    }
+  }
+
+  has(id: number): boolean {
+    return this.byId.has(id);
+  }
+
+  // Depth of a comment in the full tree, counting from 0 at the top level
+  depthOf(id: number): number {
+    let depth = 0;
+    let comment = this.byId.get(id);
+    while (comment && comment.parentId !== null && this.byId.has(comment.parentId)) {
+      depth++;
+      comment = this.byId.get(comment.parentId);
+    }
+    return depth;
+  }
+
+  private descendantCount(id: number): number {
+    const cached = this.descendants.get(id);
+    if (cached !== undefined) return cached;
+    const count = (this.children.get(id) || []).reduce((total, child) => total + 1 + this.descendantCount(child.id), 0);
+    this.descendants.set(id, count);
+    return count;
+  }
+
+  private buildNode(comment: T, depth: number, maxDepth: number): CommentTreeNode<T> {
+    const children = this.children.get(comment.id) || [];
+    const atCap = depth >= maxDepth - 1;
+    const shown = atCap ? [] : children.slice(0, COMMENT_REPLIES_PAGE_SIZE);
+
+    return {
+      ...comment,
+      depth,
+      replyCount: children.length,
+      descendantCount: this.descendantCount(comment.id),
+      replies: shown.map(child => this.buildNode(child, depth + 1, maxDepth)),
+      moreReplies: atCap ? 0 : children.length - shown.length,
+      continueThread: atCap && children.length > 0,
+    };
+  }
+
+  // Top-level comments with their first pages of replies
+  roots(maxDepth = COMMENT_TREE_MAX_DEPTH): CommentTreeNode<T>[] {
+    return (this.children.get(null) || []).map(comment => this.buildNode(comment, 0, maxDepth));
+  }
+
+  // A page of a comment's direct replies. `parentDepth` is the parent's depth in the tree the
+  // client is showing (a continued thread starts again at 0), so the cap stays where it was.
+  replies(parentId: number, parentDepth: number, offset: number, limit: number): { replies: CommentTreeNode<T>[]; total: number } {
+    const children = this.children.get(parentId) || [];
+    const depth = parentDepth + 1;
+    return {
+      replies: children.slice(offset, offset + limit).map(child => this.buildNode(child, depth, COMMENT_TREE_MAX_DEPTH)),
+      total: children.length,
+    };
+  }
+
+  // A comment as the root of its own tree, for "continue this thread"
+  thread(id: number): CommentTreeNode<T> | undefined {
+    const comment = this.byId.get(id);
+    return comment && this.buildNode(comment, 0, COMMENT_TREE_MAX_DEPTH);
+  }
+}
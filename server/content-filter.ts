@@ -1,75 +1,295 @@
-// Content filtering for idea submissions and comments
+import { storage } from "./storage";
+import type { ContentFilterAction, ContentFilterTerm, InsertContentFilterTerm, ModerationStatus } from "@shared/schema";
+
+// Content filtering for ideas, comments and usernames.
+//
+// Text is normalized (Unicode compatibility forms, accents, look-alike letters from other
+// scripts, leetspeak) and split into words, and terms only match whole words, so "class",
+// "Sussex" and "die-cast" are fine while "sh1t" and "ѕhit" are not. Terms live in the
+// database and are managed from the admin panel.
+
+function blockTerms(action: ContentFilterAction, terms: string[]): InsertContentFilterTerm[] {
+  return terms.map(term => ({ term, list: 'block', action }));
+}
+
+// Installed when the term table is empty. Words that are mostly harmless in context are
+// flagged for a moderator to look at rather than blocked.
+export const DEFAULT_FILTER_TERMS: InsertContentFilterTerm[] = [
+  // Explicit content
+  ...blockTerms('block', ['porn*', 'xxx', 'nsfw', 'blowjob', 'handjob', 'masturbat*', 'orgasm*']),
+  ...blockTerms('flag', ['sex', 'sexual', 'sexy', 'nude', 'naked', 'erotic', 'horny', 'escort', 'stripper', 'prostitute', 'hooker', 'boobs', 'tits', 'penis', 'vagina', 'anal']),
+
+  // Profanity
+  ...blockTerms('block', ['fuck*', 'shit', 'shitting', 'bitch', 'bitches', 'bitching', 'asshole', 'cunt', 'whore', 'slut']),
+  ...blockTerms('review', ['cock', 'dick', 'pussy']),
+  ...blockTerms('flag', ['ass', 'piss', 'pissed', 'bastard']),
+
+  // Hate speech and slurs
+  ...blockTerms('block', ['fag', 'faggot', 'nigger', 'nigga', 'retard', 'retarded']),
+  ...blockTerms('flag', ['nazi', 'hitler']),
+
+  // Toxic/harmful content
+  ...blockTerms('block', ['kill yourself', 'kys']),
+  ...blockTerms('review', ['rape', 'pedophile', 'molest', 'terrorist', 'genocide', 'torture']),
+  ...blockTerms('flag', ['suicide', 'murder', 'bomb']),
+];
+
+// How long loaded terms are used before re-reading them, so edits made through another
+// server instance are picked up
+const TERM_CACHE_MS = 60 * 1000;
+
+// Letters from other scripts that look like Latin ones, after lowercasing
+const confusables: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ї': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd',
+  'ӏ': 'l', 'ո': 'n', 'ս': 'u', 'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k',
+  'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x', 'ı': 'i', 'ß': 'ss', 'ø': 'o',
+  'ł': 'l', 'đ': 'd', 'æ': 'ae', 'œ': 'oe',
+};
+
+const leetspeak: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b',
+  '@': 'a', '$': 's', '!': 'i', '|': 'i', '+': 't',
+};
+
+// Unicode patterns are built with RegExp because the compiler only accepts the u flag in
+// regex literals when targeting ES6.
+// Word characters, plus the symbols that stand in for letters in leetspeak:
+const wordPattern = new RegExp('[\\p{L}\\p{N}@$!|+]+', 'gu');
+const termWordPattern = new RegExp('[\\p{L}\\p{N}@$!|+]+\\*?', 'gu');
+const combiningMarkPattern = new RegExp('\\p{M}', 'gu');
+const letterPattern = new RegExp('\\p{L}', 'u');
+const camelCasePattern = new RegExp('(\\p{Ll})(\\p{Lu})', 'gu');
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC') // Full-width and stylized letters to plain ones
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(combiningMarkPattern, '') // Accents
+    .replace(/[\u200B-\u200D\u2060\uFEFF\u00AD]/g, '') // Zero-width characters and soft hyphens
+    .replace(/[^\x00-\x7f]/g, char => confusables[char] ?? char);
+}
+
+// "fuuuck" -> "fuck" and "fuuck"; runs of three or more are collapsed both ways
+function collapseRuns(word: string): string[] {
+  if (!/(.)\1\1/.test(word)) return [];
+  return [word.replace(/(.)\1{2,}/g, '$1'), word.replace(/(.)\1{2,}/g, '$1$1')];
+}
+
+interface Token {
+  text: string; // Normalized word as written
+  forms: Set<string>; // Every reading the filter checks terms against
+}
+
+function toToken(text: string): Token {
+  const forms = new Set([text]);
+  // Only decode leetspeak in words that have letters, so plain numbers stay numbers
+  if (letterPattern.test(text)) {
+    forms.add(text.replace(/[0-9@$!|+]/g, char => leetspeak[char] ?? char));
+  }
+  for (const form of Array.from(forms)) {
+    collapseRuns(form).forEach(collapsed => forms.add(collapsed));
+  }
+  return { text, forms };
+}
+
+function tokenize(text: string, { splitCamelCase = false } = {}): Token[] {
+  const source = splitCamelCase ? text.replace(camelCasePattern, '$1 $2') : text;
+  const words = (normalizeText(source).match(wordPattern) || [])
+    // "!" and "|" at the edges of a word are punctuation, not letters
+    .map(word => word.replace(/^[!|+]+|[!|+]+$/g, ''))
+    .filter(Boolean);
+
+  // Spaced-out words ("k y s") are read as one word
+  const merged: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    let j = i;
+    while (j < words.length && words[j].length === 1) j++;
+    if (j - i >= 3) {
+      merged.push(words.slice(i, j).join(''));
+      i = j - 1;
+    } else {
+      merged.push(words[i]);
+    }
+  }
+  return merged.map(toToken);
+}
+
+interface TermWord {
+  text: string;
+  prefix: boolean; // Written with a trailing *
+}
+
+interface CompiledTerm {
+  term: string;
+  action: ContentFilterAction;
+  words: TermWord[];
+}
+
+function compileTerm(term: Pick<ContentFilterTerm, 'term' | 'action'>): CompiledTerm | null {
+  const words = (normalizeText(term.term).match(termWordPattern) || []).map(word => ({
+    text: word.replace(/\*$/, ''),
+    prefix: word.endsWith('*'),
+  })).filter(word => word.text !== '');
+  if (words.length === 0) return null;
+  return { term: term.term, action: term.action as ContentFilterAction, words };
+}
+
+function wordMatches(token: Token, word: TermWord): boolean {
+  if (!word.prefix) return token.forms.has(word.text);
+  return Array.from(token.forms).some(form => form.startsWith(word.text));
+}
+
+// Start and end (exclusive) token positions of every occurrence of the term
+function findTerm(tokens: Token[], term: CompiledTerm): [number, number][] {
+  const spans: [number, number][] = [];
+  for (let i = 0; i + term.words.length <= tokens.length; i++) {
+    if (term.words.every((word, k) => wordMatches(tokens[i + k], word))) {
+      spans.push([i, i + term.words.length]);
+    }
+  }
+  return spans;
+}
+
+const actionSeverity: Record<ContentFilterAction, number> = { flag: 1, review: 2, block: 3 };
+
+export interface FilterMatch {
+  term: string;
+  action: ContentFilterAction;
+  text: string; // The words that matched, normalized
+}
+
+export interface FilterResult {
+  action: ContentFilterAction | null; // Most severe action among the matches
+  matches: FilterMatch[];
+}
+
+export interface ContentCheck {
+  isValid: boolean;
+  reason?: string;
+  isTestSubmission?: boolean;
+  moderationStatus: ModerationStatus | null; // To store with content that is let through
+  filterMatches: string[] | null;
+}
+
 export class ContentFilter {
-  private static bannedWords = [
-    // Explicit content
-    'porn', 'sex', 'nude', 'naked', 'xxx', 'adult', 'nsfw', 'erotic', 'sexy', 'sexual',
-    'masturbate', 'orgasm', 'climax', 'horny', 'blowjob', 'handjob', 'prostitute', 'escort',
-    'hooker', 'stripper', 'breast', 'boobs', 'tits', 'penis', 'vagina', 'anal', 'oral',
-    
-    // Common profanity
-    'fuck', 'fucking', 'fucked', 'fucker', 'shit', 'shitting', 'damn', 'hell', 'bitch', 
-    'bitching', 'bitches', 'ass', 'asshole', 'crap', 'piss', 'pissed', 'bastard', 'cock', 
-    'dick', 'pussy', 'cunt', 'whore', 'slut',
-    
-    // Hate speech and slurs
-    'fag', 'faggot', 'nigger', 'nigga', 'retard', 'retarded', 'nazi', 'hitler',
-    
-    // Toxic/harmful content
-    'kill yourself', 'kys', 'suicide', 'die', 'murder', 'rape', 'pedophile', 'molest',
-    'terrorist', 'bomb', 'attack', 'violence', 'genocide', 'torture', 'abuse'
-  ];
-
-  static isValidSubmission(content: string): { isValid: boolean; reason?: string; isTestSubmission?: boolean } {
-    // Check minimum length (100 characters)
-    if (content.trim().length < 100) {
-      return { isValid: false, reason: 'Minimum 100 characters required' };
+  private static blocklist: CompiledTerm[] = [];
+  private static allowlist: CompiledTerm[] = [];
+  private static loadedAt = 0;
+  private static loading: Promise<void> | null = null;
+
+  private static async load(): Promise<void> {
+    let terms = await storage.getContentFilterTerms();
+    if (terms.length === 0) {
+      await storage.addContentFilterTerms(DEFAULT_FILTER_TERMS, null);
+      terms = await storage.getContentFilterTerms();
     }
+    const compile = (list: string) => terms
+      .filter(term => term.list === list)
+      .map(compileTerm)
+      .filter((term): term is CompiledTerm => term !== null);
+    this.blocklist = compile('block');
+    this.allowlist = compile('allow');
+    this.loadedAt = Date.now();
+  }
 
-    return { isValid: true };
+  private static async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < TERM_CACHE_MS) return;
+    if (!this.loading) {
+      this.loading = this.load().finally(() => { this.loading = null; });
+    }
+    await this.loading;
   }
 
-  static validateIdea(useCase: string): { isValid: boolean; reason?: string; isTestSubmission?: boolean } {
-    return this.isValidSubmission(useCase);
+  // Called after the term lists change so the next check reads them again
+  static invalidate(): void {
+    this.loadedAt = 0;
   }
 
-  static validateComment(content: string): { isValid: boolean; reason?: string } {
-    const lowercaseContent = content.toLowerCase();
-    
-    // Check for banned words
-    for (const word of this.bannedWords) {
-      if (lowercaseContent.includes(word)) {
-        return { isValid: false, reason: 'Comment contains inappropriate content' };
+  static async check(text: string, options: { splitCamelCase?: boolean } = {}): Promise<FilterResult> {
+    await this.ensureLoaded();
+    const tokens = tokenize(text, options);
+
+    // Words covered by an allowlisted term are never matched against the blocklist
+    const allowed = new Set<number>();
+    for (const term of this.allowlist) {
+      for (const [start, end] of findTerm(tokens, term)) {
+        for (let i = start; i < end; i++) allowed.add(i);
       }
     }
 
+    const matches: FilterMatch[] = [];
+    for (const term of this.blocklist) {
+      for (const [start, end] of findTerm(tokens, term)) {
+        const span = tokens.slice(start, end);
+        if (span.some((_, k) => allowed.has(start + k))) continue;
+        matches.push({ term: term.term, action: term.action, text: span.map(token => token.text).join(' ') });
+      }
+    }
+
+    const action = matches.reduce<ContentFilterAction | null>(
+      (worst, match) => !worst || actionSeverity[match.action] > actionSeverity[worst] ? match.action : worst,
+      null
+    );
+    return { action, matches };
+  }
+
+  private static async checkContent(text: string, reason: string): Promise<ContentCheck> {
+    const result = await this.check(text);
+    if (result.action === 'block') {
+      return { isValid: false, reason, moderationStatus: null, filterMatches: null };
+    }
+    const filterMatches = result.matches.length > 0 ? Array.from(new Set(result.matches.map(match => match.term))) : null;
+    return {
+      isValid: true,
+      moderationStatus: result.action === 'review' ? 'held' : result.action === 'flag' ? 'flagged' : null,
+      filterMatches,
+    };
+  }
+
+  // Tools are tag names, or the comma-separated ideas.tools of an idea whose tags aren't changing
+  static async validateIdea(idea: { title?: string | null; description?: string | null; useCase?: string | null; tools?: string | string[] | null; topics?: string[] }): Promise<ContentCheck> {
+    // Check minimum length (100 characters)
+    if ((idea.useCase || '').trim().length < 100) {
+      return { isValid: false, reason: 'Minimum 100 characters required', moderationStatus: null, filterMatches: null };
+    }
+
+    const text = [idea.title, idea.description, idea.useCase, ...[idea.tools ?? []].flat(), ...(idea.topics ?? [])].filter(Boolean).join('\n');
+    return this.checkContent(text, 'Idea contains inappropriate content');
+  }
+
+  static async validateComment(content: string): Promise<ContentCheck> {
     // Check minimum length
     if (content.trim().length < 1) {
-      return { isValid: false, reason: 'Comment cannot be empty' };
+      return { isValid: false, reason: 'Comment cannot be empty', moderationStatus: null, filterMatches: null };
     }
 
     // Check maximum length
     if (content.trim().length > 500) {
-      return { isValid: false, reason: 'Comment is too long (max 500 characters)' };
+      return { isValid: false, reason: 'Comment is too long (max 500 characters)', moderationStatus: null, filterMatches: null };
     }
 
-    return { isValid: true };
+    return this.checkContent(content, 'Comment contains inappropriate content');
   }
 
-  static validateUsername(username: string): { isValid: boolean; reason?: string } {
-    const lowercaseUsername = username.toLowerCase();
-    
-    // Check for banned words
-    for (const word of this.bannedWords) {
-      if (lowercaseUsername.includes(word)) {
-        return { isValid: false, reason: 'Username contains inappropriate content' };
-      }
-    }
-
+  static async validateUsername(username: string): Promise<{ isValid: boolean; reason?: string }> {
     // Check format (handled by zod in schema)
     if (!/^[a-zA-Z0-9_-]+$/.test(username)) {
       return { isValid: false, reason: 'Username can only contain letters, numbers, underscores, and hyphens' };
     }
 
+    return this.validateDisplayName(username);
+  }
+
+  // Names shown on anonymous comments, which have no format rules. Names can't be held for
+  // review, so anything past a flag is rejected outright.
+  static async validateDisplayName(name: string): Promise<{ isValid: boolean; reason?: string }> {
+    const result = await this.check(name, { splitCamelCase: true });
+    if (result.action === 'block' || result.action === 'review') {
+      return { isValid: false, reason: 'Username contains inappropriate content' };
+    }
+
     return { isValid: true };
   }
-}
\ No newline at end of file
+}
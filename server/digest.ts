@@ -0,0 +1,123 @@
+import { timingSafeEqual } from "crypto";
+import { storage, type DigestIdea } from "./storage";
+import { signValue } from "./email-verification";
+import { sendTemplateEmail } from "./email";
+import { renderEmailTemplate, SITE_URL, type EmailTemplateVariables, type RenderedEmail } from "./email-templates";
+
+// Top ideas shown per category in each issue
+export const DIGEST_IDEAS_PER_CATEGORY = 3;
+
+// How often the scheduler looks for issues that are due
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface DigestPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface DigestContent {
+  period: DigestPeriod;
+  categories: { category: string; label: string; ideas: DigestIdea[] }[];
+  ideaCount: number;
+}
+
+// An issue covers the last full Monday-to-Monday week (UTC) before `now`
+export function getDigestPeriod(now: Date = new Date()): DigestPeriod {
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  end.setUTCDate(end.getUTCDate() - ((end.getUTCDay() + 6) % 7));
+  const start = new Date(end);
+  start.setUTCDate(start.getUTCDate() - 7);
+  return { start, end };
+}
+
+export function createUnsubscribeToken(email: string): string {
+  return signValue(`unsubscribe:${email.toLowerCase()}`);
+}
+
+export function verifyUnsubscribeToken(email: string, token: string): boolean {
+  const expected = Buffer.from(createUnsubscribeToken(email));
+  const supplied = Buffer.from(token);
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
+
+export async function buildDigest(period: DigestPeriod): Promise<DigestContent> {
+  const ideas = await storage.getDigestIdeas(period.start, period.end, DIGEST_IDEAS_PER_CATEGORY);
+  const categories: DigestContent['categories'] = [];
+  for (const idea of ideas) {
+    const last = categories[categories.length - 1];
+    if (last && last.category === idea.category) {
+      last.ideas.push(idea);
+    } else {
+      categories.push({ category: idea.category, label: idea.categoryLabel, ideas: [idea] });
+    }
+  }
+  return { period, categories, ideaCount: ideas.length };
+}
+
+function formatPeriod(period: DigestPeriod): string {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', timeZone: 'UTC' };
+  const lastDay = new Date(period.end.getTime() - 24 * 60 * 60 * 1000);
+  return `${period.start.toLocaleDateString('en-US', options)} – ${lastDay.toLocaleDateString('en-US', options)}`;
+}
+
+function digestTemplateVariables(digest: DigestContent, email: string): EmailTemplateVariables['weeklyDigest'] {
+  return {
+    periodLabel: formatPeriod(digest.period),
+    categories: digest.categories,
+    unsubscribeUrl: `${SITE_URL}/unsubscribe?email=${encodeURIComponent(email)}&token=${createUnsubscribeToken(email)}`,
+  };
+}
+
+export function renderDigestEmail(digest: DigestContent, email: string): RenderedEmail {
+  return renderEmailTemplate('weeklyDigest', digestTemplateVariables(digest, email));
+}
+
+// Sends an issue to every subscriber who hasn't received it yet. Returns undefined when another
+// send of the same issue is already running.
+export async function sendDigestIssue(issueId: number): Promise<{ sent: number; failed: number } | undefined> {
+  const issue = await storage.claimDigestIssue(issueId);
+  if (!issue) return undefined;
+
+  let sent = 0;
+  let failed = 0;
+  try {
+    const periodEnd = new Date(issue.periodStart.getTime() + 7 * 24 * 60 * 60 * 1000);
+    const digest = await buildDigest({ start: issue.periodStart, end: periodEnd });
+    const recipients = await storage.getDigestRecipients(issue.id);
+
+    for (const email of recipients) {
+      // Claim first so a crash mid-send can never lead to a second copy; failures are retried on the next send
+      if (!(await storage.recordDigestSend(issue.id, email))) continue;
+
+      const ok = await sendTemplateEmail(email, 'weeklyDigest', digestTemplateVariables(digest, email));
+      if (ok) {
+        sent++;
+      } else {
+        failed++;
+        await storage.markDigestSendFailed(issue.id, email);
+      }
+    }
+  } catch (error) {
+    await storage.completeDigestIssue(issue.id, sent, 'scheduled');
+    throw error;
+  }
+
+  await storage.completeDigestIssue(issue.id, sent, 'sent');
+  return { sent, failed };
+}
+
+async function sendDueDigests(): Promise<void> {
+  const due = await storage.getDueDigestIssues();
+  for (const issue of due) {
+    const result = await sendDigestIssue(issue.id);
+    if (result) {
+      console.log(`Weekly digest #${issue.id} sent to ${result.sent} subscribers (${result.failed} failed)`);
+    }
+  }
+}
+
+export function startDigestScheduler(): void {
+  setInterval(() => {
+    sendDueDigests().catch(error => console.error('Digest scheduler error:', error));
+  }, SCHEDULER_INTERVAL_MS);
+}
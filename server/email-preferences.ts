@@ -0,0 +1,15 @@
+import { storage } from "./storage";
+import type { NotificationPreferenceKey } from "@shared/schema";
+
+// Every optional email to a user goes through this check. Account emails (password reset,
+// address verification) are required for the account to work and are always sent.
+export async function canEmailUser(userId: string, preference: NotificationPreferenceKey): Promise<boolean> {
+  try {
+    const preferences = await storage.getNotificationPreferences(userId);
+    return preferences[preference];
+  } catch (error) {
+    // If preferences can't be read, err on the side of not emailing
+    console.error('Failed to read notification preferences:', error);
+    return false;
+  }
+}
@@ -0,0 +1,175 @@
+// Named email templates. Each one renders its own content; `renderEmailTemplate` wraps it in
+// the shared layout and adds the plain-text alternative.
+
+// Used for links in emails, which may be sent outside of any request
+export const SITE_URL = process.env.SITE_URL || 'https://howdoyouuseai.com';
+
+export interface DigestTemplateIdea {
+  id: number;
+  title: string;
+  description: string;
+  votes: number;
+  weekVotes: number;
+  weekComments: number;
+}
+
+export interface EmailTemplateVariables {
+  welcome: { username: string };
+  verifyEmail: { username: string; verifyUrl: string };
+  passwordReset: { resetUrl: string };
+  contactForm: { name: string; email: string; message: string };
+  weeklyDigest: {
+    periodLabel: string;
+    categories: { label: string; ideas: DigestTemplateIdea[] }[];
+    unsubscribeUrl: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateVariables;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailTemplate<V> {
+  subject: (vars: V) => string;
+  html: (vars: V) => string; // Body only; the layout adds the wrapper and footer
+  text: (vars: V) => string;
+  footer?: (vars: V) => { html: string; text: string };
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function button(url: string, label: string): string {
+  return `<p style="margin-top: 30px;">
+    <a href="${escapeHtml(url)}" style="background-color: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">${escapeHtml(label)}</a>
+  </p>`;
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.substring(0, length).trimEnd()}...` : value;
+}
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<EmailTemplateVariables[K]> } = {
+  welcome: {
+    subject: () => 'Welcome to How Do You Use AI - Account Created!',
+    html: ({ username }) => `
+      <h2 style="color: #333;">Welcome to How Do You Use AI!</h2>
+      <p>Hi ${escapeHtml(username)},</p>
+      <p>Your account has been successfully created. You can now:</p>
+      <ul>
+        <li>Submit your own AI use cases</li>
+        <li>Vote on community ideas</li>
+        <li>Comment and engage with others</li>
+        <li>Access exclusive features as they're released</li>
+      </ul>
+      <p>Start exploring amazing AI use cases from our community!</p>
+      ${button(SITE_URL, 'Visit How Do You Use AI')}
+      <p style="color: #666; font-size: 14px; margin-top: 20px;">
+        If you didn't create this account, please ignore this email.
+      </p>`,
+    text: ({ username }) =>
+      `Welcome to How Do You Use AI! Your account "${username}" has been successfully created. Start exploring amazing AI use cases from our community at ${SITE_URL}`,
+  },
+
+  verifyEmail: {
+    subject: () => 'Confirm your email address',
+    html: ({ username, verifyUrl }) => `
+      <h2 style="color: #333;">Confirm your email address</h2>
+      <p>Hi ${escapeHtml(username)}, please confirm this is your email address by clicking the button below.</p>
+      ${button(verifyUrl, 'Verify Email')}
+      <p style="color: #666; font-size: 14px; margin-top: 20px;">
+        This link expires in 3 days. If you didn't create an account, please ignore this email.
+      </p>`,
+    text: ({ verifyUrl }) => `Confirm your email address for How Do You Use AI: ${verifyUrl}`,
+  },
+
+  passwordReset: {
+    subject: () => 'Password Reset Request',
+    html: ({ resetUrl }) => `
+      <h2 style="color: #333;">Password Reset Request</h2>
+      <p>You requested a password reset. Click the button below to reset your password:</p>
+      ${button(resetUrl, 'Reset Password')}
+      <p style="color: #666; font-size: 14px; margin-top: 20px;">
+        This link expires in 1 hour and can only be used once. If you didn't request this, please ignore this email.
+      </p>`,
+    text: ({ resetUrl }) =>
+      `You requested a password reset. Reset your password here (expires in 1 hour): ${resetUrl}\n\nIf you didn't request this, please ignore this email.`,
+  },
+
+  contactForm: {
+    subject: ({ name }) => `Contact Form: Message from ${name}`,
+    html: ({ name, email, message }) => `
+      <h2 style="color: #333;">New Contact Form Message</h2>
+      <p><strong>From:</strong> ${escapeHtml(name)} (${escapeHtml(email)})</p>
+      <p><strong>Message:</strong></p>
+      <div style="background: #f5f5f5; padding: 15px; border-radius: 5px; margin: 10px 0;">
+        ${escapeHtml(message).replace(/\n/g, '<br>')}
+      </div>
+      <p style="color: #666; font-size: 14px;">
+        Reply directly to this email to respond to ${escapeHtml(name)}.
+      </p>`,
+    text: ({ name, email, message }) => `New Contact Form Message\n\nFrom: ${name} (${email})\n\nMessage:\n${message}`,
+  },
+
+  weeklyDigest: {
+    subject: ({ periodLabel }) => `This week's top AI use cases (${periodLabel})`,
+    html: ({ periodLabel, categories }) => {
+      const sections = categories.map(({ label, ideas }) => `
+        <h3 style="color: #333; margin: 24px 0 8px;">${escapeHtml(label)}</h3>
+        ${ideas.map(idea => `
+          <div style="border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px; margin-bottom: 8px;">
+            <a href="${SITE_URL}/idea/${idea.id}" style="color: #3b82f6; font-weight: bold; text-decoration: none;">${escapeHtml(idea.title)}</a>
+            <p style="color: #444; margin: 6px 0;">${escapeHtml(truncate(idea.description, 200))}</p>
+            <p style="color: #666; font-size: 13px; margin: 0;">${idea.votes} votes · +${idea.weekVotes} this week · ${idea.weekComments} new comments</p>
+          </div>`).join('')}`).join('');
+      return `
+        <h2 style="color: #333;">Top AI use cases this week</h2>
+        <p style="color: #666;">The most upvoted and discussed ideas from ${escapeHtml(periodLabel)}.</p>
+        ${sections || '<p>It was a quiet week. Check back next week for more ideas!</p>'}
+        ${button(SITE_URL, 'See all ideas')}`;
+    },
+    text: ({ periodLabel, categories }) => {
+      const sections = categories.map(({ label, ideas }) =>
+        `${label}\n${ideas.map(idea =>
+          `- ${idea.title} (${idea.votes} votes, +${idea.weekVotes} this week, ${idea.weekComments} new comments)\n  ${SITE_URL}/idea/${idea.id}`
+        ).join('\n')}`
+      ).join('\n\n');
+      return `Top AI use cases this week (${periodLabel})\n\n` +
+        `${sections || 'It was a quiet week. Check back next week for more ideas!'}\n\n` +
+        `See all ideas: ${SITE_URL}`;
+    },
+    footer: ({ unsubscribeUrl }) => ({
+      html: `You're receiving this because you subscribed to the How Do You Use AI weekly digest.
+        <a href="${escapeHtml(unsubscribeUrl)}" style="color: #666;">Unsubscribe</a>`,
+      text: `Unsubscribe: ${unsubscribeUrl}`,
+    }),
+  },
+};
+
+export function renderEmailTemplate<K extends EmailTemplateName>(name: K, vars: EmailTemplateVariables[K]): RenderedEmail {
+  const template = templates[name] as EmailTemplate<EmailTemplateVariables[K]>;
+  const footer = template.footer?.(vars);
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      ${template.html(vars)}
+      <p style="color: #999; font-size: 12px; margin-top: 30px; border-top: 1px solid #eee; padding-top: 12px;">
+        ${footer ? `${footer.html}<br>` : ''}
+        How Do You Use AI · <a href="${SITE_URL}" style="color: #999;">${SITE_URL.replace(/^https?:\/\//, '')}</a>
+      </p>
+    </div>
+  `;
+  const text = `${template.text(vars)}\n\n--\n${footer ? `${footer.text}\n` : ''}How Do You Use AI · ${SITE_URL}`;
+
+  return { subject: template.subject(vars), html, text };
+}
@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { sendTemplateEmail } from "./email";
+import { SITE_URL } from "./email-templates";
+import type { User } from "@shared/schema";
+
+// How long a verification link stays valid
+const VERIFICATION_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Minimum gap between verification emails to the same account
+export const VERIFICATION_RESEND_INTERVAL_MS = 2 * 60 * 1000;
+
+function getSigningSecret(): string {
+  return process.env.SESSION_SECRET || 'default-dev-secret-change-in-production';
+}
+
+// HMAC used for links in emails that must not be forgeable (verification, unsubscribe)
+export function signValue(payload: string): string {
+  return createHmac('sha256', getSigningSecret()).update(payload).digest('base64url');
+}
+
+// Token is `<payload>.<signature>`; the payload carries the user id, the address and an expiry,
+// so changing the account email invalidates outstanding links without storing anything
+export function createEmailVerificationToken(user: Pick<User, 'id' | 'email'>): string {
+  const payload = Buffer.from(JSON.stringify({
+    u: user.id,
+    e: user.email,
+    x: Date.now() + VERIFICATION_TTL_MS,
+  })).toString('base64url');
+  return `${payload}.${signValue(payload)}`;
+}
+
+export function verifyEmailVerificationToken(token: string): { userId: string; email: string } | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(signValue(payload));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) return null;
+
+  try {
+    const { u, e, x } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof u !== 'string' || typeof e !== 'string' || typeof x !== 'number' || x < Date.now()) {
+      return null;
+    }
+    return { userId: u, email: e };
+  } catch {
+    return null;
+  }
+}
+
+// Sends the verification link unless one went out recently. Returns false when rate limited.
+// The link points at the configured site, never at the Host header of the request behind it.
+export async function sendVerificationEmail(user: User): Promise<boolean> {
+  const claimed = await storage.claimVerificationEmailSlot(user.id, VERIFICATION_RESEND_INTERVAL_MS);
+  if (!claimed) return false;
+
+  const verifyUrl = `${SITE_URL}/verify-email?token=${createEmailVerificationToken(user)}`;
+  await sendTemplateEmail(user.email, 'verifyEmail', { username: user.username, verifyUrl });
+  return true;
+}
@@ -0,0 +1,128 @@
+import { MailService } from "@sendgrid/mail";
+import nodemailer from "nodemailer";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { renderEmailTemplate, type EmailTemplateName, type EmailTemplateVariables } from "./email-templates";
+
+// Single sender address for every email the site sends
+export const EMAIL_FROM = process.env.EMAIL_FROM || 'How Do You Use AI <noreply@howdoyouuseai.com>';
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+  private mailService = new MailService();
+
+  constructor(apiKey: string) {
+    this.mailService.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.mailService.send(message);
+  }
+}
+
+class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || '587');
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message as an .eml file so email flows can be exercised locally without a provider
+class FileTransport implements EmailTransport {
+  readonly name = 'file';
+  private composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const info = await this.composer.sendMail(message);
+    await mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.eml`);
+    await writeFile(filePath, info.message as Buffer);
+    console.log(`Email "${message.subject}" to ${message.to} written to ${filePath}`);
+  }
+}
+
+// EMAIL_TRANSPORT picks the transport explicitly; otherwise SendGrid or SMTP are used when
+// configured, falling back to .eml files outside production
+function createTransport(): EmailTransport | null {
+  const outboxDir = process.env.EMAIL_OUTBOX_DIR || path.resolve(process.cwd(), 'email-outbox');
+  const configured = process.env.EMAIL_TRANSPORT;
+
+  if (configured === 'sendgrid' || (!configured && process.env.SENDGRID_API_KEY)) {
+    if (!process.env.SENDGRID_API_KEY) {
+      console.warn("EMAIL_TRANSPORT is sendgrid but SENDGRID_API_KEY is not set - email functionality will be disabled");
+      return null;
+    }
+    return new SendGridTransport(process.env.SENDGRID_API_KEY);
+  }
+  if (configured === 'smtp' || (!configured && process.env.SMTP_HOST)) {
+    return new SmtpTransport();
+  }
+  if (configured === 'file' || (!configured && process.env.NODE_ENV !== 'production')) {
+    return new FileTransport(outboxDir);
+  }
+
+  console.warn("No email transport configured - email functionality will be disabled");
+  return null;
+}
+
+let transport: EmailTransport | null | undefined;
+
+function getTransport(): EmailTransport | null {
+  if (transport === undefined) {
+    transport = createTransport();
+  }
+  return transport;
+}
+
+// Renders a named template and sends it. Returns false (after logging) if the email could not be sent.
+export async function sendTemplateEmail<K extends EmailTemplateName>(
+  to: string,
+  template: K,
+  vars: EmailTemplateVariables[K],
+  options: { replyTo?: string } = {}
+): Promise<boolean> {
+  const activeTransport = getTransport();
+  if (!activeTransport) return false;
+
+  try {
+    await activeTransport.send({
+      to,
+      from: EMAIL_FROM,
+      replyTo: options.replyTo,
+      ...renderEmailTemplate(template, vars),
+    });
+    return true;
+  } catch (error) {
+    console.error(`Email error (${activeTransport.name}, ${template}):`, error);
+    return false;
+  }
+}
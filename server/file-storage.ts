@@ -0,0 +1,70 @@
+import express, { type RequestHandler } from "express";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+
+// Where uploaded files are served from when the driver serves them itself
+export const UPLOADS_URL_PATH = '/uploads';
+
+export interface FileStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+  // Serves stored files under UPLOADS_URL_PATH; drivers whose files have public URLs of their own leave this out
+  handler?(): RequestHandler;
+}
+
+class LocalDiskStorage implements FileStorage {
+  readonly name = 'local';
+
+  constructor(private directory: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(this.directory + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  url(key: string): string {
+    return `${UPLOADS_URL_PATH}/${key}`;
+  }
+
+  // Keys are never reused, so files can be cached for good
+  handler(): RequestHandler {
+    return express.static(this.directory, { index: false, maxAge: '365d', immutable: true });
+  }
+}
+
+// UPLOAD_STORAGE picks the driver; only local disk exists so far, with object storage to follow
+function createFileStorage(): FileStorage {
+  const configured = process.env.UPLOAD_STORAGE || 'local';
+  if (configured !== 'local') {
+    console.warn(`Unknown UPLOAD_STORAGE "${configured}" - storing uploads on local disk`);
+  }
+  return new LocalDiskStorage(path.resolve(process.env.UPLOADS_DIR || path.join(process.cwd(), 'uploads')));
+}
+
+let fileStorage: FileStorage | undefined;
+
+export function getFileStorage(): FileStorage {
+  if (!fileStorage) {
+    fileStorage = createFileStorage();
+  }
+  return fileStorage;
+}
@@ -0,0 +1,77 @@
+import { storage } from "./storage";
+import { gradeIdea, RUBRIC_VERSION } from "./ai-grader";
+
+// Attempts before an idea is marked as failed; admins can regrade it to start over
+export const MAX_GRADING_ATTEMPTS = 5;
+
+// Grading runs per idea in 24 hours after which authors can no longer request a regrade
+export const AUTHOR_REGRADES_PER_DAY = 3;
+
+// First retry after 30s, doubling each time up to an hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Long enough for a slow provider call; an idea whose lease runs out is graded again
+const GRADING_LEASE_MS = 5 * 60 * 1000;
+const GRADING_BATCH_SIZE = 10;
+
+// How often the worker looks for ideas that are due
+const WORKER_INTERVAL_MS = 30 * 1000;
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+let running = false;
+
+// Grades every idea that is due. Overlapping calls are collapsed, and the row lease keeps
+// multiple server instances from grading the same idea at once.
+async function processGradingQueue(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    while (true) {
+      const batch = await storage.claimIdeasForGrading(GRADING_BATCH_SIZE, GRADING_LEASE_MS);
+      if (batch.length === 0) break;
+
+      for (const idea of batch) {
+        try {
+          const grading = await gradeIdea({
+            title: idea.title,
+            description: idea.description,
+            useCase: idea.useCase,
+            category: idea.category,
+            tools: idea.tools,
+          });
+          await storage.recordIdeaGrade(idea.id, { ...grading, rubricVersion: RUBRIC_VERSION });
+        } catch (error) {
+          const attempts = idea.aiGradeAttempts + 1;
+          const nextAttemptAt = attempts < MAX_GRADING_ATTEMPTS
+            ? new Date(Date.now() + getRetryDelay(attempts))
+            : null;
+          console.error(`Error grading idea ${idea.id} (attempt ${attempts}/${MAX_GRADING_ATTEMPTS}):`, error);
+          await storage.recordIdeaGradeFailure(idea.id, attempts, nextAttemptAt);
+        }
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+// Runs the queue now rather than waiting for the next tick, e.g. right after a submission
+export function kickGradingQueue(): void {
+  processGradingQueue().catch(error => console.error('Grading queue error:', error));
+}
+
+// Queues ideas for (re)grading with a fresh retry budget. Omit ids to regrade every idea.
+export async function enqueueIdeaGrading(ids?: number[]): Promise<number> {
+  const queued = await storage.queueIdeasForGrading(ids);
+  if (queued > 0) kickGradingQueue();
+  return queued;
+}
+
+export function startGradingWorker(): void {
+  kickGradingQueue();
+  setInterval(kickGradingQueue, WORKER_INTERVAL_MS);
+}
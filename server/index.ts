@@ -2,6 +2,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import compression from "compression";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startDigestScheduler } from "./digest";
+import { startGradingWorker } from "./grading-queue";
+import { startUploadMaintenance } from "./uploads";
+import { migrateToolsToTags } from "./tags";
+import { normalizeIdeaCategories } from "./categories";
+import { storage } from "./storage";
 
 const app = express();
 
@@ -47,8 +53,9 @@ app.use((req, res, next) => {
   next();
 });
 
-app.use(express.json({ limit: '20mb' }));
-app.use(express.urlencoded({ extended: false, limit: '20mb' }));
+// Files go through POST /api/uploads as multipart, so request bodies stay small
+app.use(express.json({ limit: '1mb' }));
+app.use(express.urlencoded({ extended: false, limit: '1mb' }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -81,6 +88,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Vote counts are derived from the adjustment, so it has to be in place before any vote is cast
+  const seeded = await storage.seedVoteAdjustments();
+  if (seeded > 0) {
+    log(`Seeded vote adjustments for ${seeded} ideas`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -110,5 +123,17 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startDigestScheduler();
+    startGradingWorker();
+    startUploadMaintenance();
+    storage.enableTrigramMatching().catch(error => {
+      console.error("Error enabling pg_trgm:", error);
+    });
+    migrateToolsToTags().catch(error => {
+      console.error("Error converting tools to tags:", error);
+    });
+    normalizeIdeaCategories().catch(error => {
+      console.error("Error normalizing idea categories:", error);
+    });
   });
 })();
@@ -0,0 +1,332 @@
+import http from "http";
+import https from "https";
+import dns from "dns";
+import net from "net";
+import zlib from "zlib";
+import type { Readable } from "stream";
+import { storage } from "./storage";
+import { SITE_URL } from "./email-templates";
+import type { Idea, InsertLinkPreview, LinkPreview, PublicLinkPreview } from "@shared/schema";
+
+// Fetches the pages behind link posts and pulls out what a preview card needs. Fetches are
+// limited to public addresses on the standard ports, so a link can't be used to probe the
+// server's own network.
+
+const REQUEST_TIMEOUT_MS = 5000; // Per request, including connecting
+const TOTAL_TIMEOUT_MS = 10000; // Across all redirects
+const MAX_REDIRECTS = 5;
+const MAX_HTML_BYTES = 512 * 1024; // The <head> is nearly always well within this
+
+// A good preview is refreshed after a week; a failed fetch is retried after an hour
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_PREVIEW_TTL_MS = 60 * 60 * 1000;
+
+const MAX_CONCURRENT_FETCHES = 3;
+
+const USER_AGENT = `Mozilla/5.0 (compatible; HowDoYouUseAIBot/1.0; +${SITE_URL})`;
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved ranges.
+// The families are kept apart because a BlockList also matches IPv4 addresses against the
+// IPv4-mapped IPv6 range, which would block every IPv4 address.
+const blockedIPv4 = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  blockedIPv4.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped and NAT64 addresses are blocked outright rather than decoded and checked
+const blockedIPv6 = new net.BlockList();
+for (const [network, prefix] of [
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedIPv6.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  switch (net.isIP(address)) {
+    case 4: return blockedIPv4.check(address, 'ipv4');
+    case 6: return blockedIPv6.check(address, 'ipv6');
+    default: return true;
+  }
+}
+
+// Checks every address a host resolves to at connection time, so a DNS answer that changes
+// between a check and the request can't slip through
+export const guardedLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
+
+// Accepts links as submitted ("example.com/page" included) and returns the URL previews are cached under
+export function normalizeLinkUrl(linkUrl: string): string | null {
+  const trimmed = linkUrl.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+// Reasons a URL may not be fetched, or null if it may
+export function checkFetchable(url: URL): string | null {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Only http and https links are fetched';
+  if (url.port && url.port !== '80' && url.port !== '443') return 'Only the standard ports are fetched';
+  if (url.username || url.password) return 'Links with credentials are not fetched';
+  // IP literals never go through the lookup, so they're checked here
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIP(host) && isBlockedAddress(host)) return 'Private addresses are not fetched';
+  if (host === 'localhost' || host.endsWith('.localhost')) return 'Private addresses are not fetched';
+  return null;
+}
+
+interface FetchedPage {
+  url: URL; // After redirects
+  contentType: string;
+  body: Buffer | null; // Only read for HTML, and cut off at MAX_HTML_BYTES
+}
+
+function decompress(res: http.IncomingMessage): Readable {
+  switch (res.headers['content-encoding']) {
+    case 'gzip': return res.pipe(zlib.createGunzip());
+    case 'deflate': return res.pipe(zlib.createInflate());
+    case 'br': return res.pipe(zlib.createBrotliDecompress());
+    default: return res;
+  }
+}
+
+function request(url: URL, signal: AbortSignal): Promise<{ res: http.IncomingMessage; body?: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, {
+      lookup: guardedLookup,
+      timeout: REQUEST_TIMEOUT_MS,
+      signal,
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+        'Accept-Encoding': 'gzip, deflate, br',
+      },
+    }, (res) => {
+      const contentType = String(res.headers['content-type'] || '').toLowerCase();
+      const isHtml = contentType.includes('text/html') || contentType.includes('application/xhtml+xml');
+      const status = res.statusCode || 0;
+      if (status < 200 || status >= 300 || !isHtml) {
+        res.resume();
+        return resolve({ res });
+      }
+
+      const stream = decompress(res);
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let done = false;
+      const finish = () => {
+        if (done) return;
+        done = true;
+        res.destroy();
+        resolve({ res, body: Buffer.concat(chunks).subarray(0, MAX_HTML_BYTES) });
+      };
+      stream.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= MAX_HTML_BYTES) finish();
+      });
+      stream.on('end', finish);
+      stream.on('error', reject);
+    });
+    req.on('timeout', () => req.destroy(new Error('Timed out')));
+    req.on('error', reject);
+  });
+}
+
+// Every URL in the redirect chain goes through `isFetchable`; tests swap it to reach a local server
+export async function fetchPage(start: URL, isFetchable = checkFetchable): Promise<FetchedPage> {
+  const signal = AbortSignal.timeout(TOTAL_TIMEOUT_MS);
+  let url = start;
+  for (let redirects = 0; ; redirects++) {
+    const problem = isFetchable(url);
+    if (problem) throw new Error(problem);
+
+    const { res, body } = await request(url, signal);
+    const status = res.statusCode || 0;
+    const location = res.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects');
+      url = new URL(location, url);
+      continue;
+    }
+    if (status < 200 || status >= 300) throw new Error(`HTTP ${status}`);
+    return { url, contentType: String(res.headers['content-type'] || ''), body: body || null };
+  }
+}
+
+function decodeHtml(body: Buffer, contentType: string): string {
+  const declared = /charset=["']?([\w-]+)/i.exec(contentType)?.[1]
+    || /<meta[^>]+charset=["']?([\w-]+)/i.exec(body.toString('latin1', 0, 2048))?.[1];
+  try {
+    return new TextDecoder(declared || 'utf-8').decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanText(text: string | undefined, maxLength: number): string | null {
+  if (!text) return null;
+  const cleaned = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  if (!cleaned) return null;
+  return cleaned.length > maxLength ? `${cleaned.slice(0, maxLength - 1).trimEnd()}…` : cleaned;
+}
+
+function resolveUrl(href: string | undefined, base: URL): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(decodeEntities(href.trim()), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-z][a-z0-9:_-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+type PreviewFields = Pick<PublicLinkPreview, 'title' | 'description' | 'siteName' | 'faviconUrl' | 'imageUrl'>;
+
+// Open Graph tags first, then Twitter cards, then plain HTML
+export function parsePreview(html: string, pageUrl: URL): PreviewFields {
+  const meta: Record<string, string> = {};
+  for (const tag of html.match(/<meta\s[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  let favicon: string | undefined;
+  for (const tag of html.match(/<link\s[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag);
+    const rel = (attributes.rel || '').toLowerCase().split(/\s+/);
+    if (rel.includes('icon')) {
+      favicon = attributes.href;
+      break;
+    }
+    if (!favicon && rel.includes('apple-touch-icon')) {
+      favicon = attributes.href;
+    }
+  }
+
+  const titleTag = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  return {
+    title: cleanText(meta['og:title'] || meta['twitter:title'] || titleTag, 300),
+    description: cleanText(meta['og:description'] || meta['twitter:description'] || meta['description'], 500),
+    siteName: cleanText(meta['og:site_name'], 100) || pageUrl.hostname.replace(/^www\./, ''),
+    faviconUrl: resolveUrl(favicon, pageUrl) || `${pageUrl.origin}/favicon.ico`,
+    imageUrl: resolveUrl(meta['og:image:secure_url'] || meta['og:image'] || meta['og:image:url'] || meta['twitter:image'] || meta['twitter:image:src'], pageUrl),
+  };
+}
+
+// Fetches a link and caches what was found, or why it couldn't be fetched
+export async function unfurlLink(linkUrl: string): Promise<LinkPreview | null> {
+  const url = normalizeLinkUrl(linkUrl);
+  if (!url) return null;
+
+  let preview: InsertLinkPreview;
+  try {
+    const page = await fetchPage(new URL(url));
+    const fields: PreviewFields = page.body
+      ? parsePreview(decodeHtml(page.body, page.contentType), page.url)
+      // Not a web page (a PDF, an image...): the site is all there is to show
+      : { title: null, description: null, siteName: page.url.hostname.replace(/^www\./, ''), faviconUrl: `${page.url.origin}/favicon.ico`, imageUrl: null };
+    preview = { url, finalUrl: page.url.href, status: 'ok', error: null, ...fields, fetchedAt: new Date() };
+  } catch (error: any) {
+    preview = {
+      url, finalUrl: null, status: 'failed', error: String(error?.message || error).slice(0, 500),
+      title: null, description: null, siteName: null, faviconUrl: null, imageUrl: null, fetchedAt: new Date(),
+    };
+  }
+  return await storage.saveLinkPreview(preview);
+}
+
+const queued = new Set<string>();
+const waiting: string[] = [];
+let active = 0;
+
+function runQueue(): void {
+  while (active < MAX_CONCURRENT_FETCHES && waiting.length > 0) {
+    const url = waiting.shift()!;
+    active++;
+    unfurlLink(url)
+      .catch(error => console.error(`Error unfurling ${url}:`, error))
+      .finally(() => {
+        active--;
+        queued.delete(url);
+        runQueue();
+      });
+  }
+}
+
+// Unfurls a link in the background; a link already waiting or being fetched isn't queued twice
+export function queueLinkPreview(linkUrl: string | null | undefined): void {
+  const url = linkUrl && normalizeLinkUrl(linkUrl);
+  if (!url || queued.has(url)) return;
+  queued.add(url);
+  waiting.push(url);
+  runQueue();
+}
+
+function isStale(preview: LinkPreview): boolean {
+  const ttl = preview.status === 'ok' ? PREVIEW_TTL_MS : FAILED_PREVIEW_TTL_MS;
+  return Date.now() - preview.fetchedAt.getTime() > ttl;
+}
+
+// Adds each link post's cached preview (null until one has been fetched). Missing and
+// out-of-date previews are queued, so link posts from before unfurling existed catch up too.
+export async function withLinkPreviews<T extends Pick<Idea, 'postType' | 'linkUrl'>>(ideas: T[]): Promise<(T & { linkPreview: PublicLinkPreview | null })[]> {
+  const urls = ideas.map(idea => idea.postType === 'link' && idea.linkUrl ? normalizeLinkUrl(idea.linkUrl) : null);
+  const previews = await storage.getLinkPreviews(Array.from(new Set(urls.filter((url): url is string => !!url))));
+  const byUrl = new Map(previews.map(preview => [preview.url, preview]));
+
+  return ideas.map((idea, index) => {
+    const url = urls[index];
+    const preview = url ? byUrl.get(url) : undefined;
+    if (url && (!preview || isStale(preview))) {
+      queueLinkPreview(url);
+    }
+    return {
+      ...idea,
+      linkPreview: preview && preview.status === 'ok'
+        ? { url: preview.url, finalUrl: preview.finalUrl, title: preview.title, description: preview.description, siteName: preview.siteName, faviconUrl: preview.faviconUrl, imageUrl: preview.imageUrl }
+        : null,
+    };
+  });
+}
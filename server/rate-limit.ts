@@ -0,0 +1,255 @@
+import type { NextFunction, Request, RequestHandler } from "express";
+import { storage, type RateLimitBucketState } from "./storage";
+
+// Token bucket rate limiting. Each bucket holds up to `capacity` tokens and regains one every
+// `refill` ms; a request takes a token and is rejected with 429 when none are left.
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+// Postgres buckets untouched for this long are full again under every limit below, so deleting them changes nothing
+const STALE_BUCKET_MS = 24 * HOUR;
+const CLEANUP_INTERVAL_MS = 10 * MINUTE;
+
+export interface RateLimitStore {
+  readonly name: string;
+  update(key: string, update: (bucket: RateLimitBucketState | undefined) => RateLimitBucketState): Promise<RateLimitBucketState>;
+  deleteStale(before: Date): Promise<number>;
+}
+
+// Per-process buckets; limits are not shared between server instances
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, RateLimitBucketState>();
+
+  async update(key: string, update: (bucket: RateLimitBucketState | undefined) => RateLimitBucketState): Promise<RateLimitBucketState> {
+    const next = update(this.buckets.get(key));
+    this.buckets.set(key, next);
+    return next;
+  }
+
+  async deleteStale(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, bucket] of Array.from(this.buckets.entries())) {
+      if (bucket.updatedAt < before) {
+        this.buckets.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+// Buckets in the rate_limit_buckets table, shared by every server instance
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  update(key: string, update: (bucket: RateLimitBucketState | undefined) => RateLimitBucketState): Promise<RateLimitBucketState> {
+    return storage.updateRateLimitBucket(key, update);
+  }
+
+  deleteStale(before: Date): Promise<number> {
+    return storage.deleteStaleRateLimitBuckets(before);
+  }
+}
+
+// RATE_LIMIT_STORE picks the store explicitly; otherwise production uses Postgres so limits
+// hold across instances, and development keeps them in memory
+function createStore(): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE;
+  if (configured === 'postgres' || (!configured && process.env.NODE_ENV === 'production')) {
+    return new PostgresRateLimitStore();
+  }
+  if (configured && configured !== 'memory') {
+    console.warn(`Unknown RATE_LIMIT_STORE "${configured}" - using the in-memory store`);
+  }
+  return new MemoryRateLimitStore();
+}
+
+let defaultStore: RateLimitStore | undefined;
+
+function getDefaultStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore = createStore();
+    setInterval(() => {
+      defaultStore!.deleteStale(new Date(Date.now() - STALE_BUCKET_MS)).catch(error => {
+        console.error("Error deleting stale rate limit buckets:", error);
+      });
+    }, CLEANUP_INTERVAL_MS).unref();
+  }
+  return defaultStore;
+}
+
+// 'user' is the signed-in account, 'session' the anonymous x-session-id header, 'ip' the client address
+export type RateLimitKeyPart = 'user' | 'session' | 'ip';
+
+// A list of parts is tried in order and the first one the request has is used, so
+// ['user', 'session', 'ip'] counts signed-in users per account and everyone else per session
+export type RateLimitKey = RateLimitKeyPart | RateLimitKeyPart[] | ((req: Request) => string | null | undefined);
+
+export interface RateLimitOptions {
+  name: string; // Namespaces the buckets, so limits sharing a key don't share tokens
+  key: RateLimitKey;
+  capacity: number; // Requests allowed in a burst
+  refill: number; // Milliseconds to regain one request
+  message?: string;
+  store?: RateLimitStore;
+}
+
+function getKeyPart(req: Request, part: RateLimitKeyPart): string | null {
+  switch (part) {
+    case 'user': {
+      const user = req.isAuthenticated?.() ? (req.user as any) : null;
+      const userId = user?.id ?? user?.claims?.sub;
+      return userId ? String(userId) : null;
+    }
+    case 'session': {
+      const sessionId = req.headers['x-session-id'];
+      return typeof sessionId === 'string' && sessionId ? sessionId : null;
+    }
+    case 'ip':
+      // req.ip honours "trust proxy", unlike the raw X-Forwarded-For header a client can set itself
+      return req.ip || req.socket?.remoteAddress || null;
+  }
+}
+
+// The bucket key for a request, or null when it has none of the parts (the request isn't limited)
+function getBucketKey(req: Request, name: string, key: RateLimitKey): string | null {
+  if (typeof key === 'function') {
+    const value = key(req);
+    return value ? `${name}:custom:${value}` : null;
+  }
+  for (const part of Array.isArray(key) ? key : [key]) {
+    const value = getKeyPart(req, part);
+    if (value) return `${name}:${part}:${value}`;
+  }
+  return null;
+}
+
+// Refills the bucket for the time since it was last used, then takes a token if there is one
+function takeToken(bucket: RateLimitBucketState | undefined, capacity: number, refill: number, now: Date): { state: RateLimitBucketState; allowed: boolean } {
+  const elapsed = bucket ? Math.max(0, now.getTime() - bucket.updatedAt.getTime()) : 0;
+  const tokens = bucket ? Math.min(capacity, bucket.tokens + elapsed / refill) : capacity;
+  const allowed = tokens >= 1;
+  return { state: { tokens: allowed ? tokens - 1 : tokens, updatedAt: now }, allowed };
+}
+
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  const { name, key, capacity, refill, message = "Too many requests, please try again later" } = options;
+
+  return async (req, res, next) => {
+    const bucketKey = getBucketKey(req, name, key);
+    if (!bucketKey) return next();
+
+    let allowed = true;
+    let tokens: number;
+    try {
+      const store = options.store || getDefaultStore();
+      const state = await store.update(bucketKey, (bucket) => {
+        const result = takeToken(bucket, capacity, refill, new Date());
+        allowed = result.allowed;
+        return result.state;
+      });
+      tokens = state.tokens;
+    } catch (error) {
+      // A broken store shouldn't take the site down with it
+      console.error(`Rate limit store error for ${name}:`, error);
+      return next();
+    }
+
+    // Seconds until the bucket is full again, and until the next request would be let through
+    const resetSeconds = Math.ceil(((capacity - tokens) * refill) / SECOND);
+    const retryAfterSeconds = Math.max(1, Math.ceil(((1 - tokens) * refill) / SECOND));
+
+    // With several limits on a route the headers describe the one closest to running out
+    const reported = res.getHeader('RateLimit-Remaining');
+    if (reported === undefined || Math.floor(tokens) <= Number(reported)) {
+      res.setHeader('RateLimit-Policy', `${capacity};w=${Math.ceil((capacity * refill) / SECOND)}`);
+      res.setHeader('RateLimit-Limit', capacity);
+      res.setHeader('RateLimit-Remaining', Math.floor(tokens));
+      res.setHeader('RateLimit-Reset', resetSeconds);
+    }
+
+    if (!allowed) {
+      res.setHeader('Retry-After', retryAfterSeconds);
+      return res.status(429).json({ message, retryAfter: retryAfterSeconds });
+    }
+    next();
+  };
+}
+
+// Applies several limits in turn; the request goes through only if every one of them allows it
+function combineLimits(...limits: RequestHandler[]): RequestHandler {
+  return (req, res, next) => {
+    const run = (index: number): NextFunction => (error?: any) => {
+      if (error || index === limits.length) return next(error);
+      limits[index](req, res, run(index + 1));
+    };
+    run(0)();
+  };
+}
+
+// Limits applied across the API, so every route's policy is visible in one place. Routes with
+// both an identity and an IP limit keep one person to the first while the looser second still
+// lets several people behind a shared address through.
+export const rateLimits = {
+  ideaVote: combineLimits(
+    rateLimit({ name: 'idea-vote', key: ['user', 'session', 'ip'], capacity: 1, refill: 5 * SECOND, message: "Please actually read the ideas you're upvoting. :)" }),
+    // Anonymous voters pick their own session id, so this is what holds when they rotate it
+    rateLimit({ name: 'idea-vote-ip', key: 'ip', capacity: 5, refill: 5 * SECOND, message: "Please actually read the ideas you're upvoting. :)" }),
+  ),
+  commentVote: combineLimits(
+    rateLimit({ name: 'comment-vote', key: ['user', 'session', 'ip'], capacity: 1, refill: 2 * SECOND, message: "Please wait 2 seconds before voting again" }),
+    rateLimit({ name: 'comment-vote-ip', key: 'ip', capacity: 1, refill: 2 * SECOND, message: "Please wait 2 seconds before voting again" }),
+  ),
+  ideaSubmit: combineLimits(
+    rateLimit({ name: 'idea-submit', key: ['user', 'session', 'ip'], capacity: 5, refill: 10 * MINUTE, message: "You're submitting ideas too quickly. Please try again later." }),
+    rateLimit({ name: 'idea-submit-ip', key: 'ip', capacity: 20, refill: 3 * MINUTE, message: "You're submitting ideas too quickly. Please try again later." }),
+  ),
+  // Compares the text against every idea, so it's limited like the submissions it comes before
+  similarCheck: combineLimits(
+    rateLimit({ name: 'similar-check', key: ['user', 'session', 'ip'], capacity: 10, refill: MINUTE, message: "You're checking ideas too quickly. Please try again later." }),
+    rateLimit({ name: 'similar-check-ip', key: 'ip', capacity: 30, refill: 20 * SECOND, message: "You're checking ideas too quickly. Please try again later." }),
+  ),
+  upload: combineLimits(
+    rateLimit({ name: 'upload', key: ['user', 'session', 'ip'], capacity: 10, refill: 2 * MINUTE, message: "You're uploading too quickly. Please try again later." }),
+    // Each upload is held in memory while it's checked, so rotating session ids mustn't get around this
+    rateLimit({ name: 'upload-ip', key: 'ip', capacity: 20, refill: MINUTE, message: "You're uploading too quickly. Please try again later." }),
+  ),
+  comment: combineLimits(
+    rateLimit({ name: 'comment', key: ['user', 'session', 'ip'], capacity: 5, refill: 20 * SECOND, message: "You're commenting too quickly. Please wait a moment." }),
+    rateLimit({ name: 'comment-ip', key: 'ip', capacity: 30, refill: 5 * SECOND, message: "You're commenting too quickly. Please wait a moment." }),
+  ),
+  signup: combineLimits(
+    rateLimit({ name: 'signup', key: 'ip', capacity: 5, refill: 12 * MINUTE, message: "Too many sign-ups from this address. Please try again later." }),
+  ),
+  login: combineLimits(
+    rateLimit({ name: 'login', key: 'ip', capacity: 10, refill: MINUTE, message: "Too many login attempts. Please try again later." }),
+    // Slows password guessing against one account from many addresses
+    rateLimit({
+      name: 'login-account',
+      key: (req) => typeof req.body?.username === 'string' ? req.body.username.trim().toLowerCase() : null,
+      capacity: 10,
+      refill: 5 * MINUTE,
+      message: "Too many login attempts. Please try again later.",
+    }),
+  ),
+  // Each request emails the address asked about, so every inbox has a limit of its own as well as every sender
+  passwordReset: combineLimits(
+    rateLimit({ name: 'password-reset', key: 'ip', capacity: 5, refill: 12 * MINUTE, message: "Too many password reset requests. Please try again later." }),
+    rateLimit({
+      name: 'password-reset-email',
+      key: (req) => typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : null,
+      capacity: 3,
+      refill: 20 * MINUTE,
+      message: "Too many password reset requests. Please try again later.",
+    }),
+  ),
+  contact: combineLimits(
+    rateLimit({ name: 'contact', key: 'ip', capacity: 3, refill: 20 * MINUTE, message: "Too many messages. Please try again later." }),
+  ),
+  subscribe: combineLimits(
+    rateLimit({ name: 'subscribe', key: 'ip', capacity: 5, refill: 10 * MINUTE, message: "Too many subscription attempts. Please try again later." }),
+  ),
+};
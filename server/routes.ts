@@ -1,17 +1,33 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertIdeaSchema, insertSubscriptionSchema, insertUserSessionSchema, insertVoteSchema, insertCommentSchema, userSessions, votes, ideas, users } from "@shared/schema";
-import { setupAuth, isAuthenticated } from "./auth";
+import { storage, decodeIdeaCursor, type IdeaCursor, type TopWindow, type VoterIdentity, type CommentAuthor } from "./storage";
+import { insertIdeaSchema, insertSubscriptionSchema, insertUserSessionSchema, insertVoteSchema, insertCommentSchema, insertContentFilterTermSchema, contentFilterActions, insertCategorySchema, updateCategorySchema, updateNotificationPreferencesSchema, updateOwnIdeaSchema, tagKinds, userSessions, votes, ideas, users, userRoles, type Comment, type Idea, type Vote, type ContentFilterAction, type PublicCategory } from "@shared/schema";
+import { setupAuth, isAuthenticated, requireRole, hasRole, promoteBootstrapAdmin } from "./auth";
 import { db } from "./db";
 import { nanoid } from "nanoid";
 import { count, countDistinct, eq, and, sql } from "drizzle-orm";
 import { ContentFilter } from "./content-filter";
 import { googleSheetsService } from "./google-sheets";
-
-
-
-// Admin IPs to exclude from metrics (but allow unlimited voting)
+import { assessVote } from "./vote-fraud";
+import { sendVerificationEmail, verifyEmailVerificationToken } from "./email-verification";
+import { canEmailUser } from "./email-preferences";
+import { sendTemplateEmail } from "./email";
+import { SITE_URL } from "./email-templates";
+import { clusterSimilar, DUPLICATE_SIMILARITY_THRESHOLD } from "./similarity";
+import { CommentTree, COMMENT_REPLIES_PAGE_SIZE } from "./comment-tree";
+import { AUTHOR_REGRADES_PER_DAY, enqueueIdeaGrading, kickGradingQueue } from "./grading-queue";
+import { rateLimits } from "./rate-limit";
+import { getFileStorage, UPLOADS_URL_PATH } from "./file-storage";
+import { queueLinkPreview, withLinkPreviews } from "./link-preview";
+import { createCategory, deleteCategory, getCategories, mergeCategory, parseCategoryFilter, resolveIdeaCategory, updateCategory } from "./categories";
+import { addTagAlias, cleanTagName, formatToolNames, installDefaultTags, mergeTag, parseTagFilter, resolveIdeaTags, setIdeaTags, toPublicTag, withTags } from "./tags";
+import { getIdeaMedia, isUploadOwner, processUpload, receiveUpload, toPublicUpload } from "./uploads";
+import { buildDigest, getDigestPeriod, renderDigestEmail, sendDigestIssue, verifyUnsubscribeToken } from "./digest";
+
+
+
+// Team IPs excluded from metrics and vote fraud scoring. Not used for access control:
+// admin routes check the logged-in user's role instead.
 const ADMIN_IPS = [
   "47.161.63.29",           // Original admin IP
   "104.28.50.131",          // Additional whitelisted IP
@@ -25,6 +41,15 @@ const ADMIN_IPS = [
   "47.187.81.160"           // Browser IP
 ];
 
+// Where contact form messages are delivered
+const CONTACT_EMAIL = 'chris@cofounders.com';
+
+// How long an emailed password reset link stays valid
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// How long after posting a comment its author can still edit it
+const COMMENT_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
 function getClientIP(req: any): string {
   const ip = req.headers['x-forwarded-for']?.split(',')[0]?.trim() || 
          req.connection?.remoteAddress || 
@@ -35,6 +60,99 @@ function getClientIP(req: any): string {
   return ip;
 }
 
+// Logged-in users are identified by their local account id or their Replit OAuth subject
+function getRequestUserId(req: any): string | null {
+  if (req.isAuthenticated?.() && req.user) {
+    if (req.user.id) return req.user.id.toString();
+    if (req.user.claims?.sub) return req.user.claims.sub;
+  }
+  return null;
+}
+
+function getVoter(req: any, sessionId: string): VoterIdentity {
+  return { sessionId, userId: getRequestUserId(req) };
+}
+
+// Signed-in comments belong to the account, anonymous ones to the session that posted them
+function isCommentAuthor(req: any, comment: Comment): boolean {
+  if (comment.userId) return comment.userId === getRequestUserId(req);
+  const sessionId = req.headers['x-session-id'];
+  return !!sessionId && comment.sessionId === sessionId;
+}
+
+// Session ids prove authorship of anonymous comments, so they never leave the server. Filter
+// matches are only for moderators, and the author is cut down to what the comment shows.
+function toPublicComment<T extends Comment & { user?: CommentAuthor | null }>(req: any, comment: T) {
+  const { sessionId, filterMatches, user, ...publicComment } = comment;
+  const isOwner = isCommentAuthor(req, comment);
+  return {
+    ...publicComment,
+    ...(user !== undefined && { user: user && { id: user.id, username: user.username, emailVerifiedAt: user.emailVerifiedAt } }),
+    isOwner,
+    canEdit: isOwner && Date.now() - comment.createdAt.getTime() < COMMENT_EDIT_WINDOW_MS
+  };
+}
+
+// An idea's comments as the caller may see them: held comments only show to their author
+async function getVisibleComments(req: any, ideaId: number) {
+  const comments = await storage.getCommentsByIdeaId(ideaId);
+  return comments
+    .filter(comment => comment.moderationStatus !== 'held' || isCommentAuthor(req, comment))
+    .map(comment => toPublicComment(req, comment));
+}
+
+// Ideas held by the content filter are only visible to their author and staff
+function canViewIdea(req: any, idea: Idea): boolean {
+  if (idea.moderationStatus !== 'held') return true;
+  if (req.user && hasRole(req.user, 'moderator')) return true;
+  if (idea.userId) return idea.userId === getRequestUserId(req);
+  const sessionId = req.headers['x-session-id'];
+  return !!sessionId && idea.sessionId === sessionId;
+}
+
+// A comment looked up by id, unless it's on an idea the caller can't see
+async function getCommentOnVisibleIdea(req: any, commentId: number): Promise<Comment | undefined> {
+  const comment = await storage.getCommentById(commentId);
+  if (!comment) return undefined;
+  const idea = await storage.getIdeaById(comment.ideaId);
+  return idea && canViewIdea(req, idea) ? comment : undefined;
+}
+
+// Map of ideaId -> 'up' | 'down' for the caller; retracted votes are left out
+function buildVoteMap(userVotes: Vote[]): Record<number, string> {
+  return userVotes.reduce((acc, vote) => {
+    if (vote.voteType !== 'none') acc[vote.ideaId] = vote.voteType;
+    return acc;
+  }, {} as Record<number, string>);
+}
+
+interface AuditEvent {
+  action: string; // e.g. 'idea.update', 'comment.delete', 'paywall.toggle'
+  targetType: 'idea' | 'comment' | 'vote' | 'user' | 'tag' | 'category' | 'setting' | 'digest' | 'system';
+  targetId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Record admin actions in the audit log. A logging failure is reported but never fails
+// the request, since the action itself has already been applied by then.
+async function recordAudit(req: any, events: AuditEvent | AuditEvent[]): Promise<void> {
+  try {
+    await storage.createAuditLogEntries((Array.isArray(events) ? events : [events]).map(event => ({
+      actorId: req.user?.id?.toString() ?? null,
+      actorUsername: req.user?.username ?? null,
+      action: event.action,
+      targetType: event.targetType,
+      targetId: event.targetId != null ? String(event.targetId) : null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      ipAddress: getClientIP(req),
+    })));
+  } catch (error) {
+    console.error("Failed to write audit log:", error);
+  }
+}
+
 function isAdminIP(ip: string): boolean {
   const isAdmin = ADMIN_IPS.includes(ip);
   console.log('IP check:', ip, 'Is admin:', isAdmin, 'Admin IPs:', ADMIN_IPS);
@@ -45,6 +163,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
+  // Every admin endpoint needs at least a moderator; admin-only ones add requireRole("admin")
+  app.use("/api/admin", requireRole("moderator"));
+
   // Initialize paywall as disabled by default
   (global as any).paywallEnabled = false;
 
@@ -61,7 +182,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Register new user
-  app.post('/api/auth/register', async (req, res) => {
+  app.post('/api/auth/register', rateLimits.signup, async (req, res) => {
     try {
       const { username, email, password } = req.body;
       
@@ -69,6 +190,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Username, email, and password are required" });
       }
 
+      // Validate username format and profanity
+      const usernameValidation = await ContentFilter.validateUsername(username);
+      if (!usernameValidation.isValid) {
+        return res.status(400).json({ message: usernameValidation.reason });
+      }
+
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(email);
       if (existingUser) {
@@ -86,6 +213,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Create user
       const user = await storage.createUser({ username, email, passwordHash });
+
+      try {
+        await sendVerificationEmail(user);
+      } catch (error) {
+        console.error('Verification email error:', error);
+      }
       
       // Auto-login the user by creating a session
       (req.session as any).userId = user.id;
@@ -103,7 +236,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Forgot password
-  app.post('/api/auth/forgot-password', async (req, res) => {
+  app.post('/api/auth/forgot-password', rateLimits.passwordReset, async (req, res) => {
     try {
       const { email } = req.body;
       
@@ -117,30 +250,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ message: "If an account with this email exists, a password reset link has been sent" });
       }
 
-      // Generate reset token (implement token storage if needed)
+      // Email the raw token, store only its hash so a database leak can't be used to reset passwords
       const crypto = await import('crypto');
       const resetToken = crypto.randomBytes(32).toString('hex');
-      
-      // In a real app, you'd store this token with expiration
-      // For now, we'll just send the email
-      
-      // Send reset email using SendGrid if configured
-      if (process.env.SENDGRID_API_KEY) {
-        const { sendEmail } = require('./sendgrid');
-        const resetUrl = `${req.protocol}://${req.hostname}/reset-password?token=${resetToken}`;
-        
-        await sendEmail(process.env.SENDGRID_API_KEY, {
-          to: email,
-          from: 'noreply@yourdomain.com', // Replace with your verified sender
-          subject: 'Password Reset Request',
-          html: `
-            <h2>Password Reset Request</h2>
-            <p>You requested a password reset. Click the link below to reset your password:</p>
-            <a href="${resetUrl}">Reset Password</a>
-            <p>If you didn't request this, please ignore this email.</p>
-          `
-        });
-      }
+      const tokenHash = crypto.createHash('sha256').update(resetToken).digest('hex');
+      await storage.createPasswordResetToken(user.id, tokenHash, new Date(Date.now() + PASSWORD_RESET_TTL_MS));
+
+      // Account email: always sent, regardless of notification preferences. The link uses the
+      // configured site address, never the request's Host header, which the requester controls.
+      const resetUrl = `${SITE_URL}/reset-password?token=${resetToken}`;
+      await sendTemplateEmail(email, 'passwordReset', { resetUrl });
 
       res.json({ message: "If an account with this email exists, a password reset link has been sent" });
     } catch (error) {
@@ -149,8 +268,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/auth/reset-password', async (req, res) => {
+    try {
+      const { token, password } = req.body;
+
+      if (typeof token !== 'string' || !token || typeof password !== 'string') {
+        return res.status(400).json({ message: "Token and new password are required" });
+      }
+
+      if (password.length < 6) {
+        return res.status(400).json({ message: "Password must be at least 6 characters" });
+      }
+
+      const crypto = await import('crypto');
+      const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
+      const bcrypt = await import('bcryptjs');
+      const passwordHash = await bcrypt.hash(password, 10);
+
+      // Marks the token used and signs the account out of every existing session
+      const user = await storage.resetPasswordWithToken(tokenHash, passwordHash);
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      res.json({ message: "Your password has been reset. Please log in with your new password." });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  app.get('/api/auth/verify-email', async (req, res) => {
+    try {
+      const token = typeof req.query.token === 'string' ? req.query.token : '';
+      const claims = token ? verifyEmailVerificationToken(token) : null;
+      if (!claims) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      const verified = await storage.markEmailVerified(claims.userId, claims.email);
+      if (!verified) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+      const user = await promoteBootstrapAdmin(verified);
+
+      // Auto-subscribe confirmed addresses to the email list unless they've turned off the digest
+      try {
+        if (await canEmailUser(user.id, 'emailDigest') && !(await storage.getSubscriptionByEmail(user.email))) {
+          await storage.createSubscription({ email: user.email });
+        }
+      } catch (error) {
+        // Don't fail verification if subscription fails
+        console.log('Failed to auto-subscribe user:', error);
+      }
+
+      res.json({ message: "Your email address has been verified", email: user.email });
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  app.post('/api/auth/resend-verification', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Your email address is already verified" });
+      }
+
+      const sent = await sendVerificationEmail(user);
+      if (!sent) {
+        return res.status(429).json({ message: "A verification email was sent recently. Please wait a couple of minutes before trying again." });
+      }
+
+      res.json({ message: `Verification email sent to ${user.email}` });
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
   // Signup endpoint for notification system
-  app.post('/api/auth/signup', async (req, res) => {
+  app.post('/api/auth/signup', rateLimits.signup, async (req, res) => {
     try {
       const { username, email, password } = req.body;
 
@@ -160,7 +362,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate username format and profanity
-      const usernameValidation = ContentFilter.validateUsername(username);
+      const usernameValidation = await ContentFilter.validateUsername(username);
       if (!usernameValidation.isValid) {
         return res.status(400).json({ message: usernameValidation.reason });
       }
@@ -207,45 +409,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error('Failed to log user registration to CSV:', error);
       }
 
-      // Auto-subscribe to email list
+      // The newsletter subscription is created once the address is verified
       try {
-        await storage.createSubscription({ email });
+        await sendVerificationEmail(user);
       } catch (error) {
-        // Don't fail signup if subscription fails
-        console.log('Failed to auto-subscribe user:', error);
+        // Don't fail signup if the verification email can't be sent
+        console.error('Verification email error:', error);
       }
 
       // Send welcome email notification
       try {
-        const { sendEmail } = await import('./sendgrid');
-        if (process.env.SENDGRID_API_KEY) {
-          const emailSent = await sendEmail(process.env.SENDGRID_API_KEY, {
-            to: email,
-            from: 'noreply@howdoyouuseai.com',
-            subject: 'Welcome to How Do You Use AI - Account Created!',
-            html: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                <h2 style="color: #333;">Welcome to How Do You Use AI!</h2>
-                <p>Hi ${username},</p>
-                <p>Your account has been successfully created. You can now:</p>
-                <ul>
-                  <li>Submit your own AI use cases</li>
-                  <li>Vote on community ideas</li>
-                  <li>Comment and engage with others</li>
-                  <li>Access exclusive features as they're released</li>
-                </ul>
-                <p>Start exploring amazing AI use cases from our community!</p>
-                <p style="margin-top: 30px;">
-                  <a href="https://howdoyouuseai.com" style="background-color: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Visit How Do You Use AI</a>
-                </p>
-                <p style="color: #666; font-size: 14px; margin-top: 20px;">
-                  If you didn't create this account, please ignore this email.
-                </p>
-              </div>
-            `,
-            text: `Welcome to How Do You Use AI! Your account "${username}" has been successfully created. Start exploring amazing AI use cases from our community at https://howdoyouuseai.com`
-          });
-          
+        if (await canEmailUser(user.id, 'newFeatures')) {
+          const emailSent = await sendTemplateEmail(email, 'welcome', { username });
           if (!emailSent) {
             console.error('Failed to send welcome email to:', email);
           }
@@ -268,28 +443,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin authentication endpoint
-  app.post("/api/admin/auth", async (req, res) => {
-    try {
-      const { password } = req.body;
-      if (password === 'xxx') {
-        res.json({ success: true, token: 'admin-authenticated' });
-      } else {
-        res.status(401).json({ message: "Invalid password" });
-      }
-    } catch (error) {
-      res.status(500).json({ message: "Authentication failed" });
-    }
-  });
-
   // Download user registrations CSV (admin only)
-  app.get("/api/admin/download-users-csv", async (req, res) => {
+  app.get("/api/admin/download-users-csv", requireRole("admin"), async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const { csvLogger } = await import('./csv-logger');
       const csvPath = csvLogger.getCSVPath();
       
@@ -299,6 +455,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No user registration data found" });
       }
 
+      await recordAudit(req, { action: 'data.download_users_csv', targetType: 'system' });
+
       // Set headers for file download
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', 'attachment; filename="user_registrations.csv"');
@@ -313,7 +471,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Contact form endpoint
-  app.post("/api/contact", async (req, res) => {
+  app.post("/api/contact", rateLimits.contact, async (req, res) => {
     try {
       const { name, email, message } = req.body;
       
@@ -321,33 +479,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "All fields are required" });
       }
 
-      // Send email using SendGrid
+      // Send email to the site owner; replies go straight to the sender
       try {
-        const { sendEmail } = await import('./sendgrid');
-        if (process.env.SENDGRID_API_KEY) {
-          const emailSent = await sendEmail(process.env.SENDGRID_API_KEY, {
-            to: 'chris@cofounders.com',
-            from: 'noreply@howdoyouuseai.com',
-            subject: `Contact Form: Message from ${name}`,
-            html: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                <h2 style="color: #333;">New Contact Form Message</h2>
-                <p><strong>From:</strong> ${name} (${email})</p>
-                <p><strong>Message:</strong></p>
-                <div style="background: #f5f5f5; padding: 15px; border-radius: 5px; margin: 10px 0;">
-                  ${message.replace(/\n/g, '<br>')}
-                </div>
-                <p style="color: #666; font-size: 14px;">
-                  Reply directly to this email to respond to ${name}.
-                </p>
-              </div>
-            `,
-            text: `New Contact Form Message\n\nFrom: ${name} (${email})\n\nMessage:\n${message}`
-          });
-          
-          if (!emailSent) {
-            console.error('Failed to send contact email');
-          }
+        const emailSent = await sendTemplateEmail(CONTACT_EMAIL, 'contactForm', { name, email, message }, { replyTo: email });
+        if (!emailSent) {
+          console.error('Failed to send contact email');
         }
       } catch (emailError) {
         console.error('Contact email error:', emailError);
@@ -407,8 +543,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Uploaded media, when the file storage driver serves it from this app
+  const fileStorage = getFileStorage();
+  if (fileStorage.handler) {
+    app.use(UPLOADS_URL_PATH, fileStorage.handler(), (_req, res) => {
+      res.status(404).json({ message: "File not found" });
+    });
+  }
+
+  // Upload an image or video for a media post; the idea is then submitted with the upload's id
+  app.post("/api/uploads", rateLimits.upload, async (req, res) => {
+    try {
+      const sessionId = (req.headers['x-session-id'] as string) || null;
+      const userId = getRequestUserId(req);
+      if (!userId && !sessionId) {
+        return res.status(401).json({ message: "Session ID required" });
+      }
+
+      const received = await receiveUpload(req, res);
+      if (!received.ok) {
+        return res.status(received.status).json({ message: received.message });
+      }
+
+      const result = await processUpload(received.data, { sessionId, userId });
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.status(201).json(toPublicUpload(result.upload));
+    } catch (error) {
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file" });
+    }
+  });
+
   // Submit an idea
-  app.post("/api/ideas", async (req, res) => {
+  app.post("/api/ideas", rateLimits.ideaSubmit, async (req, res) => {
     try {
       const sessionId = req.headers['x-session-id'] as string;
       let userId = null;
@@ -441,18 +610,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Apply content filter
-      const contentValidation = ContentFilter.validateIdea(result.data.useCase);
+      const contentValidation = await ContentFilter.validateIdea(result.data);
       if (!contentValidation.isValid) {
         return res.status(400).json({ message: contentValidation.reason || "Invalid content" });
       }
 
+      const categoryResult = await resolveIdeaCategory(result.data.category);
+      if (!categoryResult.ok) {
+        return res.status(categoryResult.status).json({ message: categoryResult.message });
+      }
+
+      // Media posts point at an upload made by the same person that no other idea uses yet
+      const { mediaUploadId, tools, topics, ...submission } = result.data;
+      let media = null;
+      if (submission.postType === 'media') {
+        if (!mediaUploadId) {
+          return res.status(400).json({ message: "Media upload is required for media posts" });
+        }
+        const upload = await storage.getUpload(mediaUploadId);
+        if (!upload || !isUploadOwner(upload, { sessionId: sessionId || null, userId })) {
+          return res.status(400).json({ message: "Upload not found" });
+        }
+        if (await storage.getIdeaByMediaUploadId(upload.id)) {
+          return res.status(409).json({ message: "This upload is already attached to an idea" });
+        }
+        media = getIdeaMedia(upload);
+      }
+
+      // Resolved up front so the idea is stored with its tool names before the grader can pick it up
+      const tags = await resolveIdeaTags(null, { tools: tools ?? [], topics: topics ?? [] });
+
       // Add sessionId and userId to the idea data
       const ideaData = { 
-        ...result.data, 
+        ...submission, 
+        ...media,
+        category: categoryResult.category.slug,
+        tools: formatToolNames(tags),
+        moderationStatus: contentValidation.moderationStatus,
+        filterMatches: contentValidation.filterMatches,
         sessionId: !userId ? (sessionId || null) : null, // Only store sessionId for anonymous ideas
         userId 
       };
       const idea = await storage.createIdea(ideaData);
+      await storage.setIdeaTags(idea.id, tags.map(tag => tag.id));
+      // New ideas are queued for AI grading; grade it now rather than on the worker's next tick
+      kickGradingQueue();
+      if (idea.postType === 'link') {
+        queueLinkPreview(idea.linkUrl);
+      }
       
       // Update session for anonymous users
       if (!userId && sessionId) {
@@ -471,14 +676,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }, 10000);
       }
       
-      res.json(idea);
+      res.json({ ...idea, tags });
     } catch (error) {
       console.error("Error creating idea:", error);
       res.status(500).json({ message: "Failed to create idea" });
     }
   });
 
-  // Get all ideas (only if user has submitted or has shared access)
+  // Get a page of ideas (only if user has submitted or has shared access)
   app.get("/api/ideas", async (req, res) => {
     try {
       const sessionId = req.headers['x-session-id'] as string;
@@ -488,28 +693,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Session ID required" });
       }
 
+      const sortBy = (['votes', 'recent', 'comments', 'hot', 'top'] as const).find(sort => sort === req.query.sort) || 'votes';
+      // Time window only applies to the "top" sort
+      const window: TopWindow = (['day', 'week', 'month', 'year', 'all'] as const).find(w => w === req.query.window) || 'week';
+      const category = await parseCategoryFilter(req.query.category);
+      const tagFilter = await parseTagFilter(req.query);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 50);
+
+      let cursor: IdeaCursor | null = null;
+      if (req.query.cursor) {
+        cursor = decodeIdeaCursor(req.query.cursor as string, sortBy, window);
+        if (!cursor) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+      }
+
+      // Add cache-busting headers to ensure fresh data
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
       // Check if user has shared access bypass
       if (sharedAccess === 'true') {
-        const sortBy = req.query.sort as 'votes' | 'recent' || 'votes';
-        const category = req.query.category as string;
-        const tool = req.query.tool as string;
-        const ideas = await storage.getIdeas(sortBy, category, tool);
+        const { ideas, nextCursor } = await storage.getIdeas(sortBy, category, tagFilter, { cursor, limit, window });
         
         // For shared access, no recently submitted ideas (since it's not their session)
-        const ideasWithFlags = ideas.map(idea => ({
+        const ideasWithFlags = (await withLinkPreviews(await withTags(ideas))).map(idea => ({
           ...idea,
           userVote: null,
           isRecentlySubmitted: false
         }));
         
-        // Add cache-busting headers to ensure fresh data
-        res.set({
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        });
-        
-        return res.json(ideasWithFlags);
+        return res.json({ ideas: ideasWithFlags, nextCursor });
       }
 
       // Check paywall setting (default to false - DISABLED)
@@ -521,43 +738,213 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Must submit an idea first" });
       }
 
-      const sortBy = req.query.sort as 'votes' | 'recent' || 'votes';
-      const category = req.query.category as string;
-      const tool = req.query.tool as string;
-      const ideas = await storage.getIdeas(sortBy, category, tool);
+      const { ideas, nextCursor } = await storage.getIdeas(sortBy, category, tagFilter, { cursor, limit, window });
       
       // Get user's votes
-      const userVotes = await storage.getAllVotesBySession(sessionId);
-      const voteMap = userVotes.reduce((acc, vote) => {
-        acc[vote.ideaId] = vote.voteType;
-        return acc;
-      }, {} as Record<number, string>);
+      const voteMap = buildVoteMap(await storage.getVotesByVoter(getVoter(req, sessionId)));
 
       // Check for recently submitted idea by this session (within last 30 seconds)
       const recentlySubmittedIdea = await storage.getRecentlySubmittedIdea(sessionId);
 
-      const ideasWithVotes = ideas.map(idea => ({
+      // Pin the submitter's fresh idea to the first page even if its sort position is further down
+      if (!cursor && recentlySubmittedIdea && !ideas.some(idea => idea.id === recentlySubmittedIdea.id)) {
+        ideas.unshift({ ...recentlySubmittedIdea, commentCount: 0 });
+      }
+
+      const ideasWithVotes = (await withLinkPreviews(await withTags(ideas))).map(idea => ({
         ...idea,
         userVote: voteMap[idea.id] || null,
-        isRecentlySubmitted: recentlySubmittedIdea?.id === idea.id,
-        commentCount: (idea as any).commentCount || 0
+        isRecentlySubmitted: recentlySubmittedIdea?.id === idea.id
       }));
       
-      // Add cache-busting headers to ensure fresh data
+      res.json({ ideas: ideasWithVotes, nextCursor });
+    } catch (error) {
+      console.error("Error getting ideas:", error);
+      res.status(500).json({ message: "Failed to get ideas" });
+    }
+  });
+
+  // Categories for the submission form, feed filter and idea cards. Archived ones are included
+  // so their ideas still show a label; pickers leave them out.
+  app.get("/api/categories", async (req, res) => {
+    try {
+      const categories = await getCategories();
+      res.set('Cache-Control', 'public, max-age=60');
+      res.json(categories.map(({ createdAt, ideaCount, ...category }): PublicCategory => category));
+    } catch (error) {
+      console.error("Error getting categories:", error);
+      res.status(500).json({ message: "Failed to get categories" });
+    }
+  });
+
+  // Tag autocomplete: tags starting with ?q= (or the most used without it), optionally only ?kind=tool|topic
+  app.get("/api/tags", async (req, res) => {
+    try {
+      const prefix = typeof req.query.q === 'string' ? req.query.q.trim().slice(0, 40) : '';
+      const kind = tagKinds.find(k => k === req.query.kind);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+
+      await installDefaultTags();
+      const tags = await storage.searchTags(prefix, { kind, limit });
+      res.set('Cache-Control', 'public, max-age=60');
+      res.json(tags.map(tag => ({ ...toPublicTag(tag), ideaCount: tag.ideaCount })));
+    } catch (error) {
+      console.error("Error searching tags:", error);
+      res.status(500).json({ message: "Failed to search tags" });
+    }
+  });
+
+  // Full-text search over ideas (must be registered before /api/ideas/:id)
+  app.get("/api/ideas/search", async (req, res) => {
+    try {
+      const sessionId = req.headers['x-session-id'] as string;
+      const sharedAccess = req.headers['x-shared-access'] as string;
+
+      if (!sessionId) {
+        return res.status(401).json({ message: "Session ID required" });
+      }
+
+      // Same access rules as the feed
+      const paywallEnabled = (global as any).paywallEnabled === true;
+      if (paywallEnabled && sharedAccess !== 'true') {
+        const session = await storage.getUserSession(sessionId);
+        if (!session || !session.hasSubmitted) {
+          return res.status(403).json({ message: "Must submit an idea first" });
+        }
+      }
+
+      const query = ((req.query.q as string) || '').trim();
+      if (!query) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+      if (query.length > 200) {
+        return res.status(400).json({ message: "Search query is too long" });
+      }
+
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 20, 1), 50);
+      const category = await parseCategoryFilter(req.query.category);
+      const tagFilter = await parseTagFilter(req.query);
+
+      const { ideas, total } = await storage.searchIdeas(query, {
+        category,
+        tagFilter,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+
+      const voteMap = buildVoteMap(await storage.getVotesByVoter(getVoter(req, sessionId)));
+
       res.set({
         'Cache-Control': 'no-cache, no-store, must-revalidate',
         'Pragma': 'no-cache',
         'Expires': '0'
       });
-      
-      res.json(ideasWithVotes);
+
+      res.json({
+        results: (await withLinkPreviews(await withTags(ideas))).map(idea => ({
+          ...idea,
+          userVote: voteMap[idea.id] || null,
+          isRecentlySubmitted: false
+        })),
+        total,
+        page,
+        pageSize,
+        hasMore: page * pageSize < total
+      });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get ideas" });
+      console.error("Error searching ideas:", error);
+      res.status(500).json({ message: "Failed to search ideas" });
+    }
+  });
+
+  // Existing ideas that look like a submission in progress, so the form can warn before posting
+  app.post("/api/ideas/similar", rateLimits.similarCheck, async (req, res) => {
+    try {
+      if (!req.headers['x-session-id']) {
+        return res.status(401).json({ message: "Session ID required" });
+      }
+
+      const text = typeof req.body?.useCase === 'string' ? req.body.useCase.trim() : '';
+      if (!text) {
+        return res.status(400).json({ message: "Use case text is required" });
+      }
+      if (text.length > 10000) {
+        return res.status(400).json({ message: "Use case text is too long" });
+      }
+
+      const matches = await storage.findSimilarIdeas(text, DUPLICATE_SIMILARITY_THRESHOLD, 3);
+
+      // Just enough to point at the matches; their text stays behind the feed's access rules
+      res.json({
+        matches: matches.map(match => ({
+          id: match.id,
+          title: match.title,
+          similarity: Math.round(match.similarity * 100) / 100
+        }))
+      });
+    } catch (error) {
+      console.error("Error finding similar ideas:", error);
+      res.status(500).json({ message: "Failed to check for similar ideas" });
+    }
+  });
+
+  // Links to ideas that were merged into another one as duplicates
+  app.get("/idea/:id", async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const redirectTo = isNaN(id) ? undefined : await storage.getIdeaRedirect(id);
+      if (redirectTo) {
+        return res.redirect(301, `/idea/${redirectTo}`);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get a single idea (public so shared links work without submitting first)
+  app.get("/api/ideas/:id", async (req, res) => {
+    try {
+      const ideaId = parseInt(req.params.id);
+      if (isNaN(ideaId)) {
+        return res.status(400).json({ message: "Invalid idea ID" });
+      }
+
+      const idea = await storage.getIdeaById(ideaId);
+      if (!idea) {
+        // Merged duplicates answer with the canonical idea's id so the client can follow it
+        const redirectTo = await storage.getIdeaRedirect(ideaId);
+        return res.status(404).json({ message: "Idea not found", ...(redirectTo && { redirectTo }) });
+      }
+      if (!canViewIdea(req, idea)) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      const sessionId = req.headers['x-session-id'] as string;
+      const userVote = sessionId ? await storage.getUserVoteForIdea(getVoter(req, sessionId), ideaId) : undefined;
+      const commentCount = await storage.getCommentCountByIdeaId(ideaId);
+
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const [ideaWithPreview] = await withLinkPreviews(await withTags([idea]));
+      res.json({
+        ...ideaWithPreview,
+        userVote: userVote && userVote.voteType !== 'none' ? userVote.voteType : null,
+        commentCount: Number(commentCount) || 0
+      });
+    } catch (error) {
+      console.error("Error getting idea:", error);
+      res.status(500).json({ message: "Failed to get idea" });
     }
   });
 
   // Vote on an idea
-  app.post("/api/ideas/:id/vote", async (req, res) => {
+  app.post("/api/ideas/:id/vote", rateLimits.ideaVote, async (req, res) => {
     try {
       const sessionId = req.headers['x-session-id'] as string;
       if (!sessionId) {
@@ -572,14 +959,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const ideaId = parseInt(req.params.id);
-      const { voteType } = req.body; // 'up' or 'down'
+      const { voteType } = req.body; // 'up', 'down' or 'none' to retract
 
-      if (!['up', 'down'].includes(voteType)) {
+      if (!['up', 'down', 'none'].includes(voteType)) {
         return res.status(400).json({ message: "Invalid vote type" });
       }
 
       const idea = await storage.getIdeaById(ideaId);
-      if (!idea) {
+      if (!idea || !canViewIdea(req, idea)) {
         return res.status(404).json({ message: "Idea not found" });
       }
 
@@ -590,65 +977,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Get client IP address for tracking only
-      const clientIp = req.ip || req.connection.remoteAddress || req.headers['x-forwarded-for'] || 'unknown';
+      // req.ip honours "trust proxy", unlike the raw X-Forwarded-For header a client can set itself
+      const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
       
-      // Rate limiting: Check if user is voting too quickly (5 second minimum between votes)
-      const recentVotes = await storage.getRecentVotesBySession(sessionId, 5000); // 5 seconds
-      if (recentVotes.length > 0) {
-        const lastVoteTime = new Date(recentVotes[0].createdAt).getTime();
-        const currentTime = Date.now();
-        const timeDiff = currentTime - lastVoteTime;
-        
-        if (timeDiff < 5000) { // Less than 5 seconds
-          return res.status(429).json({ 
-            message: "Please actually read the ideas you're upvoting. :)",
-            remainingTime: Math.ceil((5000 - timeDiff) / 1000)
-          });
+      // One vote per user (or anonymous session) per idea; casting again changes or retracts it
+      const result = await storage.castVote(getVoter(req, sessionId), ideaId, voteType, clientIp);
+
+      // Score the vote for fraud review; a scoring failure must not fail the vote itself.
+      // Team votes are exempt by the stored address, the same way the fraud scan skips them.
+      if (result.vote && voteType !== 'none' && !isAdminIP(result.vote.ipAddress)) {
+        try {
+          await assessVote(result.vote);
+        } catch (error) {
+          console.error("Error scoring vote for fraud:", error);
         }
       }
-      
-      // Check if user already voted with this session
-      const existingVote = await storage.getUserVoteForIdea(sessionId, ideaId);
-      
-      if (existingVote) {
-        // Always allow additional votes without removing existing ones
-        await storage.createVote({ sessionId: sessionId + '-' + Date.now(), ideaId, voteType, ipAddress: clientIp as string });
-        const voteChange = voteType === 'up' ? 1 : -1;
-        const newVotes = idea.votes + voteChange;
-        await storage.updateIdeaVotes(ideaId, newVotes);
-        return res.json({ votes: newVotes, userVote: voteType });
-      } else {
-        // New vote - always allow
-        await storage.createVote({ sessionId, ideaId, voteType, ipAddress: clientIp as string });
-        const voteChange = voteType === 'up' ? 1 : -1;
-        const newVotes = idea.votes + voteChange;
-        await storage.updateIdeaVotes(ideaId, newVotes);
+
+      // Reward system: Give bonus upvotes for upvoting others' ideas.
+      // Only a first-ever upvote counts, so retracting and re-voting earns nothing.
+      if (voteType === 'up' && result.previousVote === null) {
+        await storage.incrementUpvotesGiven(sessionId);
         
-        // Reward system: Give bonus upvotes for upvoting others' ideas
-        if (voteType === 'up') {
-          await storage.incrementUpvotesGiven(sessionId);
-          
-          // Check if user earned a reward (every 3 upvotes given)
-          const userSession = await storage.getUserSession(sessionId);
-          if (userSession && userSession.upvotesGiven > 0 && userSession.upvotesGiven % 3 === 0) {
-            // Award 1 bonus upvote to one of their ideas
-            const userIdeas = await storage.getUserIdeasBySession(sessionId);
-            if (userIdeas.length > 0) {
-              // Pick the idea with the lowest votes to boost
-              const ideaToBoost = userIdeas.reduce((lowest, current) => 
-                current.votes < lowest.votes ? current : lowest
-              );
-              
-              const boostedVotes = ideaToBoost.votes + 1;
-              await storage.updateIdeaVotes(ideaToBoost.id, boostedVotes);
-            }
+        // Check if user earned a reward (every 3 upvotes given)
+        const userSession = await storage.getUserSession(sessionId);
+        if (userSession && userSession.upvotesGiven > 0 && userSession.upvotesGiven % 3 === 0) {
+          // Award 1 bonus upvote to one of their ideas
+          const userIdeas = await storage.getUserIdeasBySession(sessionId);
+          if (userIdeas.length > 0) {
+            // Pick the idea with the lowest votes to boost
+            const ideaToBoost = userIdeas.reduce((lowest, current) => 
+              current.votes < lowest.votes ? current : lowest
+            );
+            
+            await storage.adjustIdeaVotes(ideaToBoost.id, 1);
           }
         }
-        
-        return res.json({ votes: newVotes, userVote: voteType });
       }
+
+      res.json({ votes: result.votes, userVote: result.userVote === 'none' ? null : result.userVote });
     } catch (error) {
+      console.error("Error voting:", error);
       res.status(500).json({ message: "Failed to vote" });
     }
   });
@@ -657,33 +1025,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/ideas/:id/comments", async (req, res) => {
     try {
       const ideaId = parseInt(req.params.id);
-      const comments = await storage.getCommentsByIdeaId(ideaId);
-      
-      // Transform comments to include reply counts and organize by hierarchy
-      const commentsWithReplies = comments.map(comment => ({
-        ...comment,
-        replyCount: comments.filter(c => c.parentId === comment.id).length,
-        replies: comments.filter(c => c.parentId === comment.id)
-      }));
-      
-      // Return only top-level comments (parentId is null)
-      const topLevelComments = commentsWithReplies.filter(comment => !comment.parentId);
-      
-      res.json(topLevelComments);
+      const idea = await storage.getIdeaById(ideaId);
+      if (idea && !canViewIdea(req, idea)) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+      const comments = await getVisibleComments(req, ideaId);
+
+      // Top-level comments, each with the first page of its replies down to the depth cap
+      res.json(new CommentTree(comments).roots());
     } catch (error) {
       console.error('Get comments error:', error);
       res.status(500).json({ message: "Failed to fetch comments" });
     }
   });
 
-  // Get comment count for an idea
-  app.get("/api/ideas/:id/comments/count", async (req, res) => {
+  // Further pages of a comment's replies, as subtrees
+  app.get("/api/comments/:id/replies", async (req, res) => {
     try {
-      const ideaId = parseInt(req.params.id);
-      const count = await storage.getCommentCountByIdeaId(ideaId);
-      res.json(count);
-    } catch (error) {
-      console.error('Get comment count error:', error);
+      const commentId = parseInt(req.params.id);
+      if (isNaN(commentId)) {
+        return res.status(400).json({ message: "Invalid comment ID" });
+      }
+
+      const comment = await getCommentOnVisibleIdea(req, commentId);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || COMMENT_REPLIES_PAGE_SIZE, 1), 50);
+      const comments = await getVisibleComments(req, comment.ideaId);
+      const tree = new CommentTree(comments);
+      // Held comments the caller didn't write aren't in the tree
+      if (!tree.has(commentId)) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      // Depth of the parent in the view the client is showing; continued threads restart at 0
+      const parentDepth = req.query.depth !== undefined
+        ? Math.max(parseInt(req.query.depth as string) || 0, 0)
+        : tree.depthOf(commentId);
+
+      const { replies, total } = tree.replies(commentId, parentDepth, offset, limit);
+      res.json({ replies, total, hasMore: offset + replies.length < total });
+    } catch (error) {
+      console.error('Get comment replies error:', error);
+      res.status(500).json({ message: "Failed to fetch replies" });
+    }
+  });
+
+  // A comment and its replies as a tree of their own, for threads cut off by the depth cap
+  app.get("/api/comments/:id/thread", async (req, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      if (isNaN(commentId)) {
+        return res.status(400).json({ message: "Invalid comment ID" });
+      }
+
+      const comment = await getCommentOnVisibleIdea(req, commentId);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const comments = await getVisibleComments(req, comment.ideaId);
+      const thread = new CommentTree(comments).thread(commentId);
+      if (!thread) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      res.json(thread);
+    } catch (error) {
+      console.error('Get comment thread error:', error);
+      res.status(500).json({ message: "Failed to fetch thread" });
+    }
+  });
+
+  // Get comment count for an idea
+  app.get("/api/ideas/:id/comments/count", async (req, res) => {
+    try {
+      const ideaId = parseInt(req.params.id);
+      const count = await storage.getCommentCountByIdeaId(ideaId);
+      res.json(count);
+    } catch (error) {
+      console.error('Get comment count error:', error);
       res.status(500).json({ message: "Failed to fetch comment count" });
     }
   });
@@ -700,7 +1122,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ideas/:id/comments", async (req: any, res) => {
+  app.post("/api/ideas/:id/comments", rateLimits.comment, async (req: any, res) => {
     try {
       const ideaId = parseInt(req.params.id);
       let userId = null;
@@ -730,18 +1152,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Filter comment content
-      const contentValidation = ContentFilter.validateComment(result.data.content);
+      const contentValidation = await ContentFilter.validateComment(result.data.content);
       if (!contentValidation.isValid) {
         return res.status(400).json({ message: contentValidation.reason });
       }
 
-      const comment = await storage.createComment(result.data);
+      const comment = await storage.createComment({
+        ...result.data,
+        moderationStatus: contentValidation.moderationStatus,
+        filterMatches: contentValidation.filterMatches
+      });
       
       // Return comment with user data
       const commentWithUser = await storage.getCommentsByIdeaId(ideaId);
       const newComment = commentWithUser.find(c => c.id === comment.id);
       
-      res.json(newComment);
+      res.json(newComment && toPublicComment(req, newComment));
     } catch (error) {
       console.error('Create comment error:', error);
       res.status(500).json({ message: "Failed to create comment" });
@@ -749,15 +1175,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reply to comment endpoint
-  app.post("/api/comments/:parentId/replies", async (req: any, res) => {
+  app.post("/api/comments/:parentId/replies", rateLimits.comment, async (req: any, res) => {
     try {
       const parentId = parseInt(req.params.parentId);
-      let userId = null;
-      
-      // Check if user is authenticated
-      if (req.isAuthenticated() && req.user?.claims?.sub) {
-        userId = req.user.claims.sub;
-      }
+      const userId = getRequestUserId(req);
+      const sessionId = req.headers['x-session-id'];
 
       // Get parent comment to find the ideaId
       const parentComment = await storage.getCommentById?.(parentId);
@@ -769,6 +1191,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         ideaId: parentComment.ideaId,
         userId,
+        sessionId: !userId ? sessionId : null, // Only store sessionId for anonymous replies
         parentId
       });
       
@@ -777,20 +1200,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Filter comment content
-      const contentValidation = ContentFilter.validateComment(result.data.content);
+      const contentValidation = await ContentFilter.validateComment(result.data.content);
       if (!contentValidation.isValid) {
         return res.status(400).json({ message: contentValidation.reason });
       }
 
-      const reply = await storage.createComment(result.data);
+      const reply = await storage.createComment({
+        ...result.data,
+        moderationStatus: contentValidation.moderationStatus,
+        filterMatches: contentValidation.filterMatches
+      });
       
       // Return the reply with updated parent comment data
       const updatedComments = await storage.getCommentsByIdeaId(parentComment.ideaId);
       const parentWithReplies = updatedComments.find(c => c.id === parentId);
       
       res.json({
-        ...reply,
-        parentUpdated: parentWithReplies
+        ...toPublicComment(req, reply),
+        parentUpdated: parentWithReplies && toPublicComment(req, parentWithReplies)
       });
     } catch (error) {
       console.error('Create reply error:', error);
@@ -798,11 +1225,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update comment username for anonymous comments
+  // Authors can edit their comment for a short while after posting; earlier versions are kept
+  app.patch("/api/comments/:id", async (req: any, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      if (isNaN(commentId)) {
+        return res.status(400).json({ message: "Invalid comment ID" });
+      }
+
+      const { content } = req.body;
+      if (typeof content !== 'string') {
+        return res.status(400).json({ message: "Comment content is required" });
+      }
+
+      const comment = await storage.getCommentById(commentId);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!isCommentAuthor(req, comment)) {
+        return res.status(403).json({ message: "You can only edit your own comments" });
+      }
+      if (Date.now() - comment.createdAt.getTime() > COMMENT_EDIT_WINDOW_MS) {
+        return res.status(403).json({ message: "Comments can only be edited within 15 minutes of posting" });
+      }
+
+      const contentValidation = await ContentFilter.validateComment(content);
+      if (!contentValidation.isValid) {
+        return res.status(400).json({ message: contentValidation.reason });
+      }
+
+      // The edited text is filtered afresh, so it can be held, flagged or cleared
+      const updated = await storage.editComment(commentId, content, {
+        moderationStatus: contentValidation.moderationStatus,
+        filterMatches: contentValidation.filterMatches
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      res.json(toPublicComment(req, updated));
+    } catch (error) {
+      console.error('Edit comment error:', error);
+      res.status(500).json({ message: "Failed to edit comment" });
+    }
+  });
+
+  // Earlier versions of an edited comment, oldest first. Held comments and held versions are
+  // only shown to the author and staff, the same as the comments themselves.
+  app.get("/api/comments/:id/revisions", async (req, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      if (isNaN(commentId)) {
+        return res.status(400).json({ message: "Invalid comment ID" });
+      }
+
+      const comment = await getCommentOnVisibleIdea(req, commentId);
+      const canSeeHeld = !!comment && (isCommentAuthor(req, comment) || (!!req.user && hasRole(req.user, 'moderator')));
+      if (!comment || (comment.moderationStatus === 'held' && !canSeeHeld)) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const revisions = await storage.getCommentRevisions(commentId);
+      res.json(canSeeHeld ? revisions : revisions.filter(revision => revision.moderationStatus !== 'held'));
+    } catch (error) {
+      console.error('Get comment revisions error:', error);
+      res.status(500).json({ message: "Failed to fetch comment history" });
+    }
+  });
+
+  // Update comment username for anonymous comments; only the session that posted it may
   app.patch("/api/comments/:id/username", async (req, res) => {
     try {
       const commentId = parseInt(req.params.id);
-      const { username, sessionId } = req.body;
+      const { username } = req.body;
+      const sessionId = req.headers['x-session-id'] as string;
       
       if (!sessionId) {
         return res.status(400).json({ message: "Session ID required" });
@@ -811,6 +1306,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!username || username.trim().length < 2) {
         return res.status(400).json({ message: "Valid username required" });
       }
+
+      const usernameValidation = await ContentFilter.validateDisplayName(username.trim());
+      if (!usernameValidation.isValid) {
+        return res.status(400).json({ message: usernameValidation.reason });
+      }
       
       await storage.updateCommentUsername(commentId, sessionId, username.trim());
       res.json({ message: "Username updated" });
@@ -833,15 +1333,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin comment management endpoints
-  app.get("/api/admin/comments", async (req, res) => {
+  // Admin endpoints to manage moderator and admin accounts
+  app.get("/api/admin/staff", requireRole("admin"), async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
+      const staff = await storage.getStaffUsers();
+      res.json(staff.map(user => ({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role
+      })));
+    } catch (error) {
+      console.error('Get staff error:', error);
+      res.status(500).json({ message: "Failed to fetch staff" });
+    }
+  });
+
+  app.put("/api/admin/users/role", requireRole("admin"), async (req: any, res) => {
+    try {
+      const { email, role } = req.body;
+      if (!userRoles.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
       }
 
+      const user = typeof email === 'string' ? await storage.getUserByEmail(email.trim()) : undefined;
+      if (!user) {
+        return res.status(404).json({ message: "No account found with that email" });
+      }
+
+      // Keep at least one way back in: admins cannot demote themselves
+      if (user.id === req.user.id && role !== 'admin') {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+
+      const updatedUser = await storage.updateUserRole(user.id, role);
+      await recordAudit(req, {
+        action: 'user.role_change',
+        targetType: 'user',
+        targetId: user.id,
+        before: { role: user.role },
+        after: { role }
+      });
+      res.json({
+        id: updatedUser!.id,
+        username: updatedUser!.username,
+        email: updatedUser!.email,
+        role: updatedUser!.role
+      });
+    } catch (error) {
+      console.error('Update role error:', error);
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  // Admin audit log, newest first, filterable by action, actor and target
+  app.get("/api/admin/audit-log", requireRole("admin"), async (req, res) => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 50, 1), 200);
+      const filters = {
+        action: (req.query.action as string) || undefined,
+        actor: (req.query.actor as string)?.trim() || undefined,
+        targetType: (req.query.targetType as string) || undefined,
+        targetId: (req.query.targetId as string)?.trim() || undefined,
+      };
+
+      const [{ entries, total }, actions] = await Promise.all([
+        storage.getAuditLog({ ...filters, limit: pageSize, offset: (page - 1) * pageSize }),
+        storage.getAuditLogActions(),
+      ]);
+
+      res.json({ entries, total, page, pageSize, actions });
+    } catch (error) {
+      console.error('Get audit log error:', error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Admin comment management endpoints
+  app.get("/api/admin/comments", async (req, res) => {
+    try {
       const comments = await storage.getAllComments();
       res.json(comments);
     } catch (error) {
@@ -852,15 +1423,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/admin/comments/:id", async (req, res) => {
     try {
-      const authToken = req.headers['authorization'];
-      const clientIP = getClientIP(req);
-      
-      if (!authToken?.startsWith('Bearer ') && !isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const commentId = parseInt(req.params.id);
+      const comment = await storage.getCommentById(commentId);
       await storage.adminDeleteComment(commentId);
+      if (comment) {
+        await recordAudit(req, { action: 'comment.delete', targetType: 'comment', targetId: commentId, before: comment });
+      }
       res.json({ message: "Comment deleted" });
     } catch (error) {
       console.error('Admin delete comment error:', error);
@@ -870,19 +1438,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/admin/comments/bulk-delete", async (req, res) => {
     try {
-      const authToken = req.headers['authorization'];
-      const clientIP = getClientIP(req);
-      
-      if (!authToken?.startsWith('Bearer ') && !isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const { commentIds } = req.body;
       if (!Array.isArray(commentIds)) {
         return res.status(400).json({ message: "commentIds must be an array" });
       }
 
+      const deletedComments = await storage.getCommentsByIds(commentIds);
       await storage.bulkDeleteComments(commentIds);
+      await recordAudit(req, deletedComments.map(comment => ({
+        action: 'comment.bulk_delete',
+        targetType: 'comment' as const,
+        targetId: comment.id,
+        before: comment
+      })));
       res.json({ message: `Deleted ${commentIds.length} comments` });
     } catch (error) {
       console.error('Bulk delete comments error:', error);
@@ -893,22 +1461,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Bulk delete ideas endpoint
   app.post("/api/admin/ideas/bulk-delete", async (req, res) => {
     try {
-      const authToken = req.headers['authorization'];
-      const clientIP = getClientIP(req);
-      
-      if (!authToken?.startsWith('Bearer ') && !isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const { ideaIds } = req.body;
       if (!Array.isArray(ideaIds)) {
         return res.status(400).json({ message: "ideaIds must be an array" });
       }
 
+      const deletedIdeas = await storage.getIdeasByIds(ideaIds);
+
       // Delete each idea individually
       for (const ideaId of ideaIds) {
         await storage.deleteIdea(ideaId);
       }
+
+      await recordAudit(req, deletedIdeas.map(idea => ({
+        action: 'idea.bulk_delete',
+        targetType: 'idea' as const,
+        targetId: idea.id,
+        before: idea
+      })));
       
       res.json({ message: `Deleted ${ideaIds.length} ideas` });
     } catch (error) {
@@ -918,7 +1488,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Comment voting endpoints
-  app.post("/api/comments/:id/vote", async (req: any, res) => {
+  app.post("/api/comments/:id/vote", rateLimits.commentVote, async (req: any, res) => {
     try {
       const commentId = parseInt(req.params.id);
       const { voteType } = req.body;
@@ -943,18 +1513,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Global rate limiting: 2 seconds between any comment votes
-      const recentCommentVotes = await storage.getRecentCommentVotesBySession(sessionId, 2000); // 2 seconds
-      if (recentCommentVotes.length > 0) {
-        return res.status(429).json({ message: "Please wait 2 seconds before voting again" });
-      }
-
-      // IP-based global rate limiting
-      const recentCommentVotesByIP = await storage.getRecentCommentVotesByIp(clientIP, 2000);
-      if (recentCommentVotesByIP.length > 0) {
-        return res.status(429).json({ message: "Please wait 2 seconds before voting again" });
-      }
-
       await storage.voteOnComment(commentId, sessionId, clientIP, voteType);
       
       // Get updated vote count to return to frontend
@@ -991,13 +1549,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.id.toString();
       const userIdeas = await storage.getIdeasByUserId(userId);
-      res.json(userIdeas);
+      const grades = await storage.getIdeaGrades(userIdeas.map(idea => idea.id));
+      res.json((await withTags(userIdeas)).map(idea => ({
+        ...idea,
+        grades: grades.filter(grade => grade.ideaId === idea.id)
+      })));
     } catch (error) {
       console.error('Get user ideas error:', error);
       res.status(500).json({ message: "Failed to get user ideas" });
     }
   });
 
+  // Authors can edit their own ideas; edits don't change the grade until a regrade is requested
+  app.put("/api/user/ideas/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid idea ID" });
+      }
+
+      const result = updateOwnIdeaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid idea data", errors: result.error.errors });
+      }
+
+      const idea = await storage.getIdeaById(id);
+      if (!idea || idea.userId !== req.user.id.toString()) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      // The idea is filtered as it will read after the edit
+      const contentValidation = await ContentFilter.validateIdea({ ...idea, ...result.data });
+      if (!contentValidation.isValid) {
+        return res.status(400).json({ message: contentValidation.reason || "Invalid content" });
+      }
+
+      const { tools, topics, ...fields } = result.data;
+      await storage.updateIdea(id, {
+        ...fields,
+        moderationStatus: contentValidation.moderationStatus,
+        filterMatches: contentValidation.filterMatches,
+        editedAt: new Date()
+      });
+      res.json(await setIdeaTags(id, { tools, topics }));
+    } catch (error) {
+      console.error('Update user idea error:', error);
+      res.status(500).json({ message: "Failed to update idea" });
+    }
+  });
+
+  // Authors can have an idea graded again once they've edited it, a few times a day
+  app.post("/api/user/ideas/:id/regrade", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid idea ID" });
+      }
+
+      const idea = await storage.getIdeaById(id);
+      if (!idea || idea.userId !== req.user.id.toString()) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      if (idea.aiGradeStatus === 'pending' || idea.aiGradeStatus === 'grading') {
+        return res.status(409).json({ message: "This idea is already being graded" });
+      }
+
+      if (idea.aiGradedAt && (!idea.editedAt || idea.editedAt <= idea.aiGradedAt)) {
+        return res.status(400).json({ message: "Edit your idea before requesting a new grade" });
+      }
+
+      const recentRuns = await storage.countIdeaGradesSince(id, new Date(Date.now() - 24 * 60 * 60 * 1000));
+      if (recentRuns >= AUTHOR_REGRADES_PER_DAY) {
+        return res.status(429).json({ message: `Ideas can be graded at most ${AUTHOR_REGRADES_PER_DAY} times a day. Please try again tomorrow.` });
+      }
+
+      await enqueueIdeaGrading([id]);
+      res.json({ message: "Your idea has been queued for grading" });
+    } catch (error) {
+      console.error('Request regrade error:', error);
+      res.status(500).json({ message: "Failed to request a new grade" });
+    }
+  });
+
   app.get("/api/user/comments", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id.toString();
@@ -1020,8 +1654,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // In-app notifications, for signed-in users and anonymous sessions alike
+  app.get("/api/notifications", async (req: any, res) => {
+    try {
+      const recipient = getVoter(req, (req.headers['x-session-id'] as string) || '');
+      if (!recipient.userId && !recipient.sessionId) {
+        return res.json([]);
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 30, 1), 100);
+      const items = await storage.getNotifications(recipient, limit);
+      res.json(items);
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      res.status(500).json({ message: "Failed to get notifications" });
+    }
+  });
+
+  app.get("/api/notifications/unread-count", async (req: any, res) => {
+    try {
+      const recipient = getVoter(req, (req.headers['x-session-id'] as string) || '');
+      if (!recipient.userId && !recipient.sessionId) {
+        return res.json({ count: 0 });
+      }
+
+      const count = await storage.getUnreadNotificationCount(recipient);
+      res.json({ count });
+    } catch (error) {
+      console.error('Get unread notification count error:', error);
+      res.status(500).json({ message: "Failed to get unread notification count" });
+    }
+  });
+
+  app.post("/api/notifications/read", async (req: any, res) => {
+    try {
+      const recipient = getVoter(req, (req.headers['x-session-id'] as string) || '');
+      if (!recipient.userId && !recipient.sessionId) {
+        return res.status(400).json({ message: "Session ID required" });
+      }
+
+      // No ids means "mark all as read"
+      const { ids } = req.body || {};
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id: unknown) => Number.isInteger(id)))) {
+        return res.status(400).json({ message: "ids must be an array of notification IDs" });
+      }
+
+      const updated = await storage.markNotificationsRead(recipient, ids);
+      res.json({ updated });
+    } catch (error) {
+      console.error('Mark notifications read error:', error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.get("/api/user/notification-preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id.toString();
+      const preferences = await storage.getNotificationPreferences(userId);
+      res.json(preferences);
+    } catch (error) {
+      console.error('Get notification preferences error:', error);
+      res.status(500).json({ message: "Failed to get notification preferences" });
+    }
+  });
+
+  app.put("/api/user/notification-preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = updateNotificationPreferencesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid preferences", errors: result.error.errors });
+      }
+
+      const userId = req.user.id.toString();
+      const preferences = await storage.updateNotificationPreferences(userId, result.data);
+      res.json(preferences);
+    } catch (error) {
+      console.error('Update notification preferences error:', error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
   // Subscribe to weekly digest
-  app.post("/api/subscribe", async (req, res) => {
+  app.post("/api/subscribe", rateLimits.subscribe, async (req, res) => {
     try {
       const result = insertSubscriptionSchema.safeParse(req.body);
       if (!result.success) {
@@ -1030,9 +1744,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check if already subscribed
       const existing = await storage.getSubscriptionByEmail(result.data.email);
-      if (existing) {
+      if (existing && !existing.unsubscribedAt) {
         return res.status(409).json({ message: "Email already subscribed" });
       }
+      if (existing) {
+        await storage.setSubscriptionActive(existing.email, true);
+        return res.json({ message: "Successfully subscribed", subscription: { ...existing, unsubscribedAt: null } });
+      }
 
       // Store email in our database
       console.log('Creating subscription with data:', result.data);
@@ -1045,30 +1763,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Unsubscribe link from the weekly digest
+  app.post("/api/digest/unsubscribe", async (req, res) => {
+    try {
+      const { email, token } = req.body || {};
+      if (typeof email !== 'string' || typeof token !== 'string' || !verifyUnsubscribeToken(email, token)) {
+        return res.status(400).json({ message: "This unsubscribe link is invalid" });
+      }
+
+      await storage.setSubscriptionActive(email, false);
+      res.json({ message: "You've been unsubscribed from the weekly digest" });
+    } catch (error) {
+      console.error('Unsubscribe error:', error);
+      res.status(500).json({ message: "Failed to unsubscribe" });
+    }
+  });
+
   // Get stats
   app.get("/api/stats", async (req, res) => {
     try {
-      const currentIdeas = await storage.getIdeas();
       const subscriptions = await storage.getAllSubscriptions();
-      
+
+      // Visible ideas per category slug, with every open category listed even when it's empty
+      const categoryCounts: Record<string, number> = {};
+      for (const category of await getCategories()) {
+        if (!category.archived) categoryCounts[category.slug] = 0;
+      }
+      Object.assign(categoryCounts, await storage.getVisibleIdeaCountsByCategory());
+      const currentIdeasCount = Object.values(categoryCounts).reduce((sum, count) => sum + count, 0);
+
       // Get cumulative count by checking the highest ID in the database
       // This gives us total ideas ever created, regardless of deletions
-      let cumulativeIdeasCount = currentIdeas.length;
+      let cumulativeIdeasCount = currentIdeasCount;
       try {
         const maxIdQuery = await db.execute(sql`SELECT COALESCE(MAX(id), 0) as max_id FROM ideas`);
-        cumulativeIdeasCount = Number(maxIdQuery.rows[0]?.max_id) || currentIdeas.length;
+        cumulativeIdeasCount = Number(maxIdQuery.rows[0]?.max_id) || currentIdeasCount;
       } catch (error) {
         // Fallback to current count if query fails
         console.log('Using fallback count for stats');
       }
       
-      // Calculate category counts
-      const categoryCounts: Record<string, number> = {};
-      currentIdeas.forEach((idea: any) => {
-        const category = idea.category || 'Other';
-        categoryCounts[category] = (categoryCounts[category] || 0) + 1;
-      });
-      
       res.json({
         totalIdeas: cumulativeIdeasCount,
         totalSubscribers: subscriptions.length,
@@ -1080,11 +1814,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin endpoint to get all ideas (no authentication required)
+  // Admin endpoint to get all ideas
   app.get("/api/admin/ideas", async (req, res) => {
     try {
       const sortBy = req.query.sort as 'votes' | 'recent' || 'recent';
-      const ideas = await storage.getIdeas(sortBy);
+      const { ideas } = await storage.getIdeas(sortBy);
       
       // Get upvote statistics for each idea's submitter (exclude admin IP)
       const ideasWithStats = await Promise.all(ideas.map(async (idea: any) => {
@@ -1113,12 +1847,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin endpoint to get upvote trends over time
   app.get("/api/admin/upvote-trends", async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       // Get all user sessions and find the earliest one
       const allSessions = await db.select().from(userSessions);
       
@@ -1201,17 +1929,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin endpoint to get user statistics
   app.get("/api/admin/user-stats", async (req, res) => {
     try {
-      // Check for admin token or IP
-      const authToken = req.headers['authorization'];
-      const clientIP = getClientIP(req);
-      
-      console.log('User stats auth check - Token:', authToken, 'IP:', clientIP);
-      
-      if (authToken !== 'Bearer admin-authenticated' && !isAdminIP(clientIP)) {
-        console.log('Access denied for user stats');
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       // Get all user sessions and calculate upvote statistics
       const allSessions = await db.select().from(userSessions);
       
@@ -1275,17 +1992,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin endpoint to get all subscribers (no authentication required)
-  app.get("/api/admin/subscribers", async (req, res) => {
-    try {
-      const subscribers = await storage.getAllSubscriptions();
-      res.json(subscribers);
-    } catch (error) {
-      console.error("Error getting subscribers:", error);
-      res.status(500).json({ message: "Failed to get subscribers" });
-    }
-  });
-
   // Admin endpoint to update ideas
   app.put("/api/admin/ideas/:id", async (req, res) => {
     try {
@@ -1294,17 +2000,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid idea ID" });
       }
 
-      const { useCase, title, description, category, tools, linkUrl } = req.body;
+      const { useCase, title, description, category, linkUrl } = req.body;
       const updates: any = {};
       
       if (useCase !== undefined) updates.useCase = useCase;
       if (title !== undefined) updates.title = title;
       if (description !== undefined) updates.description = description;
-      if (category !== undefined) updates.category = category;
-      if (tools !== undefined) updates.tools = tools;
       if (linkUrl !== undefined) updates.linkUrl = linkUrl;
+      if (category !== undefined) {
+        const categoryResult = await resolveIdeaCategory(category, { allowArchived: true });
+        if (!categoryResult.ok) {
+          return res.status(categoryResult.status).json({ message: categoryResult.message });
+        }
+        updates.category = categoryResult.category.slug;
+      }
+
+      // Tools and topics are lists of tag names; a comma-separated string works too
+      const toTagNames = (value: unknown) => typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value.map(String) : undefined;
+      const tools = toTagNames(req.body.tools);
+      const topics = toTagNames(req.body.topics);
 
-      const updatedIdea = await storage.updateIdea(id, updates);
+      const existingIdea = await storage.getIdeaById(id);
+      if (!existingIdea) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+      const [{ tags: existingTags }] = await withTags([existingIdea]);
+
+      if (Object.keys(updates).length > 0) {
+        await storage.updateIdea(id, updates);
+      }
+      const tagsChanged = tools !== undefined || topics !== undefined;
+      const [updatedIdea] = tagsChanged
+        ? [(await setIdeaTags(id, { tools, topics }))!]
+        : await withTags([(await storage.getIdeaById(id))!]);
+      await recordAudit(req, {
+        action: 'idea.update',
+        targetType: 'idea',
+        targetId: id,
+        before: {
+          ...Object.fromEntries(Object.keys(updates).map(key => [key, (existingIdea as any)[key]])),
+          ...(tagsChanged && { tags: existingTags.map(tag => tag.slug) }),
+        },
+        after: { ...updates, ...(tagsChanged && { tags: updatedIdea.tags.map(tag => tag.slug) }) }
+      });
       res.json(updatedIdea);
     } catch (error) {
       console.error("Error updating idea:", error);
@@ -1315,20 +2053,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin endpoint to delete ideas
   app.delete("/api/admin/ideas/:id", async (req, res) => {
     try {
-      // Check for admin token or IP
-      const authToken = req.headers['authorization'];
-      const clientIP = getClientIP(req);
-      
-      if (!authToken?.startsWith('Bearer ') && !isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid idea ID" });
       }
 
+      const idea = await storage.getIdeaById(id);
       await storage.deleteIdea(id);
+      if (idea) {
+        await recordAudit(req, { action: 'idea.delete', targetType: 'idea', targetId: id, before: idea });
+      }
       res.json({ message: "Idea deleted successfully" });
     } catch (error) {
       console.error("Error deleting idea:", error);
@@ -1336,55 +2070,513 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin endpoint to auto-delete duplicate entries
-  app.post("/api/admin/delete-duplicates", async (req, res) => {
+  // Admin endpoint listing clusters of likely duplicate ideas
+  app.get("/api/admin/duplicates", async (req, res) => {
     try {
-      const ideas = await storage.getIdeas();
-      const duplicates: number[] = [];
-      const seen = new Map<string, number>();
+      const clusters = clusterSimilar(await storage.getSimilarIdeaPairs(DUPLICATE_SIMILARITY_THRESHOLD));
+      const ideas = await storage.getIdeasWithCommentCounts(clusters.flatMap(cluster => cluster.ids));
+      const byId = new Map(ideas.map(idea => [idea.id, idea]));
+
+      res.json(clusters.map(cluster => ({
+        similarity: Math.round(cluster.similarity * 100) / 100,
+        // Most voted first: the suggested canonical idea
+        ideas: cluster.ids
+          .map(id => byId.get(id)!)
+          .sort((a, b) => b.votes - a.votes || a.id - b.id)
+          .map(idea => ({
+            id: idea.id,
+            title: idea.title,
+            useCase: idea.useCase,
+            votes: idea.votes,
+            commentCount: idea.commentCount,
+            submittedAt: idea.submittedAt
+          }))
+      })));
+    } catch (error) {
+      console.error("Error finding duplicates:", error);
+      res.status(500).json({ message: "Failed to find duplicates" });
+    }
+  });
 
-      // Find duplicates based on useCase text
-      for (const idea of ideas) {
-        const key = (idea.useCase || '').trim().toLowerCase();
-        if (key && seen.has(key)) {
-          // Keep the one with more votes, delete the other
-          const existingId = seen.get(key)!;
-          const existingIdea = ideas.find((i: any) => i.id === existingId);
-          if (existingIdea && idea.votes > existingIdea.votes) {
-            duplicates.push(existingId);
-            seen.set(key, idea.id);
-          } else {
-            duplicates.push(idea.id);
-          }
+  // Admin endpoint to merge a duplicate idea into the canonical one
+  app.post("/api/admin/ideas/:id/merge", requireRole("admin"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const canonicalId = parseInt(req.body?.canonicalId);
+      if (isNaN(id) || isNaN(canonicalId)) {
+        return res.status(400).json({ message: "Invalid idea ID" });
+      }
+      if (id === canonicalId) {
+        return res.status(400).json({ message: "An idea can't be merged into itself" });
+      }
+
+      const duplicate = await storage.getIdeaById(id);
+      const result = await storage.mergeIdeas(id, canonicalId, req.user.id.toString());
+      if (!result) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      await recordAudit(req, {
+        action: 'idea.merge',
+        targetType: 'idea',
+        targetId: id,
+        before: duplicate,
+        after: { canonicalId, ...result }
+      });
+      res.json({
+        message: `Merged idea #${id} into #${canonicalId}`,
+        ...result
+      });
+    } catch (error) {
+      console.error("Error merging ideas:", error);
+      res.status(500).json({ message: "Failed to merge ideas" });
+    }
+  });
+
+  // Admin endpoint to rebuild every idea's vote count from the votes ledger
+  app.post("/api/admin/votes/recompute", requireRole("admin"), async (req, res) => {
+    try {
+      const result = await storage.recomputeAllIdeaVotes();
+      await recordAudit(req, { action: 'votes.recompute', targetType: 'system', after: result });
+      res.json({
+        message: `Recomputed vote counts, corrected ${result.ideasCorrected} ideas`,
+        ...result
+      });
+    } catch (error) {
+      console.error("Error recomputing votes:", error);
+      res.status(500).json({ message: "Failed to recompute votes" });
+    }
+  });
+
+  // Admin endpoint to queue a single idea for AI regrading
+  app.post("/api/admin/ideas/:id/regrade", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid idea ID" });
+      }
+
+      const idea = await storage.getIdeaById(id);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
+      await enqueueIdeaGrading([id]);
+      await recordAudit(req, {
+        action: 'idea.regrade',
+        targetType: 'idea',
+        targetId: id,
+        before: { aiGrade: idea.aiGrade, aiGradeReasoning: idea.aiGradeReasoning }
+      });
+      res.json({ message: "Idea queued for regrading" });
+    } catch (error) {
+      console.error("Error queueing idea for regrading:", error);
+      res.status(500).json({ message: "Failed to queue idea for regrading" });
+    }
+  });
+
+  // Admin endpoint to queue every idea for AI regrading
+  app.post("/api/admin/ideas/regrade-all", requireRole("admin"), async (req, res) => {
+    try {
+      const queued = await enqueueIdeaGrading();
+      await recordAudit(req, { action: 'ideas.regrade_all', targetType: 'system', after: { queued } });
+      res.json({ message: `Queued ${queued} ideas for regrading`, queued });
+    } catch (error) {
+      console.error("Error queueing ideas for regrading:", error);
+      res.status(500).json({ message: "Failed to queue ideas for regrading" });
+    }
+  });
+
+  // Content filter term lists; anyone on staff can read them, only admins change them
+  app.get("/api/admin/content-filter/terms", async (req, res) => {
+    try {
+      const terms = await storage.getContentFilterTerms();
+      res.json(terms);
+    } catch (error) {
+      console.error("Error getting content filter terms:", error);
+      res.status(500).json({ message: "Failed to get content filter terms" });
+    }
+  });
+
+  app.post("/api/admin/content-filter/terms", requireRole("admin"), async (req: any, res) => {
+    try {
+      const result = insertContentFilterTermSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid term" });
+      }
+
+      const [term] = await storage.addContentFilterTerms([result.data], req.user.id.toString());
+      if (!term) {
+        return res.status(409).json({ message: `"${result.data.term}" is already on the ${result.data.list}list` });
+      }
+      ContentFilter.invalidate();
+      await recordAudit(req, {
+        action: 'content_filter.term_add',
+        targetType: 'setting',
+        targetId: term.id,
+        after: { term: term.term, list: term.list, action: term.action }
+      });
+      res.json(term);
+    } catch (error) {
+      console.error("Error adding content filter term:", error);
+      res.status(500).json({ message: "Failed to add term" });
+    }
+  });
+
+  app.patch("/api/admin/content-filter/terms/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const action = req.body.action as ContentFilterAction;
+      if (isNaN(id) || !contentFilterActions.includes(action)) {
+        return res.status(400).json({ message: "Action must be block, review or flag" });
+      }
+
+      const before = (await storage.getContentFilterTerms()).find(term => term.id === id);
+      const term = await storage.updateContentFilterTerm(id, action);
+      if (!before || !term) {
+        return res.status(404).json({ message: "Blocklist term not found" });
+      }
+      ContentFilter.invalidate();
+      await recordAudit(req, {
+        action: 'content_filter.term_update',
+        targetType: 'setting',
+        targetId: id,
+        before: { term: before.term, action: before.action },
+        after: { term: term.term, action: term.action }
+      });
+      res.json(term);
+    } catch (error) {
+      console.error("Error updating content filter term:", error);
+      res.status(500).json({ message: "Failed to update term" });
+    }
+  });
+
+  app.delete("/api/admin/content-filter/terms/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid term ID" });
+      }
+
+      const term = await storage.deleteContentFilterTerm(id);
+      if (!term) {
+        return res.status(404).json({ message: "Term not found" });
+      }
+      ContentFilter.invalidate();
+      await recordAudit(req, {
+        action: 'content_filter.term_remove',
+        targetType: 'setting',
+        targetId: id,
+        before: { term: term.term, list: term.list, action: term.action }
+      });
+      res.json({ message: "Term removed" });
+    } catch (error) {
+      console.error("Error removing content filter term:", error);
+      res.status(500).json({ message: "Failed to remove term" });
+    }
+  });
+
+  // Every category with how many ideas it has, archived ones included
+  app.get("/api/admin/categories", async (req, res) => {
+    try {
+      res.json(await getCategories());
+    } catch (error) {
+      console.error("Error getting categories:", error);
+      res.status(500).json({ message: "Failed to get categories" });
+    }
+  });
+
+  app.post("/api/admin/categories", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = insertCategorySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid category" });
+      }
+
+      const result = await createCategory(parsed.data);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await recordAudit(req, { action: 'category.create', targetType: 'category', targetId: result.category.id, after: result.category });
+      res.json(result.category);
+    } catch (error) {
+      console.error("Error creating category:", error);
+      res.status(500).json({ message: "Failed to create category" });
+    }
+  });
+
+  // Edits the label, description, icon or order, or archives/unarchives the category
+  app.patch("/api/admin/categories/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+      const parsed = updateCategorySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid category" });
+      }
+
+      const result = await updateCategory(id, parsed.data);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const changed = Object.keys(parsed.data) as (keyof typeof parsed.data)[];
+      await recordAudit(req, {
+        action: parsed.data.archived === undefined ? 'category.update' : parsed.data.archived ? 'category.archive' : 'category.unarchive',
+        targetType: 'category',
+        targetId: id,
+        before: Object.fromEntries(changed.map(key => [key, result.before[key]])),
+        after: parsed.data
+      });
+      res.json(result.category);
+    } catch (error) {
+      console.error("Error updating category:", error);
+      res.status(500).json({ message: "Failed to update category" });
+    }
+  });
+
+  // Only categories without ideas; others are merged or archived
+  app.delete("/api/admin/categories/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+
+      const result = await deleteCategory(id);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await recordAudit(req, { action: 'category.delete', targetType: 'category', targetId: id, before: result.category });
+      res.json({ message: `Deleted "${result.category.label}"` });
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      res.status(500).json({ message: "Failed to delete category" });
+    }
+  });
+
+  // Moves a category's ideas into another category and deletes it
+  app.post("/api/admin/categories/:id/merge", requireRole("admin"), async (req, res) => {
+    try {
+      const fromId = parseInt(req.params.id);
+      const intoId = Number(req.body.intoId);
+      if (isNaN(fromId) || !Number.isInteger(intoId)) {
+        return res.status(400).json({ message: "Invalid category ID" });
+      }
+
+      const result = await mergeCategory(fromId, intoId);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await recordAudit(req, {
+        action: 'category.merge',
+        targetType: 'category',
+        targetId: fromId,
+        before: result.from,
+        after: { mergedInto: result.into.slug, ideasMoved: result.ideasMoved }
+      });
+      res.json({ message: `Merged "${result.from.label}" into "${result.into.label}"`, ideasMoved: result.ideasMoved });
+    } catch (error) {
+      console.error("Error merging categories:", error);
+      res.status(500).json({ message: "Failed to merge categories" });
+    }
+  });
+
+  // Every tag with its usage and aliases
+  app.get("/api/admin/tags", async (req, res) => {
+    try {
+      await installDefaultTags();
+      res.json(await storage.getTagSummaries());
+    } catch (error) {
+      console.error("Error getting tags:", error);
+      res.status(500).json({ message: "Failed to get tags" });
+    }
+  });
+
+  // Folds a tag into another: its ideas are retagged and its name becomes an alias
+  app.post("/api/admin/tags/:id/merge", requireRole("admin"), async (req, res) => {
+    try {
+      const fromId = parseInt(req.params.id);
+      const intoId = Number(req.body.intoId);
+      if (isNaN(fromId) || !Number.isInteger(intoId)) {
+        return res.status(400).json({ message: "Invalid tag ID" });
+      }
+
+      const result = await mergeTag(fromId, intoId);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await recordAudit(req, {
+        action: 'tag.merge',
+        targetType: 'tag',
+        targetId: fromId,
+        before: { slug: result.from.slug, name: result.from.name },
+        after: { aliasOf: result.into.slug, ideasMoved: result.ideasMoved }
+      });
+      res.json({ message: `Merged "${result.from.name}" into "${result.into.name}"`, ideasMoved: result.ideasMoved });
+    } catch (error) {
+      console.error("Error merging tags:", error);
+      res.status(500).json({ message: "Failed to merge tags" });
+    }
+  });
+
+  app.post("/api/admin/tags/:id/aliases", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id) || typeof req.body.alias !== 'string' || !cleanTagName(req.body.alias)) {
+        return res.status(400).json({ message: "Alias is required" });
+      }
+
+      const result = await addTagAlias(id, req.body.alias);
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      await recordAudit(req, {
+        action: 'tag.alias_add',
+        targetType: 'tag',
+        targetId: id,
+        after: { slug: result.tag.slug, alias: result.alias, ideasMoved: result.ideasMoved }
+      });
+      res.json({ message: `"${result.alias}" now means "${result.tag.name}"`, ideasMoved: result.ideasMoved });
+    } catch (error) {
+      console.error("Error adding tag alias:", error);
+      res.status(500).json({ message: "Failed to add alias" });
+    }
+  });
+
+  // Runs text through the filter with the current lists, for trying out changes
+  app.post("/api/admin/content-filter/test", async (req, res) => {
+    try {
+      const { text } = req.body;
+      if (typeof text !== 'string') {
+        return res.status(400).json({ message: "Text is required" });
+      }
+      res.json(await ContentFilter.check(text));
+    } catch (error) {
+      console.error("Error testing content filter:", error);
+      res.status(500).json({ message: "Failed to test text" });
+    }
+  });
+
+  // Ideas and comments the content filter held back or flagged
+  app.get("/api/admin/moderation", async (req, res) => {
+    try {
+      const queue = await storage.getModerationQueue();
+      res.json(queue);
+    } catch (error) {
+      console.error("Error getting moderation queue:", error);
+      res.status(500).json({ message: "Failed to get moderation queue" });
+    }
+  });
+
+  // Approve publishes held content and clears flags; remove deletes it
+  app.post("/api/admin/moderation/:type/:id/:action", async (req, res) => {
+    try {
+      const { type, action } = req.params;
+      const id = parseInt(req.params.id);
+      if ((type !== 'idea' && type !== 'comment') || (action !== 'approve' && action !== 'remove') || isNaN(id)) {
+        return res.status(404).json({ message: "Unknown moderation action" });
+      }
+
+      const item = type === 'idea' ? await storage.getIdeaById(id) : await storage.getCommentById(id);
+      if (!item) {
+        return res.status(404).json({ message: `${type === 'idea' ? 'Idea' : 'Comment'} not found` });
+      }
+
+      if (action === 'approve') {
+        if (type === 'idea') {
+          await storage.setIdeaModerationStatus(id, null);
         } else {
-          seen.set(key, idea.id);
+          await storage.setCommentModerationStatus(id, null);
         }
+      } else if (type === 'idea') {
+        await storage.deleteIdea(id);
+      } else {
+        await storage.adminDeleteComment(id);
       }
 
-      // Delete duplicates
-      for (const id of duplicates) {
-        await storage.deleteIdea(id);
+      await recordAudit(req, {
+        action: `${type}.moderation_${action}`,
+        targetType: type,
+        targetId: id,
+        before: { moderationStatus: item.moderationStatus, filterMatches: item.filterMatches },
+        after: action === 'approve' ? { moderationStatus: null } : null
+      });
+      res.json({ message: action === 'approve' ? "Approved" : "Removed" });
+    } catch (error) {
+      console.error("Error applying moderation action:", error);
+      res.status(500).json({ message: "Failed to apply moderation action" });
+    }
+  });
+
+  // Admin vote review queue: votes flagged by fraud scoring
+  app.get("/api/admin/vote-review", async (req, res) => {
+    try {
+      const flaggedVotes = await storage.getFlaggedVotes();
+      res.json(flaggedVotes);
+    } catch (error) {
+      console.error("Error getting flagged votes:", error);
+      res.status(500).json({ message: "Failed to get flagged votes" });
+    }
+  });
+
+  // Void or approve flagged votes in bulk; voiding recomputes the affected ideas' counts
+  app.post("/api/admin/vote-review/:action", async (req, res) => {
+    try {
+      const status = req.params.action === 'void' ? 'voided' : req.params.action === 'approve' ? 'approved' : null;
+      if (!status) {
+        return res.status(404).json({ message: "Unknown review action" });
       }
 
-      res.json({ 
-        message: `Deleted ${duplicates.length} duplicate entries`,
-        deletedIds: duplicates
+      const { voteIds } = req.body;
+      if (!Array.isArray(voteIds) || !voteIds.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ message: "voteIds must be an array of vote IDs" });
+      }
+
+      const result = await storage.reviewFlaggedVotes(voteIds, status);
+      await recordAudit(req, voteIds.map((id: number) => ({
+        action: status === 'voided' ? 'vote.void' : 'vote.approve',
+        targetType: 'vote' as const,
+        targetId: id,
+        before: { status: 'flagged' },
+        after: { status }
+      })));
+      res.json({
+        message: `${status === 'voided' ? 'Voided' : 'Approved'} ${result.reviewed} votes`,
+        ...result
       });
     } catch (error) {
-      console.error("Error deleting duplicates:", error);
-      res.status(500).json({ message: "Failed to delete duplicates" });
+      console.error("Error reviewing flagged votes:", error);
+      res.status(500).json({ message: "Failed to review votes" });
     }
   });
 
-  // Admin endpoint to update vote count
-  app.patch("/api/admin/ideas/:id/votes", async (req, res) => {
+  // Score existing votes, e.g. the current leaderboard week, that were cast before scoring existed
+  app.post("/api/admin/vote-fraud/scan", requireRole("admin"), async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
+      const days = Math.min(Math.max(parseInt(req.body?.days) || 7, 1), 90);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const candidates = (await storage.getVotesForFraudScan(since))
+        .filter(vote => !ADMIN_IPS.includes(vote.ipAddress));
+
+      let flagged = 0;
+      for (const vote of candidates) {
+        const assessment = await assessVote(vote);
+        if (assessment.flagged) flagged++;
       }
 
+      await recordAudit(req, { action: 'votes.fraud_scan', targetType: 'system', after: { days, scanned: candidates.length, flagged } });
+      res.json({ message: `Scanned ${candidates.length} votes, flagged ${flagged}`, scanned: candidates.length, flagged });
+    } catch (error) {
+      console.error("Error scanning votes:", error);
+      res.status(500).json({ message: "Failed to scan votes" });
+    }
+  });
+
+  // Admin endpoint to update vote count
+  app.patch("/api/admin/ideas/:id/votes", requireRole("admin"), async (req, res) => {
+    try {
       const id = parseInt(req.params.id);
       const { votes } = req.body;
       
@@ -1396,7 +2588,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Votes must be a non-negative number" });
       }
 
+      const idea = await storage.getIdeaById(id);
+      if (!idea) {
+        return res.status(404).json({ message: "Idea not found" });
+      }
+
       await storage.updateIdeaVotes(id, votes);
+      await recordAudit(req, {
+        action: 'idea.votes_override',
+        targetType: 'idea',
+        targetId: id,
+        before: { votes: idea.votes },
+        after: { votes }
+      });
       res.json({ message: "Vote count updated successfully", votes });
     } catch (error) {
       console.error("Error updating vote count:", error);
@@ -1405,14 +2609,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint to get subscribers
-  app.get("/api/admin/subscribers", async (req, res) => {
+  app.get("/api/admin/subscribers", requireRole("admin"), async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const subscribers = await storage.getAllSubscriptions();
       res.json(subscribers);
     } catch (error) {
@@ -1437,12 +2635,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin endpoint to get paywall status (for admin panel)
   app.get("/api/admin/paywall-status", async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const paywallEnabled = (global as any).paywallEnabled === true;
       res.json({ enabled: paywallEnabled });
     } catch (error) {
@@ -1452,19 +2644,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint to toggle paywall
-  app.post("/api/admin/paywall-toggle", async (req, res) => {
+  app.post("/api/admin/paywall-toggle", requireRole("admin"), async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const { enabled } = req.body;
+      const wasEnabled = (global as any).paywallEnabled === true;
       
       // Store paywall setting (in production, this would be stored in database)
       // For now, we'll store it in memory and update the environment variable approach
       (global as any).paywallEnabled = enabled;
+
+      await recordAudit(req, {
+        action: 'paywall.toggle',
+        targetType: 'setting',
+        targetId: 'paywall',
+        before: { enabled: wasEnabled },
+        after: { enabled }
+      });
       
       res.json({ 
         enabled, 
@@ -1476,15 +2671,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin endpoint to get session metrics
-  app.get("/api/admin/session-metrics", async (req, res) => {
+  // Weekly digest: preview the issue for the last full week
+  app.get("/api/admin/digest/preview", requireRole("admin"), async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
+      const period = getDigestPeriod();
+      const digest = await buildDigest(period);
+      const rendered = renderDigestEmail(digest, 'subscriber@example.com');
+      const recipientCount = await storage.countDigestRecipients();
+
+      res.json({ ...rendered, period, ideaCount: digest.ideaCount, recipientCount });
+    } catch (error) {
+      console.error('Digest preview error:', error);
+      res.status(500).json({ message: "Failed to build digest preview" });
+    }
+  });
+
+  app.get("/api/admin/digest/issues", requireRole("admin"), async (req, res) => {
+    try {
+      const issues = await storage.getDigestIssues(10);
+      res.json(issues);
+    } catch (error) {
+      console.error('Digest issues error:', error);
+      res.status(500).json({ message: "Failed to get digest issues" });
+    }
+  });
+
+  app.post("/api/admin/digest/send", requireRole("admin"), async (req: any, res) => {
+    try {
+      const period = getDigestPeriod();
+      const issue = await storage.scheduleDigestIssue(period.start, new Date(), getRequestUserId(req));
+      const result = issue && await sendDigestIssue(issue.id);
+      if (!issue || !result) {
+        return res.status(409).json({ message: "This week's digest is already being sent" });
+      }
+
+      await recordAudit(req, {
+        action: 'digest.send',
+        targetType: 'digest',
+        targetId: issue.id,
+        after: { periodStart: period.start, ...result }
+      });
+
+      res.json({
+        ...result,
+        message: `Digest sent to ${result.sent} subscribers${result.failed ? ` (${result.failed} failed)` : ''}`
+      });
+    } catch (error) {
+      console.error('Digest send error:', error);
+      res.status(500).json({ message: "Failed to send digest" });
+    }
+  });
+
+  app.post("/api/admin/digest/schedule", requireRole("admin"), async (req: any, res) => {
+    try {
+      const scheduledFor = new Date(req.body?.scheduledFor);
+      if (isNaN(scheduledFor.getTime()) || scheduledFor.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "scheduledFor must be a date in the future" });
+      }
+
+      // The issue covers the last full week before the scheduled send time
+      const period = getDigestPeriod(scheduledFor);
+      const issue = await storage.scheduleDigestIssue(period.start, scheduledFor, getRequestUserId(req));
+      if (!issue) {
+        return res.status(409).json({ message: "That week's digest is currently being sent" });
+      }
+
+      await recordAudit(req, {
+        action: 'digest.schedule',
+        targetType: 'digest',
+        targetId: issue.id,
+        after: { periodStart: period.start, scheduledFor }
+      });
+
+      res.json(issue);
+    } catch (error) {
+      console.error('Digest schedule error:', error);
+      res.status(500).json({ message: "Failed to schedule digest" });
+    }
+  });
+
+  app.post("/api/admin/digest/issues/:id/cancel", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const issue = await storage.cancelDigestIssue(id);
+      if (!issue) {
+        return res.status(404).json({ message: "No scheduled digest with that ID" });
       }
 
+      await recordAudit(req, {
+        action: 'digest.cancel',
+        targetType: 'digest',
+        targetId: id,
+        before: { status: 'scheduled', scheduledFor: issue.scheduledFor },
+        after: { status: issue.status }
+      });
+
+      res.json(issue);
+    } catch (error) {
+      console.error('Digest cancel error:', error);
+      res.status(500).json({ message: "Failed to cancel digest" });
+    }
+  });
+
+  // Admin endpoint to get session metrics
+  app.get("/api/admin/session-metrics", async (req, res) => {
+    try {
       const metrics = await storage.getSessionMetricsByDay();
       res.json(metrics);
     } catch (error) {
@@ -1493,15 +2784,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/export", async (req, res) => {
+  app.get("/api/admin/export", requireRole("admin"), async (req, res) => {
     try {
-      const clientIP = getClientIP(req);
-      
-      if (!isAdminIP(clientIP)) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      const ideas = await storage.getIdeas('recent');
+      const { ideas } = await storage.getIdeas('recent');
       const subscriptions = await storage.getAllSubscriptions();
       const authenticatedUsers = await storage.getAllUsers();
       
@@ -1513,6 +2798,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create CSV content with comprehensive user data
       let csvContent = "Email,Username,Source,SessionId,IdeaText,Category,Tools,Votes,SubmittedAt,UserType\n";
       
+      const categoryLabels = new Map((await getCategories()).map(category => [category.slug, category.label]));
+
       // Create a comprehensive map of all session IDs and their associated data
       const sessionMap = new Map();
       
@@ -1565,7 +2852,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         const ideaText = idea ? (idea.useCase || '').replace(/"/g, '""') : "No idea submitted";
-        const category = idea ? (idea.category || 'Other') : "";
+        const category = idea?.category ? (categoryLabels.get(idea.category) || idea.category) : "";
         const tools = idea ? (idea.tools || '') : "";
         const votes = idea ? idea.votes : "";
         const submittedAt = idea ? idea.submittedAt : (subscription ? subscription.subscribedAt : (authenticatedUser ? authenticatedUser.createdAt : ""));
@@ -1581,6 +2868,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       console.log("Generated CSV rows:", sessionMap.size);
+
+      await recordAudit(req, { action: 'data.export', targetType: 'system', after: { rows: sessionMap.size } });
       
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', 'attachment; filename="ai-ideas-export.csv"');
@@ -0,0 +1,104 @@
+import { storage } from "./storage";
+import { getCategories } from "./categories";
+import { SITE_URL } from "./email-templates";
+import type { Idea } from "@shared/schema";
+
+const SITE_NAME = "How Do You Use AI?";
+const DEFAULT_IMAGE = `${SITE_URL}/social-preview.png`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function truncate(value: string, maxLength: number): string {
+  const text = value.replace(/\s+/g, " ").trim();
+  return text.length > maxLength ? text.substring(0, maxLength - 1).trimEnd() + "…" : text;
+}
+
+// Only absolute http(s) media is usable by social crawlers (data URLs are not)
+function getIdeaImage(idea: Idea): string {
+  if (idea.postType === "media" && idea.mediaType === "image" && idea.mediaUrl) {
+    if (/^https?:\/\//i.test(idea.mediaUrl)) return idea.mediaUrl;
+    if (idea.mediaUrl.startsWith("/")) return `${SITE_URL}${idea.mediaUrl}`;
+  }
+  return DEFAULT_IMAGE;
+}
+
+function replaceMeta(html: string, attr: "name" | "property", key: string, content: string): string {
+  const pattern = new RegExp(`(<meta ${attr}="${key}" content=")[^"]*(")`);
+  return html.replace(pattern, (_match, start, end) => `${start}${escapeHtml(content)}${end}`);
+}
+
+export function parseIdeaIdFromUrl(url: string): number | null {
+  const match = url.split("?")[0].match(/^\/idea\/(\d+)\/?$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+export function renderIdeaMetadata(html: string, idea: Idea, categoryLabel?: string): string {
+  const text = idea.useCase || idea.description || idea.title;
+  const title = `${truncate(text, 70)} | ${SITE_NAME}`;
+  const description = truncate(text, 200);
+  const url = `${SITE_URL}/idea/${idea.id}`;
+  const image = getIdeaImage(idea);
+
+  let page = html.replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(title)}</title>`);
+  page = page.replace(/(<link rel="canonical" href=")[^"]*(")/, (_match, start, end) => `${start}${url}${end}`);
+  page = replaceMeta(page, "name", "description", description);
+  page = replaceMeta(page, "property", "og:type", "article");
+  page = replaceMeta(page, "property", "og:url", url);
+  page = replaceMeta(page, "property", "og:title", title);
+  page = replaceMeta(page, "property", "og:description", description);
+  page = replaceMeta(page, "property", "og:image", image);
+  page = replaceMeta(page, "property", "twitter:url", url);
+  page = replaceMeta(page, "property", "twitter:title", title);
+  page = replaceMeta(page, "property", "twitter:description", description);
+  page = replaceMeta(page, "property", "twitter:image", image);
+
+  const jsonLd = {
+    "@context": "https://schema.org",
+    "@type": "CreativeWork",
+    "name": truncate(text, 110),
+    "text": text,
+    "url": url,
+    "image": image,
+    "dateCreated": idea.submittedAt.toISOString(),
+    "genre": categoryLabel || idea.category || "other",
+    "keywords": idea.tools || undefined,
+    "interactionStatistic": {
+      "@type": "InteractionCounter",
+      "interactionType": "https://schema.org/LikeAction",
+      "userInteractionCount": idea.votes
+    },
+    "isPartOf": {
+      "@type": "WebSite",
+      "name": SITE_NAME,
+      "url": SITE_URL
+    }
+  };
+
+  // Escape "<" so user content can never close the script tag
+  const script = `<script type="application/ld+json">${JSON.stringify(jsonLd).replace(/</g, "\\u003c")}</script>`;
+  return page.replace("</head>", () => `    ${script}\n  </head>`);
+}
+
+// Inject per-idea Open Graph metadata when serving /idea/:id, leave other pages untouched
+export async function injectPageMetadata(html: string, url: string): Promise<string> {
+  const ideaId = parseIdeaIdFromUrl(url);
+  if (!ideaId) return html;
+
+  try {
+    const idea = await storage.getIdeaById(ideaId);
+    // Ideas held for review don't get a preview until they're approved
+    if (!idea || idea.moderationStatus === 'held') return html;
+    const category = (await getCategories()).find(category => category.slug === idea.category);
+    return renderIdeaMetadata(html, idea, category?.label);
+  } catch (error) {
+    console.error("Failed to inject idea metadata:", error);
+    return html;
+  }
+}
@@ -0,0 +1,32 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { clusterSimilar } from "./similarity";
+
+describe("clusterSimilar", () => {
+  test("joins chains of pairs into one cluster with its best similarity", () => {
+    const clusters = clusterSimilar([
+      { id: 1, otherId: 2, similarity: 0.6 },
+      { id: 2, otherId: 3, similarity: 0.8 },
+      { id: 4, otherId: 5, similarity: 0.7 },
+    ]);
+    assert.deepEqual(clusters.map(cluster => ({ ...cluster, ids: [...cluster.ids].sort() })), [
+      { ids: [1, 2, 3], similarity: 0.8 },
+      { ids: [4, 5], similarity: 0.7 },
+    ]);
+  });
+
+  test("merges clusters that a later pair connects", () => {
+    const clusters = clusterSimilar([
+      { id: 1, otherId: 2, similarity: 0.9 },
+      { id: 3, otherId: 4, similarity: 0.5 },
+      { id: 2, otherId: 4, similarity: 0.6 },
+    ]);
+    assert.equal(clusters.length, 1);
+    assert.deepEqual([...clusters[0].ids].sort(), [1, 2, 3, 4]);
+    assert.equal(clusters[0].similarity, 0.9);
+  });
+
+  test("returns nothing without pairs", () => {
+    assert.deepEqual(clusterSimilar([]), []);
+  });
+});
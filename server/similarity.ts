@@ -0,0 +1,49 @@
+// Near-duplicate detection. Ideas are compared in Postgres by pg_trgm trigram similarity (see
+// ideaSimilarityText in shared/schema.ts); this groups the matching pairs for the admin page.
+
+// Ideas at or above this similarity are flagged as likely duplicates
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.5;
+
+export interface SimilarPair {
+  id: number;
+  otherId: number;
+  similarity: number;
+}
+
+// Groups pairs into clusters of likely duplicates (any chain of pairs joins a cluster).
+// Each cluster lists ids with the highest similarity seen inside it.
+export function clusterSimilar(pairs: SimilarPair[]): { ids: number[]; similarity: number }[] {
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    // Point everything on the way straight at the root so later lookups are short
+    while (id !== root) {
+      const next = parent.get(id)!;
+      parent.set(id, root);
+      id = next;
+    }
+    return root;
+  };
+
+  const bestSimilarity = new Map<number, number>();
+  for (const pair of pairs) {
+    const rootA = find(pair.id);
+    const rootB = find(pair.otherId);
+    parent.set(rootA, rootA);
+    parent.set(rootB, rootA);
+    bestSimilarity.set(rootA, Math.max(pair.similarity, bestSimilarity.get(rootA) ?? 0, bestSimilarity.get(rootB) ?? 0));
+  }
+
+  const clusters = new Map<number, number[]>();
+  parent.forEach((_, id) => {
+    const root = find(id);
+    const ids = clusters.get(root);
+    if (ids) ids.push(id);
+    else clusters.set(root, [id]);
+  });
+
+  return Array.from(clusters.entries())
+    .map(([root, ids]) => ({ ids, similarity: bestSimilarity.get(root) ?? 0 }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
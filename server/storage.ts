@@ -6,6 +6,22 @@ import {
   users,
   comments,
   commentVotes,
+  auditLog,
+  passwordResetTokens,
+  notificationPreferences,
+  notifications,
+  digestIssues,
+  digestSends,
+  ideaGrades,
+  ideaRedirects,
+  commentRevisions,
+  contentFilterTerms,
+  rateLimitBuckets,
+  uploads,
+  linkPreviews,
+  tags,
+  ideaTags,
+  categories,
   type Idea, 
   type InsertIdea,
   type Subscription,
@@ -13,30 +29,329 @@ import {
   type UserSession,
   type InsertUserSession,
   type Vote,
-  type InsertVote,
+  type VoteType,
+  type VoteStatus,
   type User,
+  type UserRole,
   type UpsertUser,
   type Comment,
   type InsertComment,
   type CommentVote,
-  type InsertCommentVote
+  type InsertCommentVote,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
+  type Notification,
+  type InsertNotification,
+  type DigestIssue,
+  type IdeaGrade,
+  type CommentRevision,
+  type ContentFilterTerm,
+  type InsertContentFilterTerm,
+  type ContentFilterAction,
+  type ModerationStatus,
+  type RateLimitBucket,
+  type Upload,
+  type InsertUpload,
+  type LinkPreview,
+  type InsertLinkPreview,
+  type Tag,
+  type InsertTag,
+  type TagKind,
+  type PublicTag,
+  type Category,
+  type InsertCategory,
+  type UpdateCategory,
+  ideaSearchVector,
+  ideaSimilarityText
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, asc, and, or, isNull, sql, inArray } from "drizzle-orm";
+import { eq, desc, asc, and, or, isNull, lt, gte, sql, inArray, getTableColumns, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+export type IdeaSort = 'votes' | 'recent' | 'comments' | 'hot' | 'top';
+export type TopWindow = 'day' | 'week' | 'month' | 'year' | 'all';
+export type IdeaWithCommentCount = Idea & { commentCount: number };
+export type IdeaSearchResult = IdeaWithCommentCount & { snippet: string; rank: number };
+
+export interface IdeaCursor {
+  sort: IdeaSort;
+  window?: TopWindow;
+  value: string; // Sort key of the last row, kept as text to avoid losing timestamp precision
+  id: number;
+}
+
+export interface IdeaGradeRecord {
+  score: number;
+  reasoning: string;
+  tips: string[];
+  model: string;
+  rubricVersion: string;
+}
+
+export interface IdeaMergeResult {
+  votesMoved: number;
+  votesDropped: number; // Voters who had voted on both ideas keep only their canonical vote
+  commentsMoved: number;
+  votes: number; // Canonical idea's vote count after the merge
+  // The duplicate's votes with no ledger row (own upvote, reward boosts, admin overrides). They
+  // aren't carried over, since the canonical idea has its own.
+  voteAdjustmentDropped: number;
+}
+
+// An existing idea whose text looks like another one's; similarity is pg_trgm's, from 0 to 1
+export interface SimilarIdea {
+  id: number;
+  title: string;
+  similarity: number;
+}
+
+export interface SimilarIdeaPair {
+  id: number;
+  otherId: number;
+  similarity: number;
+}
+
+// Content the filter held back or flagged, waiting for a moderator
+export interface ModerationQueue {
+  ideas: Idea[];
+  comments: (Comment & { ideaTitle: string | null })[];
+}
+
+// Fields the content filter sets on ideas and comments
+export type ModerationFields = Pick<Idea, 'moderationStatus' | 'filterMatches'>;
+
+// What an idea keeps about its media upload
+export type IdeaMedia = Pick<Idea, 'mediaUploadId' | 'mediaUrl' | 'mediaType' | 'mediaThumbnailUrl'>;
+
+export type RateLimitBucketState = Pick<RateLimitBucket, 'tokens' | 'updatedAt'>;
+
+// Limits the feed or search to ideas with any or all of the given tags. No tag ids matches nothing.
+export interface TagFilter {
+  tagIds: number[];
+  match: 'any' | 'all';
+}
+
+export type IdeaTag = PublicTag & { ideaId: number };
+export type TagWithUsage = Tag & { ideaCount: number };
+export type TagSummary = TagWithUsage & { aliases: string[] };
+export type CategoryWithUsage = Category & { ideaCount: number };
+// The part of a comment's author that is sent with the comment
+export type CommentAuthor = Pick<User, 'id' | 'username' | 'emailVerifiedAt'>;
+
+export interface IdeaPage {
+  ideas: IdeaWithCommentCount[];
+  nextCursor: string | null;
+}
+
+// Written with qualified column names because drizzle drops table prefixes in
+// single-table selects, which would make ideas.id resolve to comments.id here
+const commentCountExpression = sql`(SELECT COUNT(*) FROM comments WHERE comments.idea_id = ideas.id AND comments.moderation_status IS DISTINCT FROM 'held')`;
+
+// ideas.tools mirrors the idea's tool tags so full-text search and the AI grader can read them
+const toolTagNamesExpression = sql`(
+  SELECT string_agg(tags.name, ', ' ORDER BY idea_tags.position)
+  FROM idea_tags JOIN tags ON tags.id = idea_tags.tag_id
+  WHERE idea_tags.idea_id = ideas.id AND tags.kind = 'tool'
+)`;
+
+const tagUsageExpression = sql<number>`(SELECT COUNT(*) FROM idea_tags WHERE idea_tags.tag_id = tags.id)`;
+
+// Counts held ideas too, since they still belong to the category
+const categoryUsageExpression = sql<number>`(SELECT COUNT(*) FROM ideas WHERE ideas.category = categories.slug)`;
+
+const topWindowIntervals: Record<Exclude<TopWindow, 'all'>, string> = {
+  day: '1 day',
+  week: '7 days',
+  month: '1 month',
+  year: '1 year',
+};
+
+// Net votes cast or changed within the window, taken from the votes ledger rather than the
+// ideas.votes counter. Votes voided in fraud review never count.
+function topScoreExpression(window: TopWindow): SQL {
+  const since = window === 'all'
+    ? sql``
+    : sql` AND votes.updated_at >= now() - ${topWindowIntervals[window]}::interval`;
+  return sql`(SELECT COALESCE(SUM(CASE WHEN votes.vote_type = 'up' THEN 1 WHEN votes.vote_type = 'down' THEN -1 ELSE 0 END), 0) FROM votes WHERE votes.idea_id = ideas.id AND votes.status <> 'voided'${since})`;
+}
+
+// Net votes across the whole ledger; ideas.votes is this plus ideas.vote_adjustment
+const ledgerVotesExpression = topScoreExpression('all');
+
+// Reddit-style hot score: log-scaled votes plus submission time, so every 45000s
+// (12.5h) of age costs a factor of 10 in votes. It does not depend on now(), which
+// keeps cursors stable between page loads.
+const hotScoreExpression = sql`(
+  sign(ideas.votes) * log(greatest(abs(ideas.votes), 1)::numeric)
+  + (extract(epoch from ideas.submitted_at) - 1134028003) / 45000
+)`;
+
+// Numeric sort keys, all ordered DESC with ideas.id as the tie-breaker
+function ideaSortExpression(sortBy: IdeaSort, window: TopWindow): SQL {
+  switch (sortBy) {
+    case 'recent':
+      return sql`extract(epoch from ideas.submitted_at)`;
+    case 'comments':
+      return commentCountExpression;
+    case 'hot':
+      return hotScoreExpression;
+    case 'top':
+      return topScoreExpression(window);
+    default:
+      return sql`ideas.votes`;
+  }
+}
+
+export function encodeIdeaCursor(cursor: IdeaCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeIdeaCursor(value: string, sort: IdeaSort, window?: TopWindow): IdeaCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    if (
+      cursor?.sort !== sort ||
+      (sort === 'top' && cursor.window !== window) ||
+      typeof cursor.value !== 'string' ||
+      !/^-?\d+(\.\d+)?$/.test(cursor.value) ||
+      !Number.isInteger(cursor.id)
+    ) {
+      return null;
+    }
+    return { sort, window: cursor.window, value: cursor.value, id: cursor.id };
+  } catch {
+    return null;
+  }
+}
+
+// Who is voting: logged-in users vote as themselves, everyone else as their session
+export interface VoterIdentity {
+  sessionId: string;
+  userId: string | null;
+}
+
+export interface VoteResult {
+  votes: number;
+  userVote: VoteType;
+  previousVote: VoteType | null; // null when this voter had never voted on the idea
+  vote: Vote | null; // The ledger row after the change, null if nothing was recorded
+}
+
+// Raw inputs for fraud scoring, measured relative to the vote's createdAt
+export interface VoteFraudSignals {
+  sessionsOnIp: number; // Distinct sessions that voted from this IP in the preceding 24h
+  otherVotersOnIdeaFromIp: number; // Other identities that voted on the same idea from this IP
+  votesOnIdeaInBurst: number; // Votes on the same idea in the preceding 10 minutes, this one included
+  sessionAgeMs: number | null; // Time from session creation to the vote, null if the session is unknown
+}
+
+export type FlaggedVote = Vote & { ideaUseCase: string | null };
+
+// An idea picked for the weekly digest, with its activity during the covered week
+export interface DigestIdea {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  categoryLabel: string;
+  votes: number;
+  weekVotes: number;
+  weekComments: number;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  actor?: string; // Matches actor id or username
+  targetType?: string;
+  targetId?: string;
+  limit: number;
+  offset: number;
+}
+
+// Idea vote counts that trigger a notification to the idea's author
+const voteMilestones = [10, 25, 50, 100, 250, 500, 1000];
+
+// A user's inbox also includes anything addressed to their current session before they signed in
+function notificationRecipientCondition(recipient: VoterIdentity): SQL {
+  const sessionCondition = and(isNull(notifications.userId), eq(notifications.sessionId, recipient.sessionId))!;
+  if (!recipient.userId) return sessionCondition;
+  return recipient.sessionId
+    ? or(eq(notifications.userId, recipient.userId), sessionCondition)!
+    : eq(notifications.userId, recipient.userId);
+}
+
+function isSameIdentity(a: { userId: string | null; sessionId: string | null }, b: { userId: string | null; sessionId: string | null }): boolean {
+  if (a.userId || b.userId) return a.userId === b.userId;
+  return !!a.sessionId && a.sessionId === b.sessionId;
+}
+
+function voterCondition(voter: VoterIdentity, ideaId: number): SQL {
+  return voter.userId
+    ? and(eq(votes.userId, voter.userId), eq(votes.ideaId, ideaId))!
+    : and(eq(votes.sessionId, voter.sessionId), isNull(votes.userId), eq(votes.ideaId, ideaId))!;
+}
 
 export interface IStorage {
   // Ideas
   createIdea(idea: InsertIdea & { sessionId: string }): Promise<Idea>;
-  getIdeas(sortBy?: 'votes' | 'recent' | 'comments', category?: string, tool?: string): Promise<Idea[]>;
+  getIdeas(sortBy?: IdeaSort, category?: string, tagFilter?: TagFilter, page?: { cursor?: IdeaCursor | null; limit: number; window?: TopWindow }): Promise<IdeaPage>;
+  searchIdeas(query: string, options?: { category?: string; tagFilter?: TagFilter; limit?: number; offset?: number }): Promise<{ ideas: IdeaSearchResult[]; total: number }>;
   getIdeaById(id: number): Promise<Idea | undefined>;
+  getIdeasByIds(ids: number[]): Promise<Idea[]>;
+  getIdeasWithCommentCounts(ids: number[]): Promise<IdeaWithCommentCount[]>;
   updateIdea(id: number, updates: Partial<Idea>): Promise<Idea>;
   updateIdeaVotes(id: number, votes: number): Promise<void>;
+  adjustIdeaVotes(id: number, delta: number): Promise<void>;
   deleteIdea(id: number): Promise<void>;
+  enableTrigramMatching(): Promise<void>;
+  findSimilarIdeas(text: string, threshold: number, limit: number): Promise<SimilarIdea[]>;
+  getSimilarIdeaPairs(threshold: number): Promise<SimilarIdeaPair[]>;
+  getIdeaRedirect(id: number): Promise<number | undefined>;
+  mergeIdeas(duplicateId: number, canonicalId: number, mergedBy: string | null): Promise<IdeaMergeResult | undefined>;
+  setIdeaModerationStatus(id: number, status: ModerationStatus | null): Promise<Idea | undefined>;
   
+  // Uploads
+  createUpload(upload: InsertUpload): Promise<Upload>;
+  getUpload(id: number): Promise<Upload | undefined>;
+  getIdeaByMediaUploadId(uploadId: number): Promise<Idea | undefined>;
+  getOrphanedUploads(createdBefore: Date, limit: number): Promise<Upload[]>;
+  deleteUpload(id: number): Promise<void>;
+  getNextIdeaWithDataUrlMedia(afterId: number): Promise<Idea | undefined>;
+  setIdeaMedia(ideaId: number, media: IdeaMedia): Promise<void>;
+
+  // Tags
+  getTagsBySlugs(slugs: string[]): Promise<Tag[]>;
+  getTagsByIds(ids: number[]): Promise<Tag[]>;
+  createTags(tags: InsertTag[]): Promise<Tag[]>;
+  setIdeaTags(ideaId: number, tagIds: number[]): Promise<Idea | undefined>;
+  getIdeaTags(ideaIds: number[]): Promise<IdeaTag[]>;
+  searchTags(prefix: string, options?: { kind?: TagKind; limit?: number }): Promise<TagWithUsage[]>;
+  getTagSummaries(): Promise<TagSummary[]>;
+  mergeTags(fromId: number, intoId: number): Promise<{ ideasMoved: number } | undefined>;
+  getIdeasWithUntaggedTools(afterId: number, limit: number): Promise<Pick<Idea, 'id' | 'tools'>[]>;
+
+  // Categories
+  getCategories(): Promise<CategoryWithUsage[]>;
+  getCategoryById(id: number): Promise<Category | undefined>;
+  createCategories(newCategories: InsertCategory[]): Promise<Category[]>;
+  updateCategory(id: number, updates: UpdateCategory): Promise<Category | undefined>;
+  deleteUnusedCategory(id: number): Promise<Category | undefined>;
+  mergeCategories(fromId: number, intoId: number): Promise<{ ideasMoved: number } | undefined>;
+  getVisibleIdeaCountsByCategory(): Promise<Record<string, number>>;
+  getUnknownIdeaCategories(): Promise<(string | null)[]>;
+  recategorizeIdeas(from: string | null, to: string): Promise<number>;
+
+  // Link previews
+  getLinkPreviews(urls: string[]): Promise<LinkPreview[]>;
+  saveLinkPreview(preview: InsertLinkPreview): Promise<LinkPreview>;
+
   // Subscriptions
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
   getSubscriptionByEmail(email: string): Promise<Subscription | undefined>;
   getAllSubscriptions(): Promise<Subscription[]>;
+  setSubscriptionActive(email: string, active: boolean): Promise<boolean>;
   
   // User Sessions
   createUserSession(session: InsertUserSession): Promise<UserSession>;
@@ -49,13 +364,21 @@ export interface IStorage {
   getRecentlySubmittedIdea(sessionId: string): Promise<Idea | undefined>;
   
   // Votes
-  createVote(vote: InsertVote): Promise<Vote>;
-  getUserVoteForIdea(sessionId: string, ideaId: number): Promise<Vote | undefined>;
+  castVote(voter: VoterIdentity, ideaId: number, voteType: VoteType, ipAddress: string): Promise<VoteResult>;
+  getUserVoteForIdea(voter: VoterIdentity, ideaId: number): Promise<Vote | undefined>;
+  getVotesByVoter(voter: VoterIdentity): Promise<Vote[]>;
   getVoteByIpAndIdea(ipAddress: string, ideaId: number): Promise<Vote | undefined>;
   getRecentVotesByIp(ipAddress: string, timeWindowMs: number): Promise<Vote[]>;
-  getRecentVotesBySession(sessionId: string, timeWindowMs: number): Promise<Vote[]>;
   getAllVotesBySession(sessionId: string): Promise<Vote[]>;
-  deleteVote(sessionId: string, ideaId: number): Promise<void>;
+  recomputeAllIdeaVotes(): Promise<{ duplicateVotesRemoved: number; ideasCorrected: number }>;
+  seedVoteAdjustments(): Promise<number>;
+  
+  // Vote fraud review
+  getVoteFraudSignals(vote: Vote): Promise<VoteFraudSignals>;
+  recordVoteFraudScore(voteId: number, score: number, reasons: string[], flag: boolean): Promise<void>;
+  getVotesForFraudScan(since: Date): Promise<Vote[]>;
+  getFlaggedVotes(): Promise<FlaggedVote[]>;
+  reviewFlaggedVotes(voteIds: number[], status: Extract<VoteStatus, 'approved' | 'voided'>): Promise<{ reviewed: number; ideasRecomputed: number }>;
   
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -64,12 +387,54 @@ export interface IStorage {
   createUser(user: { username: string; email: string; passwordHash: string }): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
   getAllUsers(): Promise<User[]>;
+  getStaffUsers(): Promise<User[]>;
+  
+  // Email verification
+  markEmailVerified(userId: string, email: string): Promise<User | undefined>;
+  claimVerificationEmailSlot(userId: string, minIntervalMs: number): Promise<boolean>;
+  
+  // AI grading queue
+  queueIdeasForGrading(ids?: number[]): Promise<number>;
+  claimIdeasForGrading(limit: number, leaseMs: number): Promise<Idea[]>;
+  recordIdeaGrade(id: number, grade: IdeaGradeRecord): Promise<void>;
+  recordIdeaGradeFailure(id: number, attempts: number, nextAttemptAt: Date | null): Promise<void>;
+  getIdeaGrades(ideaIds: number[]): Promise<IdeaGrade[]>;
+  countIdeaGradesSince(ideaId: number, since: Date): Promise<number>;
+  
+  // Weekly digest
+  getDigestIdeas(periodStart: Date, periodEnd: Date, perCategory: number): Promise<DigestIdea[]>;
+  getDigestRecipients(issueId: number): Promise<string[]>;
+  countDigestRecipients(): Promise<number>;
+  recordDigestSend(issueId: number, email: string): Promise<boolean>;
+  markDigestSendFailed(issueId: number, email: string): Promise<void>;
+  getDigestIssues(limit: number): Promise<DigestIssue[]>;
+  getDigestIssueById(id: number): Promise<DigestIssue | undefined>;
+  getDueDigestIssues(): Promise<DigestIssue[]>;
+  scheduleDigestIssue(periodStart: Date, scheduledFor: Date, createdBy: string | null): Promise<DigestIssue | undefined>;
+  claimDigestIssue(id: number): Promise<DigestIssue | undefined>;
+  completeDigestIssue(id: number, recipientCount: number, status: 'sent' | 'scheduled'): Promise<void>;
+  cancelDigestIssue(id: number): Promise<DigestIssue | undefined>;
+  
+  // Notifications
+  getNotifications(recipient: VoterIdentity, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(recipient: VoterIdentity): Promise<number>;
+  markNotificationsRead(recipient: VoterIdentity, ids?: number[]): Promise<number>;
+  
+  // Notification preferences
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: string, updates: UpdateNotificationPreferences): Promise<NotificationPreferences>;
+  
+  // Password reset
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<User | undefined>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
   
   // Comments
-  createComment(comment: InsertComment): Promise<Comment>;
-  getCommentsByIdeaId(ideaId: number): Promise<(Comment & { user: User | null })[]>;
+  createComment(comment: InsertComment & Partial<ModerationFields>): Promise<Comment>;
+  getCommentsByIdeaId(ideaId: number): Promise<(Comment & { user: CommentAuthor | null })[]>;
   getCommentById(id: number): Promise<Comment | undefined>;
-  getAllComments(): Promise<(Comment & { user: User | null; idea: { useCase: string } })[]>;
+  getCommentsByIds(ids: number[]): Promise<Comment[]>;
+  getAllComments(): Promise<(Comment & { user: CommentAuthor | null; idea: { useCase: string } })[]>;
   deleteComment(id: number, userId: string): Promise<void>;
   adminDeleteComment(id: number): Promise<void>;
   bulkDeleteComments(ids: number[]): Promise<void>;
@@ -78,9 +443,26 @@ export interface IStorage {
   voteOnComment(commentId: number, sessionId: string, ipAddress: string, voteType: 'up' | 'down'): Promise<void>;
   getCommentVote(commentId: number, sessionId: string): Promise<CommentVote | undefined>;
   updateCommentVotes(commentId: number, votes: number): Promise<void>;
-  getRecentCommentVotesBySession(sessionId: string, timeWindowMs: number): Promise<CommentVote[]>;
-  getRecentCommentVotesByIp(ipAddress: string, timeWindowMs: number): Promise<CommentVote[]>;
   updateCommentUsername(commentId: number, sessionId: string, username: string): Promise<void>;
+  editComment(id: number, content: string, moderation?: ModerationFields): Promise<Comment | undefined>;
+  getCommentRevisions(commentId: number): Promise<CommentRevision[]>;
+  setCommentModerationStatus(id: number, status: ModerationStatus | null): Promise<Comment | undefined>;
+
+  // Content filter
+  getContentFilterTerms(): Promise<ContentFilterTerm[]>;
+  addContentFilterTerms(terms: InsertContentFilterTerm[], createdBy: string | null): Promise<ContentFilterTerm[]>;
+  updateContentFilterTerm(id: number, action: ContentFilterAction): Promise<ContentFilterTerm | undefined>;
+  deleteContentFilterTerm(id: number): Promise<ContentFilterTerm | undefined>;
+  getModerationQueue(): Promise<ModerationQueue>;
+
+  // Rate limiting
+  updateRateLimitBucket(key: string, update: (bucket: RateLimitBucket | undefined) => RateLimitBucketState): Promise<RateLimitBucketState>;
+  deleteStaleRateLimitBuckets(before: Date): Promise<number>;
+  
+  // Audit log
+  createAuditLogEntries(entries: InsertAuditLogEntry[]): Promise<void>;
+  getAuditLog(filters: AuditLogFilters): Promise<{ entries: AuditLogEntry[]; total: number }>;
+  getAuditLogActions(): Promise<string[]>;
   
   // User-specific queries for dashboard
   getIdeasByUserId(userId: string): Promise<Idea[]>;
@@ -101,11 +483,17 @@ export class DatabaseStorage implements IStorage {
       category: insertIdea.category || "other",
       tools: insertIdea.tools || null,
       linkUrl: insertIdea.linkUrl || null,
-      aiGrade: insertIdea.aiGrade || null,
       votes: 1,
+      // Queue the new idea for AI grading
+      aiGradeStatus: 'pending',
+      aiGradeNextAttemptAt: new Date(),
       postType: insertIdea.postType || "text",
+      mediaUploadId: insertIdea.mediaUploadId || null,
       mediaUrl: insertIdea.mediaUrl || null,
-      mediaType: insertIdea.mediaType || null
+      mediaType: insertIdea.mediaType || null,
+      mediaThumbnailUrl: insertIdea.mediaThumbnailUrl || null,
+      moderationStatus: insertIdea.moderationStatus || null,
+      filterMatches: insertIdea.filterMatches || null
     };
     
     const [idea] = await db
@@ -115,63 +503,110 @@ export class DatabaseStorage implements IStorage {
     return idea;
   }
 
-  async getIdeas(sortBy: 'votes' | 'recent' | 'comments' = 'votes', category?: string, tool?: string): Promise<Idea[]> {
-    // Always include comment count for all queries
+  async getIdeas(
+    sortBy: IdeaSort = 'votes',
+    category?: string,
+    tagFilter?: TagFilter,
+    page?: { cursor?: IdeaCursor | null; limit: number; window?: TopWindow }
+  ): Promise<IdeaPage> {
+    const window = page?.window || 'all';
+    const sortExpression = ideaSortExpression(sortBy, window);
+    const conditions = this.buildIdeaFilters(category, tagFilter);
+
+    // Keyset pagination: everything strictly after the last row of the previous page
+    if (page?.cursor) {
+      conditions.push(sql`(${sortExpression}, ideas.id) < (${page.cursor.value}::numeric, ${page.cursor.id})`);
+    }
+
     const query = db
       .select({
-        id: ideas.id,
-        sessionId: ideas.sessionId,
-        title: ideas.title,
-        description: ideas.description,
-        useCase: ideas.useCase,
-        category: ideas.category,
-        tools: ideas.tools,
-        linkUrl: ideas.linkUrl,
-        aiGrade: ideas.aiGrade,
-        votes: ideas.votes,
-        submittedAt: ideas.submittedAt,
-        commentCount: sql<number>`COALESCE(COUNT(${comments.id}), 0)`.as('commentCount')
+        ...getTableColumns(ideas),
+        commentCount: sql<number>`${commentCountExpression}`.as('commentCount'),
+        sortValue: sql<string>`(${sortExpression})::text`.as('sortValue'),
       })
       .from(ideas)
-      .leftJoin(comments, eq(ideas.id, comments.ideaId))
-      .groupBy(ideas.id);
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      // ideas.id breaks ties so rows with equal scores keep a stable order across pages
+      .orderBy(sql`${sortExpression} DESC`, desc(ideas.id))
+      .$dynamic();
 
-    const conditions = [];
-    
-    if (category && category !== 'All') {
-      if (category.toLowerCase() === 'other') {
-        conditions.push(or(eq(ideas.category, 'Other'), eq(ideas.category, 'other'), isNull(ideas.category)));
-      } else {
-        conditions.push(eq(ideas.category, category));
-      }
+    // Fetch one extra row to know whether another page exists
+    const rows = page ? await query.limit(page.limit + 1) : await query;
+    const hasMore = !!page && rows.length > page.limit;
+    const pageRows = hasMore ? rows.slice(0, page!.limit) : rows;
+    const lastRow = pageRows[pageRows.length - 1];
+
+    return {
+      ideas: pageRows.map(({ sortValue, commentCount, ...idea }) => ({
+        ...idea,
+        commentCount: Number(commentCount) || 0,
+      })),
+      nextCursor: hasMore && lastRow
+        ? encodeIdeaCursor({
+            sort: sortBy,
+            window: sortBy === 'top' ? window : undefined,
+            value: lastRow.sortValue,
+            id: lastRow.id,
+          })
+        : null,
+    };
+  }
+
+  async searchIdeas(
+    query: string,
+    { category, tagFilter, limit = 20, offset = 0 }: { category?: string; tagFilter?: TagFilter; limit?: number; offset?: number } = {}
+  ): Promise<{ ideas: IdeaSearchResult[]; total: number }> {
+    // websearch_to_tsquery accepts raw user input ("quoted phrases", -exclusions, or) without syntax errors
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const document = ideaSearchVector(ideas);
+    const conditions = [sql`${document} @@ ${tsQuery}`, ...this.buildIdeaFilters(category, tagFilter)];
+
+    const rows = await db
+      .select({
+        idea: ideas,
+        rank: sql<number>`ts_rank_cd(${document}, ${tsQuery})`.as('rank'),
+        // Matches are wrapped in [[ ]] markers; the client turns them into <mark> elements
+        snippet: sql<string>`ts_headline('english', coalesce(${ideas.useCase}, ${ideas.description}), ${tsQuery}, 'StartSel="[[", StopSel="]]", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')`.as('snippet'),
+        commentCount: sql<number>`${commentCountExpression}`.as('commentCount'),
+        total: sql<number>`COUNT(*) OVER ()`.as('total'),
+      })
+      .from(ideas)
+      .where(and(...conditions))
+      .orderBy(sql`rank DESC`, desc(ideas.votes), desc(ideas.id))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      ideas: rows.map(row => ({
+        ...row.idea,
+        rank: Number(row.rank),
+        snippet: row.snippet,
+        commentCount: Number(row.commentCount) || 0,
+      })),
+      total: rows.length > 0 ? Number(rows[0].total) : 0,
+    };
+  }
+
+  // Shared category/tag filters for the feed and search; ideas held for review never show
+  private buildIdeaFilters(category?: string, tagFilter?: TagFilter): SQL[] {
+    const conditions: SQL[] = [sql`${ideas.moderationStatus} IS DISTINCT FROM 'held'`];
+
+    if (category) {
+      conditions.push(eq(ideas.category, category));
     }
-    
-    if (tool && tool !== 'All') {
-      if (tool.toLowerCase() === 'other') {
-        conditions.push(or(eq(ideas.tools, 'Other'), eq(ideas.tools, 'other'), isNull(ideas.tools)));
+
+    if (tagFilter) {
+      const tagIds = Array.from(new Set(tagFilter.tagIds));
+      if (tagIds.length === 0) {
+        conditions.push(sql`false`);
       } else {
-        conditions.push(sql`LOWER(${ideas.tools}) = LOWER(${tool})`);
+        const matching = sql`SELECT COUNT(*) FROM idea_tags WHERE idea_tags.idea_id = ideas.id AND idea_tags.tag_id IN (${sql.join(tagIds.map(id => sql`${id}`), sql`, `)})`;
+        // (idea_id, tag_id) is unique, so the count is how many of the tags the idea has
+        conditions.push(tagFilter.match === 'all' ? sql`(${matching}) = ${tagIds.length}` : sql`(${matching}) > 0`);
       }
     }
-    
-    let finalQuery = query;
-    if (conditions.length > 0) {
-      finalQuery = query.where(and(...conditions)) as any;
-    }
-    
-    if (sortBy === 'comments') {
-      const results = await finalQuery.orderBy(sql`commentCount DESC`);
-      // Convert results back to Idea format (remove commentCount)
-      return results.map(({ commentCount, ...idea }) => idea as Idea);
-    } else if (sortBy === 'votes') {
-      const results = await finalQuery.orderBy(desc(ideas.votes));
-      // Convert results back to Idea format (remove commentCount)
-      return results.map(({ commentCount, ...idea }) => idea as Idea);
-    } else {
-      const results = await finalQuery.orderBy(desc(ideas.submittedAt));
-      // Convert results back to Idea format (remove commentCount)
-      return results.map(({ commentCount, ...idea }) => idea as Idea);
-    }
+
+    return conditions;
   }
 
   async getIdeaById(id: number): Promise<Idea | undefined> {
@@ -179,17 +614,449 @@ export class DatabaseStorage implements IStorage {
     return idea || undefined;
   }
 
+  async getIdeasByIds(ids: number[]): Promise<Idea[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(ideas).where(inArray(ideas.id, ids));
+  }
+
+  async getIdeasWithCommentCounts(ids: number[]): Promise<IdeaWithCommentCount[]> {
+    if (ids.length === 0) return [];
+    const rows = await db
+      .select({ ...getTableColumns(ideas), commentCount: sql<number>`${commentCountExpression}`.as('commentCount') })
+      .from(ideas)
+      .where(inArray(ideas.id, ids));
+    return rows.map(row => ({ ...row, commentCount: Number(row.commentCount) || 0 }));
+  }
+
   async updateIdea(id: number, updates: Partial<Idea>): Promise<Idea> {
     const [idea] = await db.update(ideas).set(updates).where(eq(ideas.id, id)).returning();
     return idea;
   }
 
+  // Admin override: keep the ledger intact and absorb the difference into the adjustment
   async updateIdeaVotes(id: number, votes: number): Promise<void> {
-    await db.update(ideas).set({ votes }).where(eq(ideas.id, id));
+    await db.update(ideas)
+      .set({
+        votes,
+        voteAdjustment: sql`${votes}::integer - ${ledgerVotesExpression}`,
+      })
+      .where(eq(ideas.id, id));
+  }
+
+  async adjustIdeaVotes(id: number, delta: number): Promise<void> {
+    await db.update(ideas)
+      .set({
+        votes: sql`ideas.votes + ${delta}::integer`,
+        voteAdjustment: sql`ideas.vote_adjustment + ${delta}::integer`,
+      })
+      .where(eq(ideas.id, id));
   }
 
   async deleteIdea(id: number): Promise<void> {
-    await db.delete(ideas).where(eq(ideas.id, id));
+    await db.transaction(async (tx) => {
+      await tx.delete(ideaTags).where(eq(ideaTags.ideaId, id));
+      await tx.delete(ideas).where(eq(ideas.id, id));
+    });
+  }
+
+  // Just the text of every idea, for duplicate detection. Ideas held for review are left out, as they are from the feed.
+  // The trigram index on ideas needs pg_trgm, which schema pushes don't install
+  async enableTrigramMatching(): Promise<void> {
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+  }
+
+  // `%` finds candidates through the trigram index at pg_trgm's own, lower threshold; the
+  // similarity check then applies ours
+  async findSimilarIdeas(text: string, threshold: number, limit: number): Promise<SimilarIdea[]> {
+    const document = ideaSimilarityText(ideas);
+    const score = sql<number>`similarity(${document}, ${text})`;
+    return await db
+      .select({ id: ideas.id, title: ideas.title, similarity: score.mapWith(Number) })
+      .from(ideas)
+      .where(and(
+        sql`${document} % ${text}`,
+        sql`${score} >= ${threshold}`,
+        sql`${ideas.moderationStatus} IS DISTINCT FROM 'held'`
+      ))
+      .orderBy(desc(score), asc(ideas.id))
+      .limit(limit);
+  }
+
+  // Every pair of visible ideas at or above the threshold, each pair once
+  async getSimilarIdeaPairs(threshold: number): Promise<SimilarIdeaPair[]> {
+    const other = alias(ideas, 'other');
+    const score = sql<number>`similarity(${ideaSimilarityText(ideas)}, ${ideaSimilarityText(other)})`;
+    return await db
+      .select({ id: ideas.id, otherId: other.id, similarity: score.mapWith(Number) })
+      .from(ideas)
+      .innerJoin(other, and(
+        sql`${ideas.id} < ${other.id}`,
+        sql`${ideaSimilarityText(other)} % ${ideaSimilarityText(ideas)}`
+      ))
+      .where(and(
+        sql`${score} >= ${threshold}`,
+        sql`${ideas.moderationStatus} IS DISTINCT FROM 'held'`,
+        sql`${other.moderationStatus} IS DISTINCT FROM 'held'`
+      ));
+  }
+
+  async getIdeaRedirect(id: number): Promise<number | undefined> {
+    const [redirect] = await db.select().from(ideaRedirects).where(eq(ideaRedirects.fromId, id));
+    return redirect?.toId;
+  }
+
+  async setIdeaModerationStatus(id: number, status: ModerationStatus | null): Promise<Idea | undefined> {
+    const [idea] = await db.update(ideas).set({ moderationStatus: status }).where(eq(ideas.id, id)).returning();
+    return idea || undefined;
+  }
+
+  // Folds a duplicate into the canonical idea: votes and comments move over, the duplicate is
+  // deleted along with its tags and its id redirects to the canonical one. Undefined if either idea doesn't exist.
+  async mergeIdeas(duplicateId: number, canonicalId: number, mergedBy: string | null): Promise<IdeaMergeResult | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock in id order so two merges of the same pair can't deadlock
+      const locked = await tx.select({ id: ideas.id, voteAdjustment: ideas.voteAdjustment })
+        .from(ideas)
+        .where(inArray(ideas.id, [duplicateId, canonicalId]))
+        .orderBy(asc(ideas.id))
+        .for('update');
+      const duplicate = locked.find(idea => idea.id === duplicateId);
+      if (locked.length !== 2 || !duplicate) return undefined;
+
+      // One vote per identity per idea: a voter who voted on both keeps the canonical vote
+      const moved = await tx.execute(sql`
+        UPDATE votes SET idea_id = ${canonicalId}
+        WHERE idea_id = ${duplicateId}
+          AND NOT EXISTS (
+            SELECT 1 FROM votes AS existing
+            WHERE existing.idea_id = ${canonicalId}
+              AND CASE
+                WHEN votes.user_id IS NOT NULL THEN existing.user_id = votes.user_id
+                ELSE existing.user_id IS NULL AND existing.session_id = votes.session_id
+              END
+          )
+      `);
+      // A dropped vote awaiting fraud review passes its flag to the same voter's canonical vote,
+      // so the review queue doesn't lose it
+      await tx.execute(sql`
+        UPDATE votes AS kept
+        SET status = 'flagged',
+            fraud_score = GREATEST(kept.fraud_score, dropped.fraud_score),
+            fraud_reasons = dropped.fraud_reasons,
+            updated_at = NOW()
+        FROM votes AS dropped
+        WHERE dropped.idea_id = ${duplicateId}
+          AND dropped.status = 'flagged'
+          AND kept.idea_id = ${canonicalId}
+          AND kept.status = 'active'
+          AND CASE
+            WHEN dropped.user_id IS NOT NULL THEN kept.user_id = dropped.user_id
+            ELSE kept.user_id IS NULL AND kept.session_id = dropped.session_id
+          END
+      `);
+      const dropped = await tx.delete(votes).where(eq(votes.ideaId, duplicateId)).returning({ id: votes.id });
+
+      const movedComments = await tx.update(comments)
+        .set({ ideaId: canonicalId })
+        .where(eq(comments.ideaId, duplicateId))
+        .returning({ id: comments.id });
+
+      // Ideas previously merged into the duplicate now point straight at the canonical idea
+      await tx.update(ideaRedirects).set({ toId: canonicalId }).where(eq(ideaRedirects.toId, duplicateId));
+      await tx.insert(ideaRedirects).values({ fromId: duplicateId, toId: canonicalId, mergedBy });
+      await tx.delete(ideaTags).where(eq(ideaTags.ideaId, duplicateId));
+      // Grades judged the duplicate's own text, so they go with it
+      await tx.delete(ideaGrades).where(eq(ideaGrades.ideaId, duplicateId));
+      // Comment notifications follow their comments; vote milestones were about the duplicate's count
+      await tx.update(notifications)
+        .set({ ideaId: canonicalId })
+        .where(and(eq(notifications.ideaId, duplicateId), isNull(notifications.milestone)));
+      await tx.delete(notifications).where(eq(notifications.ideaId, duplicateId));
+      await tx.delete(ideas).where(eq(ideas.id, duplicateId));
+
+      const [canonical] = await tx.update(ideas)
+        .set({ votes: sql`ideas.vote_adjustment + ${ledgerVotesExpression}` })
+        .where(eq(ideas.id, canonicalId))
+        .returning({ votes: ideas.votes });
+
+      return {
+        votesMoved: moved.rowCount ?? 0,
+        votesDropped: dropped.length,
+        commentsMoved: movedComments.length,
+        votes: canonical.votes,
+        voteAdjustmentDropped: duplicate.voteAdjustment ?? 0,
+      };
+    });
+  }
+
+  // Uploads
+  async createUpload(upload: InsertUpload): Promise<Upload> {
+    const [created] = await db.insert(uploads).values(upload).returning();
+    return created;
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await db.select().from(uploads).where(eq(uploads.id, id));
+    return upload || undefined;
+  }
+
+  async getIdeaByMediaUploadId(uploadId: number): Promise<Idea | undefined> {
+    const [idea] = await db.select().from(ideas).where(eq(ideas.mediaUploadId, uploadId));
+    return idea || undefined;
+  }
+
+  // Uploads no idea points to: never attached, or their idea was deleted or merged away
+  async getOrphanedUploads(createdBefore: Date, limit: number): Promise<Upload[]> {
+    return await db.select()
+      .from(uploads)
+      .where(and(
+        lt(uploads.createdAt, createdBefore),
+        sql`NOT EXISTS (SELECT 1 FROM ${ideas} WHERE ${ideas.mediaUploadId} = ${uploads.id})`
+      ))
+      .orderBy(asc(uploads.id))
+      .limit(limit);
+  }
+
+  async deleteUpload(id: number): Promise<void> {
+    await db.delete(uploads).where(eq(uploads.id, id));
+  }
+
+  // Media posted before uploads existed was stored inline as a base64 data URL
+  async getNextIdeaWithDataUrlMedia(afterId: number): Promise<Idea | undefined> {
+    const [idea] = await db.select()
+      .from(ideas)
+      .where(and(sql`${ideas.id} > ${afterId}`, sql`${ideas.mediaUrl} LIKE 'data:%'`))
+      .orderBy(asc(ideas.id))
+      .limit(1);
+    return idea || undefined;
+  }
+
+  async setIdeaMedia(ideaId: number, media: IdeaMedia): Promise<void> {
+    await db.update(ideas).set(media).where(eq(ideas.id, ideaId));
+  }
+
+  // Tags
+  async getTagsBySlugs(slugs: string[]): Promise<Tag[]> {
+    if (slugs.length === 0) return [];
+    return await db.select().from(tags).where(inArray(tags.slug, slugs));
+  }
+
+  async getTagsByIds(ids: number[]): Promise<Tag[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(tags).where(inArray(tags.id, ids));
+  }
+
+  // Returns the tag for every slug given, including ones that already existed
+  async createTags(newTags: InsertTag[]): Promise<Tag[]> {
+    if (newTags.length === 0) return [];
+    await db.insert(tags).values(newTags).onConflictDoNothing({ target: tags.slug });
+    return await this.getTagsBySlugs(newTags.map(tag => tag.slug));
+  }
+
+  // Replaces the idea's tags, in the order given, and refreshes ideas.tools to match
+  async setIdeaTags(ideaId: number, tagIds: number[]): Promise<Idea | undefined> {
+    const uniqueTagIds = Array.from(new Set(tagIds));
+    return await db.transaction(async (tx) => {
+      await tx.delete(ideaTags).where(eq(ideaTags.ideaId, ideaId));
+      if (uniqueTagIds.length > 0) {
+        await tx.insert(ideaTags).values(uniqueTagIds.map((tagId, position) => ({ ideaId, tagId, position })));
+      }
+      const [idea] = await tx.update(ideas).set({ tools: toolTagNamesExpression }).where(eq(ideas.id, ideaId)).returning();
+      return idea || undefined;
+    });
+  }
+
+  async getIdeaTags(ideaIds: number[]): Promise<IdeaTag[]> {
+    if (ideaIds.length === 0) return [];
+    return await db
+      .select({ ideaId: ideaTags.ideaId, id: tags.id, slug: tags.slug, name: tags.name, kind: tags.kind })
+      .from(ideaTags)
+      .innerJoin(tags, eq(tags.id, ideaTags.tagId))
+      .where(inArray(ideaTags.ideaId, ideaIds))
+      .orderBy(asc(ideaTags.ideaId), asc(ideaTags.position));
+  }
+
+  // Autocomplete: tags whose name, slug or one of whose aliases starts with the prefix, most used first
+  async searchTags(prefix: string, { kind, limit = 10 }: { kind?: TagKind; limit?: number } = {}): Promise<TagWithUsage[]> {
+    const pattern = `${prefix.toLowerCase().replace(/[\\%_]/g, '\\$&')}%`;
+    const conditions: SQL[] = [isNull(tags.aliasOf)];
+    if (prefix) {
+      conditions.push(sql`(
+        LOWER(tags.name) LIKE ${pattern} OR tags.slug LIKE ${pattern}
+        OR EXISTS (SELECT 1 FROM tags AS alias WHERE alias.alias_of = tags.id AND alias.slug LIKE ${pattern})
+      )`);
+    }
+    if (kind) conditions.push(eq(tags.kind, kind));
+
+    const rows = await db
+      .select({ ...getTableColumns(tags), ideaCount: tagUsageExpression.as('ideaCount') })
+      .from(tags)
+      .where(and(...conditions))
+      .orderBy(sql`"ideaCount" DESC`, asc(tags.name))
+      .limit(limit);
+    return rows.map(row => ({ ...row, ideaCount: Number(row.ideaCount) || 0 }));
+  }
+
+  // Every tag that isn't an alias, with its usage and aliases, for the admin tag manager
+  async getTagSummaries(): Promise<TagSummary[]> {
+    const rows = await db
+      .select({
+        ...getTableColumns(tags),
+        ideaCount: tagUsageExpression.as('ideaCount'),
+        aliases: sql<string[]>`ARRAY(SELECT alias.slug FROM tags AS alias WHERE alias.alias_of = tags.id ORDER BY alias.slug)`.as('aliases'),
+      })
+      .from(tags)
+      .where(isNull(tags.aliasOf))
+      .orderBy(asc(tags.kind), sql`"ideaCount" DESC`, asc(tags.name));
+    return rows.map(row => ({ ...row, ideaCount: Number(row.ideaCount) || 0 }));
+  }
+
+  // Turns one tag into an alias of another: its ideas are retagged, and its own aliases follow it.
+  // Undefined if either tag doesn't exist or the target is itself an alias.
+  async mergeTags(fromId: number, intoId: number): Promise<{ ideasMoved: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock in id order so two merges of the same pair can't deadlock
+      const locked = await tx.select()
+        .from(tags)
+        .where(inArray(tags.id, [fromId, intoId]))
+        .orderBy(asc(tags.id))
+        .for('update');
+      const into = locked.find(tag => tag.id === intoId);
+      if (locked.length !== 2 || !into || into.aliasOf !== null) return undefined;
+
+      // Ideas that already have both tags just lose the merged one
+      const moved = await tx.execute(sql`
+        UPDATE idea_tags SET tag_id = ${intoId}
+        WHERE tag_id = ${fromId}
+          AND NOT EXISTS (SELECT 1 FROM idea_tags AS existing WHERE existing.idea_id = idea_tags.idea_id AND existing.tag_id = ${intoId})
+        RETURNING idea_id
+      `);
+      const dropped = await tx.delete(ideaTags).where(eq(ideaTags.tagId, fromId)).returning({ ideaId: ideaTags.ideaId });
+
+      await tx.update(tags).set({ aliasOf: intoId }).where(eq(tags.aliasOf, fromId));
+      await tx.update(tags).set({ aliasOf: intoId }).where(eq(tags.id, fromId));
+
+      // The merged tag's name may have been listed in ideas.tools
+      const affectedIdeaIds = [...moved.rows.map((row: any) => Number(row.idea_id)), ...dropped.map(row => row.ideaId)];
+      if (affectedIdeaIds.length > 0) {
+        await tx.update(ideas).set({ tools: toolTagNamesExpression }).where(inArray(ideas.id, affectedIdeaIds));
+      }
+      return { ideasMoved: moved.rowCount ?? 0 };
+    });
+  }
+
+  // Ideas from before tags whose free-text tools haven't been converted yet
+  async getIdeasWithUntaggedTools(afterId: number, limit: number): Promise<Pick<Idea, 'id' | 'tools'>[]> {
+    return await db.select({ id: ideas.id, tools: ideas.tools })
+      .from(ideas)
+      .where(and(
+        sql`${ideas.id} > ${afterId}`,
+        sql`${ideas.tools} IS NOT NULL`,
+        sql`NOT EXISTS (SELECT 1 FROM idea_tags WHERE idea_tags.idea_id = ideas.id)`
+      ))
+      .orderBy(asc(ideas.id))
+      .limit(limit);
+  }
+
+  // Categories
+  async getCategories(): Promise<CategoryWithUsage[]> {
+    const rows = await db
+      .select({ ...getTableColumns(categories), ideaCount: categoryUsageExpression.as('ideaCount') })
+      .from(categories)
+      .orderBy(asc(categories.sortOrder), asc(categories.label));
+    return rows.map(row => ({ ...row, ideaCount: Number(row.ideaCount) || 0 }));
+  }
+
+  async getCategoryById(id: number): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category || undefined;
+  }
+
+  // Returns the category for every slug given, including ones that already existed
+  async createCategories(newCategories: InsertCategory[]): Promise<Category[]> {
+    if (newCategories.length === 0) return [];
+    await db.insert(categories).values(newCategories).onConflictDoNothing({ target: categories.slug });
+    return await db.select().from(categories).where(inArray(categories.slug, newCategories.map(category => category.slug)));
+  }
+
+  async updateCategory(id: number, updates: UpdateCategory): Promise<Category | undefined> {
+    if (Object.keys(updates).length === 0) return await this.getCategoryById(id);
+    const [category] = await db.update(categories).set(updates).where(eq(categories.id, id)).returning();
+    return category || undefined;
+  }
+
+  // Undefined if the category doesn't exist or still has ideas
+  async deleteUnusedCategory(id: number): Promise<Category | undefined> {
+    const [deleted] = await db.delete(categories)
+      .where(and(eq(categories.id, id), sql`NOT EXISTS (SELECT 1 FROM ideas WHERE ideas.category = categories.slug)`))
+      .returning();
+    return deleted || undefined;
+  }
+
+  // Moves every idea in one category to another and deletes the emptied category.
+  // Undefined if either category doesn't exist.
+  async mergeCategories(fromId: number, intoId: number): Promise<{ ideasMoved: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock in id order so two merges of the same pair can't deadlock
+      const locked = await tx.select()
+        .from(categories)
+        .where(inArray(categories.id, [fromId, intoId]))
+        .orderBy(asc(categories.id))
+        .for('update');
+      const from = locked.find(category => category.id === fromId);
+      const into = locked.find(category => category.id === intoId);
+      if (!from || !into) return undefined;
+
+      const moved = await tx.update(ideas)
+        .set({ category: into.slug })
+        .where(eq(ideas.category, from.slug))
+        .returning({ id: ideas.id });
+      await tx.delete(categories).where(eq(categories.id, fromId));
+      return { ideasMoved: moved.length };
+    });
+  }
+
+  // Ideas per category slug, leaving out ideas held for review
+  async getVisibleIdeaCountsByCategory(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ category: ideas.category, count: sql<number>`COUNT(*)` })
+      .from(ideas)
+      .where(sql`${ideas.moderationStatus} IS DISTINCT FROM 'held'`)
+      .groupBy(ideas.category);
+    return Object.fromEntries(rows.filter(row => row.category !== null).map(row => [row.category!, Number(row.count) || 0]));
+  }
+
+  // Values in ideas.category that aren't a category slug, including null
+  async getUnknownIdeaCategories(): Promise<(string | null)[]> {
+    const rows = await db
+      .selectDistinct({ category: ideas.category })
+      .from(ideas)
+      .where(sql`${ideas.category} IS NULL OR NOT EXISTS (SELECT 1 FROM categories WHERE categories.slug = ideas.category)`);
+    return rows.map(row => row.category);
+  }
+
+  async recategorizeIdeas(from: string | null, to: string): Promise<number> {
+    const updated = await db.update(ideas)
+      .set({ category: to })
+      .where(from === null ? isNull(ideas.category) : eq(ideas.category, from))
+      .returning({ id: ideas.id });
+    return updated.length;
+  }
+
+  // Link previews
+  async getLinkPreviews(urls: string[]): Promise<LinkPreview[]> {
+    if (urls.length === 0) return [];
+    return await db.select().from(linkPreviews).where(inArray(linkPreviews.url, urls));
+  }
+
+  // A refetch replaces the previous result for the URL
+  async saveLinkPreview(preview: InsertLinkPreview): Promise<LinkPreview> {
+    const { url, ...fields } = preview;
+    const [saved] = await db.insert(linkPreviews)
+      .values(preview)
+      .onConflictDoUpdate({ target: linkPreviews.url, set: fields })
+      .returning();
+    return saved;
   }
 
   // Subscriptions
@@ -210,6 +1077,15 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(subscriptions);
   }
 
+  // Unsubscribes (or re-subscribes) an address; false if it was never subscribed
+  async setSubscriptionActive(email: string, active: boolean): Promise<boolean> {
+    const updated = await db.update(subscriptions)
+      .set({ unsubscribedAt: active ? null : new Date() })
+      .where(sql`lower(${subscriptions.email}) = lower(${email})`)
+      .returning({ id: subscriptions.id });
+    return updated.length > 0;
+  }
+
   // User Sessions
   async createUserSession(insertSession: InsertUserSession): Promise<UserSession> {
     const [session] = await db
@@ -257,21 +1133,75 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Votes
-  async createVote(insertVote: InsertVote): Promise<Vote> {
-    const [vote] = await db
-      .insert(votes)
-      .values(insertVote)
-      .returning();
-    return vote;
+  async castVote(voter: VoterIdentity, ideaId: number, voteType: VoteType, ipAddress: string): Promise<VoteResult> {
+    return await db.transaction(async (tx) => {
+      // Lock the idea so concurrent votes on it are applied one at a time
+      const [lockedIdea] = await tx.select({
+        votes: ideas.votes,
+        title: ideas.title,
+        userId: ideas.userId,
+        sessionId: ideas.sessionId,
+      }).from(ideas).where(eq(ideas.id, ideaId)).for('update');
+
+      const [existingVote] = await tx.select().from(votes).where(voterCondition(voter, ideaId));
+      const previousVote = (existingVote?.voteType as VoteType | undefined) ?? null;
+
+      if (existingVote) {
+        if (existingVote.voteType !== voteType) {
+          await tx.update(votes)
+            .set({ voteType, ipAddress, updatedAt: new Date() })
+            .where(eq(votes.id, existingVote.id));
+        }
+      } else if (voteType !== 'none') {
+        await tx.insert(votes).values({
+          sessionId: voter.sessionId,
+          userId: voter.userId,
+          ideaId,
+          voteType,
+          ipAddress,
+        });
+      }
+
+      const [idea] = await tx.update(ideas)
+        .set({ votes: sql`ideas.vote_adjustment + ${ledgerVotesExpression}` })
+        .where(eq(ideas.id, ideaId))
+        .returning({ votes: ideas.votes });
+
+      // Let the author know when the idea passes a vote milestone for the first time
+      const owner = lockedIdea && { userId: lockedIdea.userId, sessionId: lockedIdea.sessionId };
+      if (idea && owner && (owner.userId || owner.sessionId) && !isSameIdentity(owner, voter)) {
+        const crossed = voteMilestones.filter(milestone => lockedIdea.votes < milestone && idea.votes >= milestone);
+        if (crossed.length > 0) {
+          await tx.insert(notifications)
+            .values(crossed.map(milestone => ({
+              ...owner,
+              type: 'idea_votes',
+              ideaId,
+              milestone,
+              message: `Your idea "${lockedIdea.title}" reached ${milestone} votes`,
+            })))
+            .onConflictDoNothing();
+        }
+      }
+
+      const [vote] = await tx.select().from(votes).where(voterCondition(voter, ideaId));
+      return { votes: idea.votes, userVote: voteType, previousVote, vote: vote || null };
+    });
   }
 
-  async getUserVoteForIdea(sessionId: string, ideaId: number): Promise<Vote | undefined> {
-    const [vote] = await db.select().from(votes).where(
-      and(eq(votes.sessionId, sessionId), eq(votes.ideaId, ideaId))
-    );
+  async getUserVoteForIdea(voter: VoterIdentity, ideaId: number): Promise<Vote | undefined> {
+    const [vote] = await db.select().from(votes).where(voterCondition(voter, ideaId));
     return vote || undefined;
   }
 
+  async getVotesByVoter(voter: VoterIdentity): Promise<Vote[]> {
+    return await db.select().from(votes).where(
+      voter.userId
+        ? eq(votes.userId, voter.userId)
+        : and(eq(votes.sessionId, voter.sessionId), isNull(votes.userId))
+    );
+  }
+
   async getVoteByIpAndIdea(ipAddress: string, ideaId: number): Promise<Vote | undefined> {
     const [vote] = await db.select().from(votes).where(
       and(eq(votes.ipAddress, ipAddress), eq(votes.ideaId, ideaId))
@@ -286,23 +1216,128 @@ export class DatabaseStorage implements IStorage {
     return allVotes.filter(vote => vote.createdAt >= cutoffTime);
   }
 
-  async getRecentVotesBySession(sessionId: string, timeWindowMs: number): Promise<Vote[]> {
-    const cutoffTime = new Date(Date.now() - timeWindowMs);
-    // Get all votes from this session and filter in memory
-    const allVotes = await db.select().from(votes).where(eq(votes.sessionId, sessionId));
-    return allVotes.filter(vote => vote.createdAt >= cutoffTime);
-  }
-
   async getAllVotesBySession(sessionId: string): Promise<Vote[]> {
     return await db.select().from(votes).where(eq(votes.sessionId, sessionId));
   }
 
-  async deleteVote(sessionId: string, ideaId: number): Promise<void> {
-    await db.delete(votes).where(
-      and(eq(votes.sessionId, sessionId), eq(votes.ideaId, ideaId))
+  // Ideas from before vote counts were derived from the ledger have no adjustment yet. Whatever
+  // their count holds beyond the ledger (reward boosts, admin overrides) becomes the adjustment,
+  // so deriving the count doesn't lose it. Runs before the server takes requests.
+  async seedVoteAdjustments(): Promise<number> {
+    const seeded = await db.update(ideas)
+      .set({ voteAdjustment: sql`ideas.votes - ${ledgerVotesExpression}` })
+      .where(isNull(ideas.voteAdjustment))
+      .returning({ id: ideas.id });
+    return seeded.length;
+  }
+
+  // Repairs drift between ideas.votes and the ledger. Also removes the extra rows the old
+  // vote endpoint filed under "<sessionId>-<timestamp>" when a session voted again.
+  async recomputeAllIdeaVotes(): Promise<{ duplicateVotesRemoved: number; ideasCorrected: number }> {
+    return await db.transaction(async (tx) => {
+      const duplicates = await tx.execute(sql`
+        DELETE FROM votes AS duplicate
+        USING votes AS original
+        WHERE duplicate.session_id ~ '-[0-9]{13}$'
+          AND original.session_id = regexp_replace(duplicate.session_id, '-[0-9]{13}$', '')
+          AND original.idea_id = duplicate.idea_id
+      `);
+
+      const corrected = await tx.update(ideas)
+        .set({ votes: sql`ideas.vote_adjustment + ${ledgerVotesExpression}` })
+        .where(sql`ideas.votes <> ideas.vote_adjustment + ${ledgerVotesExpression}`)
+        .returning({ id: ideas.id });
+
+      return { duplicateVotesRemoved: duplicates.rowCount ?? 0, ideasCorrected: corrected.length };
+    });
+  }
+
+  // Vote fraud review
+  async getVoteFraudSignals(vote: Vote): Promise<VoteFraudSignals> {
+    const castAt = vote.createdAt;
+    const result = await db.execute(sql`
+      SELECT
+        (SELECT COUNT(DISTINCT session_id) FROM votes
+          WHERE ip_address = ${vote.ipAddress}
+            AND created_at BETWEEN ${castAt}::timestamp - interval '24 hours' AND ${castAt}::timestamp) AS sessions_on_ip,
+        (SELECT COUNT(*) FROM votes
+          WHERE idea_id = ${vote.ideaId} AND ip_address = ${vote.ipAddress} AND id <> ${vote.id}
+            AND vote_type <> 'none' AND status <> 'voided') AS other_voters_on_idea_from_ip,
+        (SELECT COUNT(*) FROM votes
+          WHERE idea_id = ${vote.ideaId}
+            AND created_at BETWEEN ${castAt}::timestamp - interval '10 minutes' AND ${castAt}::timestamp) AS votes_on_idea_in_burst,
+        (SELECT created_at FROM user_sessions WHERE session_id = ${vote.sessionId}) AS session_created_at
+    `);
+    const row = result.rows[0] as Record<string, any>;
+    const sessionCreatedAt = row.session_created_at ? new Date(row.session_created_at) : null;
+
+    return {
+      sessionsOnIp: Number(row.sessions_on_ip) || 0,
+      otherVotersOnIdeaFromIp: Number(row.other_voters_on_idea_from_ip) || 0,
+      votesOnIdeaInBurst: Number(row.votes_on_idea_in_burst) || 0,
+      sessionAgeMs: sessionCreatedAt ? castAt.getTime() - sessionCreatedAt.getTime() : null,
+    };
+  }
+
+  // Reviewed votes keep their decision; only unreviewed ones move into the queue
+  async recordVoteFraudScore(voteId: number, score: number, reasons: string[], flag: boolean): Promise<void> {
+    await db.update(votes)
+      .set({
+        fraudScore: score,
+        fraudReasons: reasons,
+        ...(flag ? { status: sql`CASE WHEN ${votes.status} = 'active' THEN 'flagged' ELSE ${votes.status} END` } : {}),
+      })
+      .where(eq(votes.id, voteId));
+  }
+
+  async getVotesForFraudScan(since: Date): Promise<Vote[]> {
+    return await db.select().from(votes).where(
+      and(
+        sql`${votes.createdAt} >= ${since}`,
+        eq(votes.status, 'active'),
+        sql`${votes.voteType} <> 'none'`
+      )
     );
   }
 
+  async getFlaggedVotes(): Promise<FlaggedVote[]> {
+    return await db
+      .select({
+        ...getTableColumns(votes),
+        ideaUseCase: ideas.useCase,
+      })
+      .from(votes)
+      .leftJoin(ideas, eq(votes.ideaId, ideas.id))
+      .where(eq(votes.status, 'flagged'))
+      .orderBy(desc(votes.fraudScore), desc(votes.createdAt));
+  }
+
+  async reviewFlaggedVotes(
+    voteIds: number[],
+    status: Extract<VoteStatus, 'approved' | 'voided'>
+  ): Promise<{ reviewed: number; ideasRecomputed: number }> {
+    if (voteIds.length === 0) {
+      return { reviewed: 0, ideasRecomputed: 0 };
+    }
+
+    return await db.transaction(async (tx) => {
+      const reviewed = await tx.update(votes)
+        .set({ status, reviewedAt: new Date() })
+        .where(and(inArray(votes.id, voteIds), eq(votes.status, 'flagged')))
+        .returning({ ideaId: votes.ideaId });
+
+      // Voiding changes the ledger, so bring the affected ideas' counts back in line
+      const ideaIds = Array.from(new Set(reviewed.map(vote => vote.ideaId)));
+      if (status === 'voided' && ideaIds.length > 0) {
+        await tx.update(ideas)
+          .set({ votes: sql`ideas.vote_adjustment + ${ledgerVotesExpression}` })
+          .where(inArray(ideas.id, ideaIds));
+      }
+
+      return { reviewed: reviewed.length, ideasRecomputed: status === 'voided' ? ideaIds.length : 0 };
+    });
+  }
+
   async updateUserSessionActivity(sessionId: string): Promise<void> {
     const now = new Date();
     const session = await this.getUserSession(sessionId);
@@ -394,16 +1429,443 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
+  // AI grading queue
+  // Puts the given ideas (or every idea when ids is omitted) back in the queue with a fresh retry budget
+  async queueIdeasForGrading(ids?: number[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+    const queued = await db.update(ideas)
+      .set({ aiGradeStatus: 'pending', aiGradeAttempts: 0, aiGradeNextAttemptAt: new Date() })
+      .where(ids ? inArray(ideas.id, ids) : undefined)
+      .returning({ id: ideas.id });
+    return queued.length;
+  }
+
+  // Takes a lease on due ideas. If the worker dies mid-grade the lease runs out and the idea
+  // is picked up again.
+  async claimIdeasForGrading(limit: number, leaseMs: number): Promise<Idea[]> {
+    const leaseUntil = new Date(Date.now() + leaseMs);
+    return await db.update(ideas)
+      .set({ aiGradeStatus: 'grading', aiGradeNextAttemptAt: leaseUntil })
+      .where(inArray(ideas.id, sql`(
+        SELECT id FROM ideas
+        WHERE ai_grade_status IN ('pending', 'grading') AND ai_grade_next_attempt_at <= now()
+        ORDER BY ai_grade_next_attempt_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+  }
+
+  // Keeps the latest grade on the idea and appends the run to its grade history
+  async recordIdeaGrade(id: number, grade: IdeaGradeRecord): Promise<void> {
+    const score = grade.score.toFixed(1);
+    await db.transaction(async (tx) => {
+      await tx.update(ideas)
+        .set({
+          aiGrade: score,
+          aiGradeReasoning: grade.reasoning,
+          aiGradeStatus: 'graded',
+          aiGradeNextAttemptAt: null,
+          aiGradedAt: new Date(),
+        })
+        .where(eq(ideas.id, id));
+      await tx.insert(ideaGrades).values({
+        ideaId: id,
+        score,
+        reasoning: grade.reasoning,
+        tips: grade.tips,
+        model: grade.model,
+        rubricVersion: grade.rubricVersion,
+      });
+    });
+  }
+
+  // A null nextAttemptAt means the retries are used up
+  async recordIdeaGradeFailure(id: number, attempts: number, nextAttemptAt: Date | null): Promise<void> {
+    await db.update(ideas)
+      .set({
+        aiGradeStatus: nextAttemptAt ? 'pending' : 'failed',
+        aiGradeAttempts: attempts,
+        aiGradeNextAttemptAt: nextAttemptAt,
+      })
+      .where(eq(ideas.id, id));
+  }
+
+  // Grade history for the given ideas, newest first
+  async getIdeaGrades(ideaIds: number[]): Promise<IdeaGrade[]> {
+    if (ideaIds.length === 0) return [];
+    return await db.select()
+      .from(ideaGrades)
+      .where(inArray(ideaGrades.ideaId, ideaIds))
+      .orderBy(desc(ideaGrades.createdAt), desc(ideaGrades.id));
+  }
+
+  async countIdeaGradesSince(ideaId: number, since: Date): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(ideaGrades)
+      .where(and(eq(ideaGrades.ideaId, ideaId), gte(ideaGrades.createdAt, since)));
+    return result.count;
+  }
+
+  // Weekly digest
+  // Top ideas per category by net votes cast plus comments written during the period
+  async getDigestIdeas(periodStart: Date, periodEnd: Date, perCategory: number): Promise<DigestIdea[]> {
+    const result = await db.execute(sql`
+      SELECT * FROM (
+        SELECT
+          i.id, i.title, i.description, COALESCE(i.category, 'other') AS category, i.votes,
+          COALESCE(cat.label, i.category, 'Other') AS category_label, cat.sort_order,
+          COALESCE(v.week_votes, 0)::int AS week_votes,
+          COALESCE(c.week_comments, 0)::int AS week_comments,
+          ROW_NUMBER() OVER (
+            PARTITION BY COALESCE(i.category, 'other')
+            ORDER BY COALESCE(v.week_votes, 0) + 2 * COALESCE(c.week_comments, 0) DESC, i.votes DESC, i.id DESC
+          ) AS rank
+        FROM ideas i
+        LEFT JOIN (
+          SELECT idea_id, SUM(CASE vote_type WHEN 'up' THEN 1 WHEN 'down' THEN -1 ELSE 0 END) AS week_votes
+          FROM votes
+          WHERE status <> 'voided' AND created_at >= ${periodStart} AND created_at < ${periodEnd}
+          GROUP BY idea_id
+        ) v ON v.idea_id = i.id
+        LEFT JOIN (
+          SELECT idea_id, COUNT(*) AS week_comments
+          FROM comments
+          WHERE created_at >= ${periodStart} AND created_at < ${periodEnd}
+            AND moderation_status IS DISTINCT FROM 'held'
+          GROUP BY idea_id
+        ) c ON c.idea_id = i.id
+        LEFT JOIN categories cat ON cat.slug = i.category
+        WHERE i.moderation_status IS DISTINCT FROM 'held' AND (
+          COALESCE(v.week_votes, 0) > 0
+          OR COALESCE(c.week_comments, 0) > 0
+          OR (i.submitted_at >= ${periodStart} AND i.submitted_at < ${periodEnd})
+        )
+      ) ranked
+      WHERE rank <= ${perCategory}
+      ORDER BY sort_order NULLS LAST, category, rank
+    `);
+    return (result.rows as Record<string, any>[]).map(row => ({
+      id: Number(row.id),
+      title: row.title,
+      description: row.description,
+      category: row.category,
+      categoryLabel: row.category_label,
+      votes: Number(row.votes),
+      weekVotes: Number(row.week_votes),
+      weekComments: Number(row.week_comments),
+    }));
+  }
+
+  // Active subscribers who haven't had this issue yet and haven't turned the digest off in
+  // their notification preferences
+  async getDigestRecipients(issueId: number): Promise<string[]> {
+    const result = await db.execute(sql`
+      SELECT s.email FROM subscriptions s
+      WHERE s.unsubscribed_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM digest_sends d
+          WHERE d.issue_id = ${issueId} AND d.email = lower(s.email) AND d.status = 'sent'
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM users u
+          JOIN notification_preferences p ON p.user_id = u.id
+          WHERE lower(u.email) = lower(s.email) AND p.email_digest = false
+        )
+      ORDER BY s.id
+    `);
+    return (result.rows as { email: string }[]).map(row => row.email);
+  }
+
+  async countDigestRecipients(): Promise<number> {
+    const result = await db.execute(sql`
+      SELECT COUNT(*) AS count FROM subscriptions s
+      WHERE s.unsubscribed_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM users u
+          JOIN notification_preferences p ON p.user_id = u.id
+          WHERE lower(u.email) = lower(s.email) AND p.email_digest = false
+        )
+    `);
+    return Number((result.rows[0] as Record<string, any>)?.count) || 0;
+  }
+
+  // Claims the (issue, email) pair before sending; false if it was already sent.
+  // Earlier failed attempts can be claimed again.
+  async recordDigestSend(issueId: number, email: string): Promise<boolean> {
+    const claimed = await db.insert(digestSends)
+      .values({ issueId, email: email.toLowerCase() })
+      .onConflictDoUpdate({
+        target: [digestSends.issueId, digestSends.email],
+        set: { status: 'sent', sentAt: new Date() },
+        setWhere: sql`${digestSends.status} = 'failed'`,
+      })
+      .returning({ id: digestSends.id });
+    return claimed.length > 0;
+  }
+
+  async markDigestSendFailed(issueId: number, email: string): Promise<void> {
+    await db.update(digestSends)
+      .set({ status: 'failed' })
+      .where(and(eq(digestSends.issueId, issueId), eq(digestSends.email, email.toLowerCase())));
+  }
+
+  async getDigestIssues(limit: number): Promise<DigestIssue[]> {
+    return await db.select().from(digestIssues)
+      .orderBy(desc(digestIssues.periodStart))
+      .limit(limit);
+  }
+
+  async getDigestIssueById(id: number): Promise<DigestIssue | undefined> {
+    const [issue] = await db.select().from(digestIssues).where(eq(digestIssues.id, id));
+    return issue || undefined;
+  }
+
+  async getDueDigestIssues(): Promise<DigestIssue[]> {
+    return await db.select().from(digestIssues)
+      .where(and(eq(digestIssues.status, 'scheduled'), sql`${digestIssues.scheduledFor} <= now()`))
+      .orderBy(asc(digestIssues.scheduledFor));
+  }
+
+  // Creates or reschedules the issue for a period; undefined if it is currently being sent
+  async scheduleDigestIssue(periodStart: Date, scheduledFor: Date, createdBy: string | null): Promise<DigestIssue | undefined> {
+    const [issue] = await db.insert(digestIssues)
+      .values({ periodStart, scheduledFor, createdBy })
+      .onConflictDoUpdate({
+        target: digestIssues.periodStart,
+        set: { scheduledFor, status: 'scheduled' },
+        setWhere: sql`${digestIssues.status} <> 'sending'`,
+      })
+      .returning();
+    return issue || undefined;
+  }
+
+  // Moves an issue into 'sending' so two senders can't run it at once. A send that has been
+  // stuck for over an hour (e.g. the server restarted mid-send) can be claimed again.
+  async claimDigestIssue(id: number): Promise<DigestIssue | undefined> {
+    const [issue] = await db.update(digestIssues)
+      .set({ status: 'sending', startedAt: new Date() })
+      .where(and(
+        eq(digestIssues.id, id),
+        or(
+          sql`${digestIssues.status} <> 'sending'`,
+          sql`${digestIssues.startedAt} < now() - interval '1 hour'`
+        )
+      ))
+      .returning();
+    return issue || undefined;
+  }
+
+  // 'scheduled' puts an interrupted send back in the queue so the scheduler retries it
+  async completeDigestIssue(id: number, recipientCount: number, status: 'sent' | 'scheduled'): Promise<void> {
+    await db.update(digestIssues)
+      .set({
+        status,
+        completedAt: status === 'sent' ? new Date() : null,
+        recipientCount: sql`${digestIssues.recipientCount} + ${recipientCount}`,
+      })
+      .where(eq(digestIssues.id, id));
+  }
+
+  async cancelDigestIssue(id: number): Promise<DigestIssue | undefined> {
+    const [issue] = await db.update(digestIssues)
+      .set({ status: 'cancelled' })
+      .where(and(eq(digestIssues.id, id), eq(digestIssues.status, 'scheduled')))
+      .returning();
+    return issue || undefined;
+  }
+
+  // Notifications
+  async getNotifications(recipient: VoterIdentity, limit: number): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(notificationRecipientCondition(recipient))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(recipient: VoterIdentity): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(notifications)
+      .where(and(notificationRecipientCondition(recipient), isNull(notifications.readAt)));
+    return result?.count || 0;
+  }
+
+  // Marks the given notifications (or all of them when ids is omitted) as read
+  async markNotificationsRead(recipient: VoterIdentity, ids?: number[]): Promise<number> {
+    const conditions = [notificationRecipientCondition(recipient), isNull(notifications.readAt)];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(notifications.id, ids));
+    }
+    const updated = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Notification preferences
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const [preferences] = await db.select().from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    // Users who never saved their preferences get the table defaults
+    return preferences || {
+      userId,
+      emailDigest: true,
+      commentReplies: true,
+      ideaUpvotes: false,
+      weeklyTrends: true,
+      newFeatures: true,
+      communityUpdates: false,
+      updatedAt: new Date(),
+    };
+  }
+
+  async updateNotificationPreferences(userId: string, updates: UpdateNotificationPreferences): Promise<NotificationPreferences> {
+    const [preferences] = await db.insert(notificationPreferences)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return preferences;
+  }
+
+  // Email verification
+  // Only verifies if the account still has the address the link was issued for
+  async markEmailVerified(userId: string, email: string): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ emailVerifiedAt: sql`COALESCE(${users.emailVerifiedAt}, now())`, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), eq(users.email, email)))
+      .returning();
+    return user || undefined;
+  }
+
+  // Atomically records a verification send; false if one went out less than minIntervalMs ago
+  async claimVerificationEmailSlot(userId: string, minIntervalMs: number): Promise<boolean> {
+    const cutoff = new Date(Date.now() - minIntervalMs);
+    const result = await db.update(users)
+      .set({ verificationSentAt: new Date() })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.verificationSentAt), lt(users.verificationSentAt, cutoff))
+      ))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  // Password reset
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Only the most recently requested link stays valid
+      await tx.delete(passwordResetTokens).where(
+        and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt))
+      );
+      await tx.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+    });
+  }
+
+  // Redeems the token, sets the new password and signs the user out everywhere.
+  // Returns undefined when the token is unknown, expired or already used.
+  async resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          sql`${passwordResetTokens.expiresAt} > now()`
+        ))
+        .returning();
+      if (!token) return undefined;
+
+      const [user] = await tx.update(users)
+        .set({ passwordHash, updatedAt: new Date() })
+        .where(eq(users.id, token.userId))
+        .returning();
+      if (!user) return undefined;
+
+      // Login sessions live in the connect-pg-simple "session" table, keyed by passport user id
+      await tx.execute(sql`DELETE FROM "session" WHERE sess -> 'passport' ->> 'user' = ${user.id}`);
+      return user;
+    });
+  }
+
+  async getStaffUsers(): Promise<User[]> {
+    return await db.select().from(users)
+      .where(inArray(users.role, ['moderator', 'admin']))
+      .orderBy(asc(users.username));
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   // Comment operations
-  async createComment(insertComment: InsertComment): Promise<Comment> {
+  async createComment(insertComment: InsertComment & Partial<ModerationFields>): Promise<Comment> {
     const [comment] = await db
       .insert(comments)
       .values(insertComment)
       .returning();
+
+    // Held comments notify nobody until a moderator approves them
+    if (comment.moderationStatus === 'held') return comment;
+    try {
+      await this.notifyForComment(comment);
+    } catch (error) {
+      // Notifications are best-effort; never lose the comment over them
+      console.error('Failed to create comment notifications:', error);
+    }
     return comment;
   }
 
-  async getCommentsByIdeaId(ideaId: number): Promise<(Comment & { user: User | null })[]> {
+  // Tells the parent comment's author about a reply and the idea's author about a new comment
+  private async notifyForComment(comment: Comment): Promise<void> {
+    const author = { userId: comment.userId, sessionId: comment.sessionId };
+    const actor = comment.userId ? await this.getUser(comment.userId) : undefined;
+    const actorName = actor?.username || comment.anonymousUsername || 'Someone';
+    const pending: InsertNotification[] = [];
+    const notified: { userId: string | null; sessionId: string | null }[] = [author];
+
+    if (comment.parentId) {
+      const parent = await this.getCommentById(comment.parentId);
+      const recipient = parent && { userId: parent.userId, sessionId: parent.sessionId };
+      if (recipient && (recipient.userId || recipient.sessionId) && !notified.some(other => isSameIdentity(other, recipient))) {
+        notified.push(recipient);
+        pending.push({
+          ...recipient,
+          type: 'comment_reply',
+          ideaId: comment.ideaId,
+          commentId: comment.id,
+          actorName,
+          message: `${actorName} replied to your comment`,
+        });
+      }
+    }
+
+    const idea = await this.getIdeaById(comment.ideaId);
+    const owner = idea && { userId: idea.userId, sessionId: idea.sessionId };
+    if (idea && owner && (owner.userId || owner.sessionId) && !notified.some(other => isSameIdentity(other, owner))) {
+      pending.push({
+        ...owner,
+        type: 'idea_comment',
+        ideaId: comment.ideaId,
+        commentId: comment.id,
+        actorName,
+        message: `${actorName} commented on your idea "${idea.title}"`,
+      });
+    }
+
+    if (pending.length > 0) {
+      await db.insert(notifications).values(pending);
+    }
+  }
+
+  async getCommentsByIdeaId(ideaId: number): Promise<(Comment & { user: CommentAuthor | null })[]> {
     const result = await db
       .select({
         id: comments.id,
@@ -416,16 +1878,13 @@ export class DatabaseStorage implements IStorage {
         votes: comments.votes,
         createdAt: comments.createdAt,
         updatedAt: comments.updatedAt,
+        editedAt: comments.editedAt,
+        moderationStatus: comments.moderationStatus,
+        filterMatches: comments.filterMatches,
         user: {
           id: users.id,
-          email: users.email,
           username: users.username,
-          passwordHash: users.passwordHash,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
+          emailVerifiedAt: users.emailVerifiedAt,
         },
       })
       .from(comments)
@@ -444,6 +1903,9 @@ export class DatabaseStorage implements IStorage {
       votes: row.votes || 1,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
+      editedAt: row.editedAt,
+      moderationStatus: row.moderationStatus,
+      filterMatches: row.filterMatches,
       user: row.user?.id ? row.user : null,
     }));
   }
@@ -453,18 +1915,23 @@ export class DatabaseStorage implements IStorage {
     return comment;
   }
 
+  async getCommentsByIds(ids: number[]): Promise<Comment[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(comments).where(inArray(comments.id, ids));
+  }
+
   async getCommentCountByIdeaId(ideaId: number): Promise<number> {
     const [result] = await db
       .select({ count: sql<number>`count(*)` })
       .from(comments)
-      .where(eq(comments.ideaId, ideaId));
+      .where(and(eq(comments.ideaId, ideaId), sql`${comments.moderationStatus} IS DISTINCT FROM 'held'`));
     
     return result?.count || 0;
   }
 
 
 
-  async getAllComments(): Promise<(Comment & { user: User | null; idea: { useCase: string } })[]> {
+  async getAllComments(): Promise<(Comment & { user: CommentAuthor | null; idea: { useCase: string } })[]> {
     const result = await db
       .select({
         id: comments.id,
@@ -477,16 +1944,13 @@ export class DatabaseStorage implements IStorage {
         anonymousUsername: comments.anonymousUsername,
         createdAt: comments.createdAt,
         updatedAt: comments.updatedAt,
+        editedAt: comments.editedAt,
+        moderationStatus: comments.moderationStatus,
+        filterMatches: comments.filterMatches,
         user: {
           id: users.id,
-          email: users.email,
           username: users.username,
-          passwordHash: users.passwordHash,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
+          emailVerifiedAt: users.emailVerifiedAt,
         },
         idea: {
           useCase: ideas.useCase,
@@ -503,6 +1967,9 @@ export class DatabaseStorage implements IStorage {
       votes: row.votes,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
+      editedAt: row.editedAt,
+      moderationStatus: row.moderationStatus,
+      filterMatches: row.filterMatches,
       ideaId: row.ideaId,
       parentId: row.parentId,
       anonymousUsername: row.anonymousUsername || null,
@@ -578,17 +2045,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(comments.id, commentId));
   }
 
-  async getRecentCommentVotesBySession(sessionId: string, timeWindowMs: number): Promise<CommentVote[]> {
-    const cutoffTime = new Date(Date.now() - timeWindowMs);
-    return await db
-      .select()
-      .from(commentVotes)
-      .where(and(
-        eq(commentVotes.sessionId, sessionId),
-        sql`${commentVotes.createdAt} > ${cutoffTime}`
-      ));
-  }
-
   async getRecentCommentVotesBySessionAndComment(sessionId: string, commentId: number, timeWindowMs: number): Promise<CommentVote[]> {
     const cutoffTime = new Date(Date.now() - timeWindowMs);
     return await db
@@ -601,17 +2057,6 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
-  async getRecentCommentVotesByIp(ipAddress: string, timeWindowMs: number): Promise<CommentVote[]> {
-    const cutoffTime = new Date(Date.now() - timeWindowMs);
-    return await db
-      .select()
-      .from(commentVotes)
-      .where(and(
-        eq(commentVotes.ipAddress, ipAddress),
-        sql`${commentVotes.createdAt} > ${cutoffTime}`
-      ));
-  }
-
   async getRecentCommentVotesByIpAndComment(ipAddress: string, commentId: number, timeWindowMs: number): Promise<CommentVote[]> {
     const cutoffTime = new Date(Date.now() - timeWindowMs);
     return await db
@@ -634,6 +2079,125 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  // Replaces a comment's content, keeping the previous version as a revision
+  async editComment(id: number, content: string, moderation?: ModerationFields): Promise<Comment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(comments).where(eq(comments.id, id)).for('update');
+      if (!current) return undefined;
+      if (current.content === content) return current;
+
+      const now = new Date();
+      await tx.insert(commentRevisions).values({
+        commentId: id,
+        content: current.content,
+        moderationStatus: current.moderationStatus,
+        createdAt: current.editedAt ?? current.createdAt,
+        replacedAt: now,
+      });
+      const [updated] = await tx.update(comments)
+        .set({ content, editedAt: now, updatedAt: now, ...moderation })
+        .where(eq(comments.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Oldest first
+  async getCommentRevisions(commentId: number): Promise<CommentRevision[]> {
+    return await db.select()
+      .from(commentRevisions)
+      .where(eq(commentRevisions.commentId, commentId))
+      .orderBy(asc(commentRevisions.createdAt), asc(commentRevisions.id));
+  }
+
+  // Approving a held comment sends the notifications it skipped when it was posted
+  async setCommentModerationStatus(id: number, status: ModerationStatus | null): Promise<Comment | undefined> {
+    const [current] = await db.select().from(comments).where(eq(comments.id, id));
+    if (!current) return undefined;
+
+    const [updated] = await db.update(comments)
+      .set({ moderationStatus: status })
+      .where(eq(comments.id, id))
+      .returning();
+    if (current.moderationStatus === 'held' && status !== 'held') {
+      try {
+        await this.notifyForComment(updated);
+      } catch (error) {
+        console.error('Failed to create comment notifications:', error);
+      }
+    }
+    return updated;
+  }
+
+  // Content filter
+  async getContentFilterTerms(): Promise<ContentFilterTerm[]> {
+    return await db.select().from(contentFilterTerms).orderBy(asc(contentFilterTerms.list), asc(contentFilterTerms.term));
+  }
+
+  // Terms already on the same list are skipped; allowlist terms have no action of their own
+  async addContentFilterTerms(terms: InsertContentFilterTerm[], createdBy: string | null): Promise<ContentFilterTerm[]> {
+    if (terms.length === 0) return [];
+    return await db.insert(contentFilterTerms)
+      .values(terms.map(term => ({ ...term, action: term.list === 'allow' ? 'block' : term.action, createdBy })))
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async updateContentFilterTerm(id: number, action: ContentFilterAction): Promise<ContentFilterTerm | undefined> {
+    const [term] = await db.update(contentFilterTerms)
+      .set({ action })
+      .where(and(eq(contentFilterTerms.id, id), eq(contentFilterTerms.list, 'block')))
+      .returning();
+    return term || undefined;
+  }
+
+  async deleteContentFilterTerm(id: number): Promise<ContentFilterTerm | undefined> {
+    const [term] = await db.delete(contentFilterTerms).where(eq(contentFilterTerms.id, id)).returning();
+    return term || undefined;
+  }
+
+  // Held content first, then flagged, newest first within each
+  async getModerationQueue(): Promise<ModerationQueue> {
+    const queuedIdeas = await db.select()
+      .from(ideas)
+      .where(sql`${ideas.moderationStatus} IS NOT NULL`)
+      .orderBy(sql`CASE WHEN ${ideas.moderationStatus} = 'held' THEN 0 ELSE 1 END`, desc(ideas.submittedAt));
+    const queuedComments = await db
+      .select({ comment: comments, ideaTitle: ideas.title })
+      .from(comments)
+      .leftJoin(ideas, eq(comments.ideaId, ideas.id))
+      .where(sql`${comments.moderationStatus} IS NOT NULL`)
+      .orderBy(sql`CASE WHEN ${comments.moderationStatus} = 'held' THEN 0 ELSE 1 END`, desc(comments.createdAt));
+
+    return {
+      ideas: queuedIdeas,
+      comments: queuedComments.map(row => ({ ...row.comment, ideaTitle: row.ideaTitle })),
+    };
+  }
+
+  // Read-modify-write of a rate limit bucket under a row lock, so concurrent requests
+  // from any server instance each see the tokens the previous one left
+  async updateRateLimitBucket(key: string, update: (bucket: RateLimitBucket | undefined) => RateLimitBucketState): Promise<RateLimitBucketState> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(rateLimitBuckets)
+        .values({ key, ...update(undefined) })
+        .onConflictDoNothing()
+        .returning();
+      if (created) return created;
+
+      const [bucket] = await tx.select().from(rateLimitBuckets).where(eq(rateLimitBuckets.key, key)).for('update');
+      const next = update(bucket);
+      await tx.update(rateLimitBuckets).set(next).where(eq(rateLimitBuckets.key, key));
+      return next;
+    });
+  }
+
+  async deleteStaleRateLimitBuckets(before: Date): Promise<number> {
+    const deleted = await db.delete(rateLimitBuckets).where(lt(rateLimitBuckets.updatedAt, before)).returning({ key: rateLimitBuckets.key });
+    return deleted.length;
+  }
+
+
   // User-specific queries for dashboard
   async getIdeasByUserId(userId: string): Promise<Idea[]> {
     return await db
@@ -651,6 +2215,9 @@ export class DatabaseStorage implements IStorage {
         votes: comments.votes,
         createdAt: comments.createdAt,
         updatedAt: comments.updatedAt,
+        editedAt: comments.editedAt,
+        moderationStatus: comments.moderationStatus,
+        filterMatches: comments.filterMatches,
         ideaId: comments.ideaId,
         userId: comments.userId,
         parentId: comments.parentId,
@@ -699,6 +2266,43 @@ export class DatabaseStorage implements IStorage {
       averageScore: Math.round((averageResult[0]?.average || 0) * 10) / 10
     };
   }
+
+  // Audit log
+  async createAuditLogEntries(entries: InsertAuditLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(auditLog).values(entries);
+  }
+
+  async getAuditLog(filters: AuditLogFilters): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+    if (filters.targetType) conditions.push(eq(auditLog.targetType, filters.targetType));
+    if (filters.targetId) conditions.push(eq(auditLog.targetId, filters.targetId));
+    if (filters.actor) {
+      conditions.push(or(eq(auditLog.actorId, filters.actor), sql`LOWER(${auditLog.actorUsername}) = LOWER(${filters.actor})`)!);
+    }
+
+    const rows = await db
+      .select({
+        ...getTableColumns(auditLog),
+        total: sql<number>`COUNT(*) OVER ()`,
+      })
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(filters.limit)
+      .offset(filters.offset);
+
+    return {
+      entries: rows.map(({ total, ...entry }) => entry),
+      total: rows.length > 0 ? Number(rows[0].total) : 0,
+    };
+  }
+
+  async getAuditLogActions(): Promise<string[]> {
+    const rows = await db.selectDistinct({ action: auditLog.action }).from(auditLog).orderBy(asc(auditLog.action));
+    return rows.map(row => row.action);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,277 @@
+import { storage, type TagFilter } from "./storage";
+import { MAX_TAGS_PER_KIND, type Idea, type InsertTag, type PublicTag, type Tag, type TagKind } from "@shared/schema";
+
+// Tools and topics on ideas. Names are reduced to slugs ("GitHub Copilot" -> "github-copilot")
+// and looked up through aliases, so "GPT-4", "gpt4" and "ChatGPT" all end up as the ChatGPT tag.
+// Names nobody has used before become new tags of whichever kind they were entered as.
+
+interface DefaultTool {
+  name: string;
+  aliases: string[];
+}
+
+// Installed on startup if missing: the tools the submission form used to offer, and other
+// spellings people use for them
+export const DEFAULT_TOOL_TAGS: DefaultTool[] = [
+  { name: 'ChatGPT', aliases: ['gpt', 'gpt-3-5', 'gpt-4', 'gpt4', 'gpt-4o', 'gpt-5', 'gpt5', 'openai', 'chat-gpt'] },
+  { name: 'Claude', aliases: ['anthropic', 'claude-ai'] },
+  { name: 'Gemini', aliases: ['bard', 'google-gemini', 'google-bard'] },
+  { name: 'DeepSeek', aliases: ['deep-seek'] },
+  { name: 'Grok', aliases: ['xai'] },
+  { name: 'Perplexity', aliases: ['perplexity-ai'] },
+  { name: 'Manus', aliases: ['manus-ai'] },
+  { name: 'Mistral', aliases: ['mistral-ai', 'le-chat'] },
+  { name: 'Llama', aliases: ['meta-ai', 'llama-2', 'llama-3'] },
+  { name: 'Gumloop', aliases: [] },
+  { name: 'Lindy', aliases: ['lindy-ai'] },
+  { name: 'Midjourney', aliases: ['mj', 'mid-journey'] },
+  { name: 'DALL-E', aliases: ['dalle', 'dall-e-3', 'dalle-3'] },
+  { name: 'Stable Diffusion', aliases: ['sd', 'sdxl', 'stablediffusion'] },
+  { name: 'GitHub Copilot', aliases: ['copilot'] },
+  { name: 'Cursor', aliases: ['cursor-ai'] },
+  { name: 'Notion AI', aliases: ['notion'] },
+  { name: 'Zapier', aliases: [] },
+  { name: 'Make', aliases: ['make-com', 'integromat'] },
+];
+
+// Values the old free-text tools field used to mean "no particular tool"
+const NO_TOOL_SLUGS = ['other', 'none', 'n-a', 'na'];
+
+const MAX_TAG_LENGTH = 40;
+const MAX_FILTER_TAGS = 10;
+const MIGRATION_BATCH_SIZE = 200;
+
+// Unicode patterns are built with RegExp because the compiler only accepts the u flag in
+// regex literals when targeting ES6
+const combiningMarkPattern = new RegExp('\\p{M}', 'gu');
+const nonSlugPattern = new RegExp('[^\\p{L}\\p{N}]+', 'gu');
+
+export type TagResult<T> = { ok: true } & T | { ok: false; status: number; message: string };
+
+// Commas are dropped because filters and the old tools field use them to separate tags
+export function cleanTagName(name: string): string {
+  return name.replace(/,/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+}
+
+export function slugifyTag(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(combiningMarkPattern, '')
+    .toLowerCase()
+    .replace(nonSlugPattern, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+export function toPublicTag(tag: Pick<Tag, 'id' | 'slug' | 'name' | 'kind'>): PublicTag {
+  return { id: tag.id, slug: tag.slug, name: tag.name, kind: tag.kind };
+}
+
+let defaultsInstalled: Promise<void> | null = null;
+
+// Adds whichever default tools and aliases are missing; tags admins have merged or renamed are left alone
+export function installDefaultTags(): Promise<void> {
+  if (!defaultsInstalled) {
+    defaultsInstalled = (async () => {
+      const tools = await storage.createTags(DEFAULT_TOOL_TAGS.map(tool => ({ slug: slugifyTag(tool.name), name: tool.name, kind: 'tool' })));
+      const bySlug = new Map(tools.map(tag => [tag.slug, tag]));
+      const aliases: InsertTag[] = [];
+      for (const tool of DEFAULT_TOOL_TAGS) {
+        const tag = bySlug.get(slugifyTag(tool.name))!;
+        const target = tag.aliasOf ?? tag.id;
+        for (const alias of tool.aliases) {
+          aliases.push({ slug: alias, name: alias, kind: 'tool', aliasOf: target });
+        }
+      }
+      await storage.createTags(aliases);
+    })().catch(error => {
+      defaultsInstalled = null;
+      throw error;
+    });
+  }
+  return defaultsInstalled;
+}
+
+// Looks up tags by slug with aliases swapped for the tag they stand for. Unknown slugs are left out.
+async function getCanonicalTags(slugs: string[]): Promise<Map<string, Tag>> {
+  const found = await storage.getTagsBySlugs(slugs);
+  const targets = await storage.getTagsByIds(found.filter(tag => tag.aliasOf !== null).map(tag => tag.aliasOf!));
+  const targetsById = new Map(targets.map(tag => [tag.id, tag]));
+
+  const canonical = new Map<string, Tag>();
+  for (const tag of found) {
+    const target = tag.aliasOf !== null ? targetsById.get(tag.aliasOf) : tag;
+    if (target) canonical.set(tag.slug, target);
+  }
+  return canonical;
+}
+
+// Turns names as an author typed them into tags, creating any that don't exist yet. Keeps the
+// authors' order and drops repeats, including two names that are aliases of the same tag.
+export async function resolveTags(names: string[], kind: TagKind): Promise<Tag[]> {
+  await installDefaultTags();
+
+  const typed = new Map<string, string>(); // Slug -> name as first typed
+  for (const name of names) {
+    const cleaned = cleanTagName(name);
+    const slug = slugifyTag(cleaned);
+    if (slug && !typed.has(slug)) typed.set(slug, cleaned);
+  }
+  if (typed.size === 0) return [];
+
+  const slugs = Array.from(typed.keys());
+  const existing = await getCanonicalTags(slugs);
+  const missing = slugs.filter(slug => !existing.has(slug));
+  if (missing.length > 0) {
+    await storage.createTags(missing.map(slug => ({ slug, name: typed.get(slug)!, kind })));
+  }
+  const resolved = missing.length > 0 ? await getCanonicalTags(slugs) : existing;
+
+  const seen = new Set<number>();
+  const result: Tag[] = [];
+  for (const slug of slugs) {
+    const tag = resolved.get(slug);
+    if (tag && !seen.has(tag.id)) {
+      seen.add(tag.id);
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+// An idea's tags from its tools and topics, tools first. A kind left undefined keeps the tags
+// the idea has (a new idea, with no id yet, has none).
+export async function resolveIdeaTags(ideaId: number | null, { tools, topics }: { tools?: string[]; topics?: string[] }): Promise<PublicTag[]> {
+  const current: PublicTag[] = ideaId !== null && (tools === undefined || topics === undefined) ? await storage.getIdeaTags([ideaId]) : [];
+  const toolTags = tools === undefined
+    ? current.filter(tag => tag.kind === 'tool')
+    : await resolveTags(tools.slice(0, MAX_TAGS_PER_KIND), 'tool');
+  const topicTags = topics === undefined
+    ? current.filter(tag => tag.kind !== 'tool')
+    : await resolveTags(topics.slice(0, MAX_TAGS_PER_KIND), 'topic');
+
+  return [...toolTags, ...topicTags.filter(topic => !toolTags.some(tool => tool.id === topic.id))].map(toPublicTag);
+}
+
+// What ideas.tools holds for these tags; storage keeps it in step when tags change
+export function formatToolNames(tags: PublicTag[]): string | null {
+  return tags.filter(tag => tag.kind === 'tool').map(tag => tag.name).join(', ') || null;
+}
+
+export async function setIdeaTags(ideaId: number, names: { tools?: string[]; topics?: string[] }): Promise<(Idea & { tags: PublicTag[] }) | undefined> {
+  const tags = await resolveIdeaTags(ideaId, names);
+  const idea = await storage.setIdeaTags(ideaId, tags.map(tag => tag.id));
+  return idea && { ...idea, tags };
+}
+
+// Reads the feed and search tag filter: ?tags=chatgpt,zapier&match=all|any, with "any" the
+// default. The single ?tool= the filter used to send still works.
+export async function parseTagFilter(query: { tags?: unknown; match?: unknown; tool?: unknown }): Promise<TagFilter | undefined> {
+  const names = typeof query.tags === 'string' ? query.tags.split(',') : [];
+  if (typeof query.tool === 'string') names.push(query.tool);
+
+  const slugs = Array.from(new Set(names.map(slugifyTag)))
+    .filter(slug => slug && slug !== 'all' && !NO_TOOL_SLUGS.includes(slug))
+    .slice(0, MAX_FILTER_TAGS);
+  if (slugs.length === 0) return undefined;
+
+  const match = query.match === 'all' ? 'all' : 'any';
+  const tags = await getCanonicalTags(slugs);
+  // No idea can have a tag that doesn't exist, so requiring one matches nothing
+  if (match === 'all' && tags.size < slugs.length) {
+    return { tagIds: [], match };
+  }
+  return { tagIds: Array.from(tags.values()).map(tag => tag.id), match };
+}
+
+export async function withTags<T extends Pick<Idea, 'id'>>(ideas: T[]): Promise<(T & { tags: PublicTag[] })[]> {
+  const ideaTags = await storage.getIdeaTags(ideas.map(idea => idea.id));
+  const byIdea = new Map<number, PublicTag[]>();
+  for (const { ideaId, ...tag } of ideaTags) {
+    if (!byIdea.has(ideaId)) byIdea.set(ideaId, []);
+    byIdea.get(ideaId)!.push(tag);
+  }
+  return ideas.map(idea => ({ ...idea, tags: byIdea.get(idea.id) || [] }));
+}
+
+// Makes one tag an alias of another, moving its ideas over
+export async function mergeTag(fromId: number, intoId: number): Promise<TagResult<{ from: Tag; into: Tag; ideasMoved: number }>> {
+  if (fromId === intoId) {
+    return { ok: false, status: 400, message: "A tag can't be merged into itself" };
+  }
+  const found = await storage.getTagsByIds([fromId, intoId]);
+  const from = found.find(tag => tag.id === fromId);
+  const into = found.find(tag => tag.id === intoId);
+  if (!from || !into) {
+    return { ok: false, status: 404, message: "Tag not found" };
+  }
+  if (from.aliasOf !== null) {
+    return { ok: false, status: 409, message: `"${from.name}" is already an alias` };
+  }
+  if (into.aliasOf !== null) {
+    return { ok: false, status: 400, message: `"${into.name}" is an alias; merge into the tag it stands for` };
+  }
+
+  const result = await storage.mergeTags(fromId, intoId);
+  if (!result) {
+    return { ok: false, status: 409, message: "The tags changed while merging; please try again" };
+  }
+  return { ok: true, from, into, ideasMoved: result.ideasMoved };
+}
+
+// Makes another spelling resolve to a tag. If that spelling is already a tag of its own, it's merged in.
+export async function addTagAlias(tagId: number, alias: string): Promise<TagResult<{ tag: Tag; alias: string; ideasMoved: number }>> {
+  const slug = slugifyTag(cleanTagName(alias));
+  if (!slug) {
+    return { ok: false, status: 400, message: "Alias must contain a letter or number" };
+  }
+  const [tag] = await storage.getTagsByIds([tagId]);
+  if (!tag) {
+    return { ok: false, status: 404, message: "Tag not found" };
+  }
+  if (tag.aliasOf !== null) {
+    return { ok: false, status: 400, message: `"${tag.name}" is an alias; add aliases to the tag it stands for` };
+  }
+
+  const [existing] = await storage.getTagsBySlugs([slug]);
+  if (existing) {
+    if (existing.id === tag.id) {
+      return { ok: false, status: 409, message: `"${slug}" is this tag's own name` };
+    }
+    if (existing.aliasOf !== null) {
+      return existing.aliasOf === tag.id
+        ? { ok: false, status: 409, message: `"${slug}" is already an alias of this tag` }
+        : { ok: false, status: 409, message: `"${slug}" is already an alias of another tag` };
+    }
+    const merged = await mergeTag(existing.id, tag.id);
+    return merged.ok ? { ok: true, tag, alias: slug, ideasMoved: merged.ideasMoved } : merged;
+  }
+
+  await storage.createTags([{ slug, name: cleanTagName(alias), kind: tag.kind, aliasOf: tag.id }]);
+  return { ok: true, tag, alias: slug, ideasMoved: 0 };
+}
+
+// Ideas from before tags kept their tools as one free-text value: a form value like "chatgpt", a
+// name, or a list. Converting an idea rewrites ideas.tools from its tags, so each is only converted
+// once and this is safe to run on every start.
+export async function migrateToolsToTags(): Promise<void> {
+  await installDefaultTags();
+
+  let lastId = 0;
+  let migrated = 0;
+  while (true) {
+    const batch = await storage.getIdeasWithUntaggedTools(lastId, MIGRATION_BATCH_SIZE);
+    for (const idea of batch) {
+      const tools = (idea.tools || '')
+        .split(/[,;\/|&\n]+/)
+        .filter(name => !NO_TOOL_SLUGS.includes(slugifyTag(name)));
+      await setIdeaTags(idea.id, { tools, topics: [] });
+      migrated++;
+    }
+    if (batch.length < MIGRATION_BATCH_SIZE) break;
+    lastId = batch[batch.length - 1].id;
+  }
+  if (migrated > 0) {
+    console.log(`Converted the tools of ${migrated} ideas to tags`);
+  }
+}
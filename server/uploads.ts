@@ -0,0 +1,274 @@
+import type { Request, Response } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { nanoid } from "nanoid";
+import { storage, type IdeaMedia } from "./storage";
+import { getFileStorage } from "./file-storage";
+import { stripVideoMetadata } from "./video-metadata";
+import type { MediaType, Upload } from "@shared/schema";
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+// Decoding a huge image takes a lot of memory even when the file itself is small
+const MAX_IMAGE_PIXELS = 50 * 1000 * 1000;
+
+// Feed cards are at most ~600px wide; this leaves room for high-density screens
+const THUMBNAIL_WIDTH = 1200;
+
+// Uploads not attached to an idea after this long are deleted
+const ORPHAN_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const CLEANUP_BATCH_SIZE = 100;
+
+interface SniffedType {
+  mimeType: string;
+  mediaType: MediaType;
+  extension: string;
+}
+
+type UploadRejection = { ok: false; status: number; message: string };
+
+export type UploadResult = { ok: true; upload: Upload } | UploadRejection;
+
+export interface UploadOwner {
+  sessionId: string | null;
+  userId: string | null;
+}
+
+const UNSUPPORTED_TYPE_MESSAGE = "Only JPEG, PNG, GIF or WebP images and MP4, WebM or MOV videos can be uploaded";
+
+// Identifies a file from its first bytes; the browser's filename and Content-Type aren't trusted
+export function sniffMediaType(data: Buffer): SniffedType | null {
+  const ascii = (start: number, end: number) => data.toString('latin1', start, end);
+
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return { mimeType: 'image/jpeg', mediaType: 'image', extension: 'jpg' };
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { mimeType: 'image/png', mediaType: 'image', extension: 'png' };
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return { mimeType: 'image/gif', mediaType: 'image', extension: 'gif' };
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return { mimeType: 'image/webp', mediaType: 'image', extension: 'webp' };
+  }
+  // ISO base media files: MP4 and QuickTime. HEIC and AVIF share the container but are images we can't process.
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'qt  ') {
+      return { mimeType: 'video/quicktime', mediaType: 'video', extension: 'mov' };
+    }
+    if (['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1', 'avif', 'avis'].includes(brand)) {
+      return null;
+    }
+    return { mimeType: 'video/mp4', mediaType: 'video', extension: 'mp4' };
+  }
+  // Matroska; only the WebM flavour plays in browsers
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x1a45dfa3 && ascii(0, 64).includes('webm')) {
+    return { mimeType: 'video/webm', mediaType: 'video', extension: 'webm' };
+  }
+  return null;
+}
+
+// Re-encodes an image with the EXIF orientation applied to the pixels. sharp writes no EXIF, XMP
+// or other metadata unless asked to, so camera details and GPS coordinates are dropped.
+async function processImage(data: Buffer, type: SniffedType) {
+  const metadata = await sharp(data, { limitInputPixels: MAX_IMAGE_PIXELS }).metadata();
+  const animated = (metadata.pages || 1) > 1;
+  const format = type.extension === 'jpg' ? 'jpeg' : type.extension as 'png' | 'gif' | 'webp';
+
+  let image = sharp(data, { animated, limitInputPixels: MAX_IMAGE_PIXELS });
+  if (!animated) image = image.rotate();
+  const { data: cleaned, info } = await image.toFormat(format).toBuffer({ resolveWithObject: true });
+
+  const thumbnail = await sharp(cleaned, { animated })
+    .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  return {
+    data: cleaned,
+    thumbnail,
+    width: info.width,
+    height: animated ? metadata.pageHeight || info.height : info.height,
+  };
+}
+
+// Checks, cleans and stores a file, and records it as an upload not yet attached to anything
+export async function processUpload(data: Buffer, owner: UploadOwner, options: { enforceSizeLimits?: boolean } = {}): Promise<UploadResult> {
+  const type = sniffMediaType(data);
+  if (!type) {
+    return { ok: false, status: 415, message: UNSUPPORTED_TYPE_MESSAGE };
+  }
+
+  const maxBytes = type.mediaType === 'image' ? MAX_IMAGE_BYTES : MAX_VIDEO_BYTES;
+  if (options.enforceSizeLimits !== false && data.length > maxBytes) {
+    return { ok: false, status: 413, message: `${type.mediaType === 'image' ? 'Images' : 'Videos'} can be at most ${maxBytes / (1024 * 1024)} MB` };
+  }
+
+  let file = data;
+  let thumbnail: Buffer | null = null;
+  let width: number | null = null;
+  let height: number | null = null;
+  if (type.mediaType === 'image') {
+    try {
+      const processed = await processImage(data, type);
+      ({ data: file, thumbnail, width, height } = processed);
+    } catch (error) {
+      console.error('Image processing error:', error);
+      return { ok: false, status: 400, message: "This image couldn't be read. Please try a different file." };
+    }
+  } else {
+    const stripped = stripVideoMetadata(data, type.mimeType);
+    if (!stripped) {
+      return { ok: false, status: 400, message: "This video couldn't be read. Please try a different file." };
+    }
+    file = stripped;
+  }
+
+  const fileStorage = getFileStorage();
+  const baseKey = `${new Date().toISOString().slice(0, 7)}/${nanoid()}`;
+  const storageKey = `${baseKey}.${type.extension}`;
+  const thumbnailKey = thumbnail ? `${baseKey}-thumb.webp` : null;
+
+  await fileStorage.put(storageKey, file, type.mimeType);
+  try {
+    if (thumbnail && thumbnailKey) {
+      await fileStorage.put(thumbnailKey, thumbnail, 'image/webp');
+    }
+    const upload = await storage.createUpload({
+      storageKey,
+      thumbnailKey,
+      mimeType: type.mimeType,
+      mediaType: type.mediaType,
+      size: file.length,
+      width,
+      height,
+      sessionId: owner.sessionId,
+      userId: owner.userId,
+    });
+    return { ok: true, upload };
+  } catch (error) {
+    await deleteUploadFiles({ storageKey, thumbnailKey });
+    throw error;
+  }
+}
+
+const multipart = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: Math.max(MAX_IMAGE_BYTES, MAX_VIDEO_BYTES), files: 1, fields: 0 },
+}).single('file');
+
+// Reads the single `file` field of a multipart request into memory
+export function receiveUpload(req: Request, res: Response): Promise<{ ok: true; data: Buffer } | UploadRejection> {
+  return new Promise((resolve, reject) => {
+    multipart(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          return resolve({ ok: false, status: 413, message: `Files can be at most ${MAX_VIDEO_BYTES / (1024 * 1024)} MB` });
+        }
+        return resolve({ ok: false, status: 400, message: "Upload a single file in the `file` field" });
+      }
+      if (error) return reject(error);
+      if (!req.file) {
+        return resolve({ ok: false, status: 400, message: "No file uploaded" });
+      }
+      resolve({ ok: true, data: req.file.buffer });
+    });
+  });
+}
+
+export function isUploadOwner(upload: Upload, owner: UploadOwner): boolean {
+  if (owner.userId && upload.userId === owner.userId) return true;
+  return !!owner.sessionId && upload.sessionId === owner.sessionId;
+}
+
+export function getIdeaMedia(upload: Upload): IdeaMedia {
+  const fileStorage = getFileStorage();
+  return {
+    mediaUploadId: upload.id,
+    mediaUrl: fileStorage.url(upload.storageKey),
+    mediaType: upload.mediaType,
+    mediaThumbnailUrl: upload.thumbnailKey ? fileStorage.url(upload.thumbnailKey) : null,
+  };
+}
+
+export function toPublicUpload(upload: Upload) {
+  const media = getIdeaMedia(upload);
+  return {
+    id: upload.id,
+    url: media.mediaUrl,
+    thumbnailUrl: media.mediaThumbnailUrl,
+    mediaType: upload.mediaType,
+    mimeType: upload.mimeType,
+    size: upload.size,
+    width: upload.width,
+    height: upload.height,
+  };
+}
+
+async function deleteUploadFiles(upload: Pick<Upload, 'storageKey' | 'thumbnailKey'>): Promise<void> {
+  const fileStorage = getFileStorage();
+  await fileStorage.delete(upload.storageKey);
+  if (upload.thumbnailKey) {
+    await fileStorage.delete(upload.thumbnailKey);
+  }
+}
+
+// Deletes uploads that were never attached to an idea, or whose idea is gone
+export async function deleteOrphanedUploads(): Promise<number> {
+  let deleted = 0;
+  while (true) {
+    const orphans = await storage.getOrphanedUploads(new Date(Date.now() - ORPHAN_UPLOAD_TTL_MS), CLEANUP_BATCH_SIZE);
+    for (const upload of orphans) {
+      await deleteUploadFiles(upload);
+      await storage.deleteUpload(upload.id);
+      deleted++;
+    }
+    if (orphans.length < CLEANUP_BATCH_SIZE) return deleted;
+  }
+}
+
+// Moves media posted before uploads existed, stored inline in ideas.media_url as base64 data URLs,
+// into file storage. Only ideas still holding a data URL are touched, so it's safe to run on every start.
+export async function migrateDataUrlMedia(): Promise<void> {
+  let lastId = 0;
+  let migrated = 0;
+  while (true) {
+    const idea = await storage.getNextIdeaWithDataUrlMedia(lastId);
+    if (!idea) break;
+    lastId = idea.id;
+
+    const match = /^data:[^,]*;base64,/.exec(idea.mediaUrl!);
+    const data = match ? Buffer.from(idea.mediaUrl!.slice(match[0].length), 'base64') : null;
+    const result = data && await processUpload(data, { sessionId: idea.sessionId, userId: idea.userId }, { enforceSizeLimits: false });
+    if (!result || !result.ok) {
+      console.warn(`Could not migrate the media of idea ${idea.id}: ${result ? result.message : 'not a base64 data URL'}`);
+      continue;
+    }
+
+    await storage.setIdeaMedia(idea.id, getIdeaMedia(result.upload));
+    migrated++;
+  }
+  if (migrated > 0) {
+    console.log(`Moved the media of ${migrated} ideas from data URLs to uploads`);
+  }
+}
+
+export function startUploadMaintenance(): void {
+  migrateDataUrlMedia().catch(error => {
+    console.error("Error migrating data URL media:", error);
+  });
+  setInterval(async () => {
+    try {
+      const deleted = await deleteOrphanedUploads();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} orphaned uploads`);
+      }
+    } catch (error) {
+      console.error("Error deleting orphaned uploads:", error);
+    }
+  }, CLEANUP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,151 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { stripVideoMetadata } from "./video-metadata";
+
+function box(type: string, ...contents: (Buffer | string)[]): Buffer {
+  const payload = Buffer.concat(contents.map(content => typeof content === 'string' ? Buffer.from(content, 'latin1') : content));
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(payload.length + 8);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, payload]);
+}
+
+function uint32(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buffer.writeUInt32BE(value, index * 4));
+  return buffer;
+}
+
+// Version 0 movie, track and media headers, starting with their creation and modification times
+const RECORDED_AT = 0xdeadbeef;
+const datedHeader = (type: string) => box(type, uint32(0, RECORDED_AT, RECORDED_AT), Buffer.alloc(20));
+
+function track(handler: string, samples: { offset: number; size: number }[]): Buffer {
+  return box('trak',
+    datedHeader('tkhd'),
+    box('mdia',
+      datedHeader('mdhd'),
+      box('hdlr', uint32(0, 0), handler, Buffer.alloc(12)),
+      box('minf', box('stbl',
+        box('stsz', uint32(0, 0, samples.length, ...samples.map(sample => sample.size))),
+        box('stsc', uint32(0, 1, 1, 1, 1)),
+        box('stco', uint32(0, samples.length, ...samples.map(sample => sample.offset))),
+      )),
+    ),
+    box('udta', box('\xa9nam', 'Track name')),
+  );
+}
+
+const VIDEO_FRAME = 'VIDEOFRAME';
+const GPS_SAMPLES = ['GPS+48.8584+002.2945/', 'GPS+48.8606+002.3376/'];
+
+// ftyp, a moov with tagged movie and a GPS metadata track, XMP, then the media data
+function buildMp4({ fragmented = false } = {}): Buffer {
+  const build = (mdatStart: number) => {
+    const video = [{ offset: mdatStart, size: VIDEO_FRAME.length }];
+    let offset = mdatStart + VIDEO_FRAME.length;
+    const gps = GPS_SAMPLES.map(sample => ({ offset: (offset += sample.length) - sample.length, size: sample.length }));
+    const head = Buffer.concat([
+      box('ftyp', 'isom', uint32(0), 'isommp41'),
+      box('moov',
+        datedHeader('mvhd'),
+        track('vide', video),
+        track('meta', gps),
+        box('udta', box('\xa9xyz', '+48.8584+002.2945/'), box('\xa9mak', 'Apple'), box('\xa9mod', 'iPhone 15 Pro')),
+        box('meta', uint32(0), box('keys', 'com.apple.quicktime.location.ISO6709')),
+      ),
+      box('uuid', Buffer.alloc(16, 0xbe), '<x:xmpmeta>Paris</x:xmpmeta>'),
+      ...(fragmented ? [box('moof', box('mfhd', uint32(0, 1)))] : []),
+    ]);
+    return { head, mdat: box('mdat', VIDEO_FRAME, ...GPS_SAMPLES) };
+  };
+  const { head } = build(0);
+  const { head: finalHead, mdat } = build(head.length + 8);
+  return Buffer.concat([finalHead, mdat]);
+}
+
+function ebml(id: number, ...contents: (Buffer | string)[]): Buffer {
+  const payload = Buffer.concat(contents.map(content => typeof content === 'string' ? Buffer.from(content, 'latin1') : content));
+  const idBytes = Buffer.from(id.toString(16).padStart(2, '0').replace(/^(.(..)*)$/, '0$1'), 'hex');
+  const size = Buffer.alloc(2);
+  size.writeUInt16BE(0x4000 | payload.length);
+  return Buffer.concat([idBytes, size, payload]);
+}
+
+const UNKNOWN_SIZE = Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+// A streamed WebM: the segment and its cluster have no size, and tags come after the cluster
+function buildWebm(): Buffer {
+  return Buffer.concat([
+    ebml(0x1a45dfa3, ebml(0x4282, 'webm')),
+    Buffer.from([0x18, 0x53, 0x80, 0x67]), UNKNOWN_SIZE,
+    ebml(0x1549a966,
+      ebml(0xbf, uint32(0x12345678)),
+      ebml(0x7ba9, 'My trip to Paris'),
+      ebml(0x4461, Buffer.from('0123456789abcdef', 'hex')),
+      ebml(0x4d80, 'Muxer'),
+      ebml(0x5741, 'PhoneCam 2.1'),
+    ),
+    Buffer.from([0x1f, 0x43, 0xb6, 0x75]), UNKNOWN_SIZE,
+    ebml(0xe7, Buffer.from([0])),
+    ebml(0xa3, VIDEO_FRAME),
+    ebml(0x1254c367, ebml(0x7373, ebml(0x67c8, ebml(0x45a3, 'LOCATION'), ebml(0x4487, '+48.8584+002.2945/')))),
+  ]);
+}
+
+function contains(data: Buffer, text: string): boolean {
+  return data.includes(Buffer.from(text, 'latin1'));
+}
+
+describe("stripVideoMetadata", () => {
+  test("removes MP4 tags, XMP and GPS tracks without moving the media data", () => {
+    const original = buildMp4();
+    const stripped = stripVideoMetadata(original, 'video/mp4');
+    assert.ok(stripped);
+    assert.equal(stripped.length, original.length);
+    for (const text of ['+48.8584+002.2945/', 'Apple', 'iPhone 15 Pro', 'ISO6709', 'xmpmeta', 'Track name', ...GPS_SAMPLES, 'udta', 'uuid']) {
+      assert.ok(!contains(stripped, text), text);
+    }
+    assert.ok(!stripped.includes(uint32(RECORDED_AT)), "recording dates");
+    // The video track and its frame are where they were
+    assert.equal(stripped.indexOf(VIDEO_FRAME), original.indexOf(VIDEO_FRAME));
+    assert.ok(contains(stripped, 'vide'));
+    assert.ok(!contains(stripped, 'hdlr\0\0\0\0\0\0\0\0meta'));
+  });
+
+  test("handles QuickTime files the same way", () => {
+    const stripped = stripVideoMetadata(buildMp4(), 'video/quicktime');
+    assert.ok(stripped && !contains(stripped, 'iPhone 15 Pro'));
+  });
+
+  test("leaves the uploaded buffer untouched", () => {
+    const original = buildMp4();
+    const copy = Buffer.from(original);
+    stripVideoMetadata(original, 'video/mp4');
+    assert.ok(original.equals(copy));
+  });
+
+  test("refuses fragmented MP4s with metadata tracks", () => {
+    assert.equal(stripVideoMetadata(buildMp4({ fragmented: true }), 'video/mp4'), null);
+  });
+
+  test("refuses files that can't be parsed", () => {
+    const truncated = buildMp4().subarray(0, 100);
+    assert.equal(stripVideoMetadata(truncated, 'video/mp4'), null);
+    assert.equal(stripVideoMetadata(Buffer.from('not a video at all'), 'video/webm'), null);
+  });
+
+  test("removes WebM tags, titles and dates, and leaves a file that still parses", () => {
+    const original = buildWebm();
+    const stripped = stripVideoMetadata(original, 'video/webm');
+    assert.ok(stripped);
+    assert.equal(stripped.length, original.length);
+    for (const text of ['My trip to Paris', 'PhoneCam', 'LOCATION', '+48.8584+002.2945/']) {
+      assert.ok(!contains(stripped, text), text);
+    }
+    assert.ok(!stripped.includes(Buffer.from('0123456789abcdef', 'hex')), "recording date");
+    assert.ok(!stripped.includes(uint32(0x12345678)), "stale checksum");
+    assert.equal(stripped.indexOf(VIDEO_FRAME), original.indexOf(VIDEO_FRAME));
+    assert.ok(stripVideoMetadata(stripped, 'video/webm'));
+  });
+});
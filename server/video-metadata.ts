@@ -0,0 +1,274 @@
+// Strips where, when and on what a video was recorded without re-encoding it. Metadata is
+// overwritten in place with padding of the same length, so the offsets the container keeps to
+// its samples stay valid and the file plays as before.
+
+// ISO base media (MP4 and QuickTime) boxes holding tags: QuickTime user data (©xyz GPS, ©mak
+// make, ©mod model...), iTunes-style and Apple mdta metadata, and UUID boxes such as XMP
+const MP4_METADATA_BOXES = new Set(['udta', 'meta', 'uuid']);
+// Boxes whose children can hold metadata
+const MP4_CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf']);
+// Headers carrying the recording date
+const MP4_DATED_BOXES = new Set(['mvhd', 'tkhd', 'mdhd']);
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  payload: number; // Where the contents start, after the size and type
+  end: number;
+}
+
+function readMp4Boxes(data: Buffer, start: number, end: number): Mp4Box[] | null {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  // Anything shorter than a box header at the end is padding (QuickTime ends some lists with 4 zero bytes)
+  while (end - offset >= 8) {
+    let size = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    let payload = offset + 8;
+    if (size === 1) {
+      if (end - offset < 16) return null;
+      const largeSize = data.readBigUInt64BE(offset + 8);
+      if (largeSize > BigInt(end - offset)) return null;
+      size = Number(largeSize);
+      payload = offset + 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end of the file
+    }
+    if (size < payload - offset || offset + size > end) return null;
+    boxes.push({ type, start: offset, payload, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findMp4Box(data: Buffer, parent: Mp4Box, path: string[]): Mp4Box | null {
+  let box: Mp4Box | undefined = parent;
+  for (const type of path) {
+    box = readMp4Boxes(data, box.payload, box.end)?.find(child => child.type === type);
+    if (!box) return null;
+  }
+  return box;
+}
+
+// Turns a box into a `free` box of the same size, which players skip
+function blankMp4Box(data: Buffer, box: Mp4Box): void {
+  data.write('free', box.start + 4, 'latin1');
+  data.fill(0, box.payload, box.end);
+}
+
+// Clears the creation and modification times of a movie, track or media header
+function clearMp4Dates(data: Buffer, box: Mp4Box): boolean {
+  const dateBytes = data[box.payload] === 1 ? 16 : 8;
+  if (box.end - box.payload < 4 + dateBytes) return false;
+  data.fill(0, box.payload + 4, box.payload + 4 + dateBytes);
+  return true;
+}
+
+// Zeroes every sample of a track in the media data, using its sample table
+function clearMp4Samples(data: Buffer, trak: Mp4Box): boolean {
+  const stbl = findMp4Box(data, trak, ['mdia', 'minf', 'stbl']);
+  if (!stbl) return false;
+  const tables = readMp4Boxes(data, stbl.payload, stbl.end);
+  if (!tables) return false;
+  const stsz = tables.find(box => box.type === 'stsz');
+  const stsc = tables.find(box => box.type === 'stsc');
+  const chunkTable = tables.find(box => box.type === 'stco' || box.type === 'co64');
+  if (!stsz || !stsc || !chunkTable) return false;
+
+  if (stsz.end - stsz.payload < 12) return false;
+  const fixedSize = data.readUInt32BE(stsz.payload + 4);
+  const sampleCount = data.readUInt32BE(stsz.payload + 8);
+  if (fixedSize === 0 ? stsz.end - stsz.payload < 12 + sampleCount * 4 : fixedSize * sampleCount > data.length) return false;
+  const sampleSize = (sample: number) => fixedSize || data.readUInt32BE(stsz.payload + 12 + sample * 4);
+
+  if (stsc.end - stsc.payload < 8) return false;
+  const runCount = data.readUInt32BE(stsc.payload + 4);
+  if (stsc.end - stsc.payload < 8 + runCount * 12) return false;
+  // Each run gives the first chunk (counted from 1) it covers and how many samples those chunks hold
+  const runs = Array.from({ length: runCount }, (_, run) => ({
+    firstChunk: data.readUInt32BE(stsc.payload + 8 + run * 12),
+    samplesPerChunk: data.readUInt32BE(stsc.payload + 12 + run * 12),
+  }));
+
+  if (chunkTable.end - chunkTable.payload < 8) return false;
+  const chunkCount = data.readUInt32BE(chunkTable.payload + 4);
+  const offsetBytes = chunkTable.type === 'co64' ? 8 : 4;
+  if (chunkTable.end - chunkTable.payload < 8 + chunkCount * offsetBytes) return false;
+
+  let sample = 0;
+  let run = 0;
+  for (let chunk = 0; chunk < chunkCount && sample < sampleCount; chunk++) {
+    while (run + 1 < runs.length && runs[run + 1].firstChunk <= chunk + 1) run++;
+    const entry = chunkTable.payload + 8 + chunk * offsetBytes;
+    let offset = offsetBytes === 8 ? Number(data.readBigUInt64BE(entry)) : data.readUInt32BE(entry);
+    for (let i = 0; i < (runs[run]?.samplesPerChunk ?? 0) && sample < sampleCount; i++, sample++) {
+      const size = sampleSize(sample);
+      if (offset + size > data.length) return false;
+      data.fill(0, offset, offset + size);
+      offset += size;
+    }
+  }
+  return true;
+}
+
+function stripMp4Boxes(data: Buffer, boxes: Mp4Box[], fragmented: boolean): boolean {
+  for (const box of boxes) {
+    if (MP4_METADATA_BOXES.has(box.type)) {
+      blankMp4Box(data, box);
+    } else if (MP4_DATED_BOXES.has(box.type)) {
+      if (!clearMp4Dates(data, box)) return false;
+    } else if (box.type === 'trak' && isTimedMetadataTrack(data, box)) {
+      // GPS logs (GoPro, dashcams) and Apple camera metadata are tracks of their own. Fragmented
+      // files keep samples outside the sample table, so those can't be found and are refused.
+      if (fragmented || !clearMp4Samples(data, box)) return false;
+      blankMp4Box(data, box);
+    } else if (MP4_CONTAINER_BOXES.has(box.type)) {
+      const children = readMp4Boxes(data, box.payload, box.end);
+      if (!children || !stripMp4Boxes(data, children, fragmented)) return false;
+    }
+  }
+  return true;
+}
+
+function isTimedMetadataTrack(data: Buffer, trak: Mp4Box): boolean {
+  const hdlr = findMp4Box(data, trak, ['mdia', 'hdlr']);
+  return !!hdlr && hdlr.end - hdlr.payload >= 12 && data.toString('latin1', hdlr.payload + 8, hdlr.payload + 12) === 'meta';
+}
+
+function stripMp4Metadata(data: Buffer): boolean {
+  const boxes = readMp4Boxes(data, 0, data.length);
+  if (!boxes || !boxes.some(box => box.type === 'moov')) return false;
+  return stripMp4Boxes(data, boxes, boxes.some(box => box.type === 'moof'));
+}
+
+// Matroska (WebM) element IDs
+const EBML_HEADER = 0x1a45dfa3;
+const SEGMENT = 0x18538067;
+const SEGMENT_INFO = 0x1549a966;
+const CLUSTER = 0x1f43b675;
+const VOID = 0xec;
+const CRC32 = 0xbf;
+// Emptied: the segment title, recording date and the app that wrote the file
+const WEBM_CLEARED_INFO = new Set([0x7ba9, 0x4461, 0x5741]);
+// Replaced with padding: tags, and attached files such as cover images
+const WEBM_REMOVED_ELEMENTS = new Set([0x1254c367, 0x1941a469]);
+// The elements a segment is made of, which end a cluster whose size isn't written
+const WEBM_SEGMENT_CHILDREN = new Set([0x114d9b74, SEGMENT_INFO, 0x1654ae6b, 0x1043a770, CLUSTER, 0x1c53bb6b, 0x1941a469, 0x1254c367]);
+
+interface EbmlElement {
+  id: number;
+  start: number;
+  payload: number;
+  end: number;
+  unknownSize: boolean; // Streamed files leave the size of the segment and clusters open
+}
+
+// An EBML variable-length integer: the number of leading zero bits in the first byte gives its length
+function readVint(data: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; allOnes: boolean } | null {
+  const first = data[offset];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > data.length) return null;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    allOnes &&= data[offset + i] === 0xff;
+  }
+  return { value, length, allOnes };
+}
+
+function readEbmlElement(data: Buffer, offset: number, end: number): EbmlElement | null {
+  const id = readVint(data, offset, true);
+  if (!id || id.length > 4) return null;
+  const size = readVint(data, offset + id.length, false);
+  if (!size) return null;
+  const payload = offset + id.length + size.length;
+  if (size.allOnes) {
+    return { id: id.value, start: offset, payload, end, unknownSize: true };
+  }
+  if (payload + size.value > end) return null;
+  return { id: id.value, start: offset, payload, end: payload + size.value, unknownSize: false };
+}
+
+// Fills an element's contents with a single Void element, so the element is left empty
+function voidEbmlPayload(data: Buffer, element: EbmlElement): boolean {
+  const length = element.end - element.payload;
+  if (length === 0) return true;
+  if (length < 2) return false;
+  const sizeLength = Math.min(8, length - 1);
+  let size = length - 1 - sizeLength;
+  data.fill(0, element.payload, element.end);
+  data[element.payload] = VOID;
+  for (let i = sizeLength; i >= 1; i--) {
+    data[element.payload + i] = size % 256;
+    size = Math.floor(size / 256);
+  }
+  data[element.payload + 1] |= 0x80 >> (sizeLength - 1);
+  return true;
+}
+
+// Finds where a cluster with no size written ends: at the next element that belongs to the segment
+function findClusterEnd(data: Buffer, cluster: EbmlElement): number | null {
+  let offset = cluster.payload;
+  while (offset < cluster.end) {
+    const child = readEbmlElement(data, offset, cluster.end);
+    if (!child) return null;
+    if (WEBM_SEGMENT_CHILDREN.has(child.id)) return offset;
+    if (child.unknownSize) return null;
+    offset = child.end;
+  }
+  return offset;
+}
+
+function stripWebmMetadata(data: Buffer): boolean {
+  const header = readEbmlElement(data, 0, data.length);
+  if (!header || header.id !== EBML_HEADER || header.unknownSize) return false;
+  const segment = readEbmlElement(data, header.end, data.length);
+  if (!segment || segment.id !== SEGMENT) return false;
+
+  let offset = segment.payload;
+  while (offset < segment.end) {
+    const element = readEbmlElement(data, offset, segment.end);
+    if (!element) return false;
+    if (element.unknownSize) {
+      if (element.id !== CLUSTER) return false;
+      const end = findClusterEnd(data, element);
+      if (end === null) return false;
+      element.end = end;
+    }
+
+    if (WEBM_REMOVED_ELEMENTS.has(element.id)) {
+      if (!voidEbmlPayload(data, element)) return false;
+    } else if (element.id === SEGMENT_INFO) {
+      for (let child = element.payload; child < element.end;) {
+        const info = readEbmlElement(data, child, element.end);
+        if (!info || info.unknownSize) return false;
+        // Strings may be padded with zero bytes and a zero date is the Matroska epoch
+        if (WEBM_CLEARED_INFO.has(info.id)) data.fill(0, info.payload, info.end);
+        // The checksum no longer matches, so it becomes padding of the same size (both IDs are one byte)
+        if (info.id === CRC32) {
+          data[info.start] = VOID;
+          data.fill(0, info.payload, info.end);
+        }
+        child = info.end;
+      }
+    }
+    offset = element.end;
+  }
+  return true;
+}
+
+// Returns a copy of the video with its metadata removed, or null if the file couldn't be parsed
+export function stripVideoMetadata(data: Buffer, mimeType: string): Buffer | null {
+  const copy = Buffer.from(data);
+  switch (mimeType) {
+    case 'video/mp4':
+    case 'video/quicktime':
+      return stripMp4Metadata(copy) ? copy : null;
+    case 'video/webm':
+      return stripWebmMetadata(copy) ? copy : null;
+    default:
+      return null;
+  }
+}
@@ -5,6 +5,7 @@ import { createServer as createViteServer, createLogger } from "vite";
 import { type Server } from "http";
 import viteConfig from "../vite.config";
 import { nanoid } from "nanoid";
+import { injectPageMetadata } from "./seo";
 
 const viteLogger = createLogger();
 
@@ -58,7 +59,10 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx"`,
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
-      const page = await vite.transformIndexHtml(url, template);
+      const page = await injectPageMetadata(
+        await vite.transformIndexHtml(url, template),
+        url,
+      );
       res.status(200).set({ "Content-Type": "text/html" }).end(page);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
@@ -78,8 +82,17 @@ export function serveStatic(app: Express) {
 
   app.use(express.static(distPath));
 
+  const indexHtml = fs.readFileSync(path.resolve(distPath, "index.html"), "utf-8");
+
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("*", async (req, res) => {
+    let page = indexHtml;
+    try {
+      page = await injectPageMetadata(indexHtml, req.originalUrl);
+    } catch (error) {
+      // The page still works without its metadata, so serve it plain rather than fail
+      console.error("Error adding page metadata:", error);
+    }
+    res.status(200).set({ "Content-Type": "text/html" }).end(page);
   });
 }
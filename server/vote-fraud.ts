@@ -0,0 +1,54 @@
+import { storage, type VoteFraudSignals } from "./storage";
+import type { Vote } from "@shared/schema";
+
+// Votes scoring at or above this go to the admin review queue
+export const VOTE_FRAUD_THRESHOLD = 50;
+
+export interface VoteFraudAssessment {
+  score: number;
+  reasons: string[];
+  flagged: boolean;
+}
+
+export function scoreVoteSignals(signals: VoteFraudSignals): VoteFraudAssessment {
+  let score = 0;
+  const reasons: string[] = [];
+
+  // Many sessions from one IP: a shared office IP has a few, a vote farm has dozens
+  if (signals.sessionsOnIp >= 3) {
+    score += Math.min((signals.sessionsOnIp - 2) * 15, 45);
+    reasons.push(`${signals.sessionsOnIp} sessions voted from this IP within 24 hours`);
+  }
+
+  // Same IP voting on the same idea under another identity
+  if (signals.otherVotersOnIdeaFromIp > 0) {
+    score += 40;
+    reasons.push(`${signals.otherVotersOnIdeaFromIp} other voter(s) on this idea used the same IP`);
+  }
+
+  // Burst voting on one idea
+  if (signals.votesOnIdeaInBurst >= 10) {
+    score += 40;
+    reasons.push(`${signals.votesOnIdeaInBurst} votes on this idea within 10 minutes`);
+  } else if (signals.votesOnIdeaInBurst >= 5) {
+    score += 20;
+    reasons.push(`${signals.votesOnIdeaInBurst} votes on this idea within 10 minutes`);
+  }
+
+  // Vote cast right after the session was created
+  if (signals.sessionAgeMs !== null && signals.sessionAgeMs < 60 * 1000) {
+    score += 30;
+    reasons.push(`Vote cast ${Math.max(Math.round(signals.sessionAgeMs / 1000), 0)}s after session creation`);
+  }
+
+  score = Math.min(score, 100);
+  return { score, reasons, flagged: score >= VOTE_FRAUD_THRESHOLD };
+}
+
+// Score a vote and store the result, moving it into the review queue if it looks suspicious
+export async function assessVote(vote: Vote): Promise<VoteFraudAssessment> {
+  const signals = await storage.getVoteFraudSignals(vote);
+  const assessment = scoreVoteSignals(signals);
+  await storage.recordVoteFraudScore(vote.id, assessment.score, assessment.reasons, assessment.flagged);
+  return assessment;
+}
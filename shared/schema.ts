@@ -1,34 +1,202 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Weighted full-text document for idea search. Queries must use this exact
+// expression so Postgres can serve them from the GIN index on ideas.
+export function ideaSearchVector(columns: {
+  title: AnyPgColumn;
+  description: AnyPgColumn;
+  useCase: AnyPgColumn;
+  tools: AnyPgColumn;
+  category: AnyPgColumn;
+}) {
+  return sql`(
+    setweight(to_tsvector('english', coalesce(${columns.useCase}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${columns.title}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${columns.description}, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(${columns.tools}, '')), 'C') ||
+    setweight(to_tsvector('english', replace(coalesce(${columns.category}, ''), '-', ' ')), 'C')
+  )`;
+}
+
+// The text ideas are compared by when looking for duplicates, matched by trigram similarity
+// (pg_trgm). Queries must use this exact expression so Postgres can serve them from the
+// trigram index on ideas.
+export function ideaSimilarityText(columns: {
+  title: AnyPgColumn;
+  description: AnyPgColumn;
+  useCase: AnyPgColumn;
+}) {
+  return sql`coalesce(nullif(${columns.useCase}, ''), nullif(${columns.description}, ''), ${columns.title})`;
+}
+
 export const ideas = pgTable("ideas", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description").notNull(),
   useCase: text("use_case"),
-  category: text("category").default("other"),
-  tools: text("tools"),
+  category: text("category").default("other"), // Slug of a row in categories
+  tools: text("tools"), // Derived: names of the idea's tool tags, comma-separated, for search and grading
   linkUrl: text("link_url"),
   sessionId: text("session_id"), // Track anonymous submissions
   userId: text("user_id"), // Track authenticated user submissions
-  votes: integer("votes").notNull().default(1),
+  votes: integer("votes").notNull().default(1), // Derived: net ledger votes + voteAdjustment
+  // Votes with no ledger row: submitter's own upvote, reward boosts, admin overrides. New ideas
+  // start at 1. There is no database default, so ideas from before the ledger get null when the
+  // column is added and seedVoteAdjustments fills in what their vote counts held.
+  voteAdjustment: integer("vote_adjustment").$defaultFn(() => 1),
   aiGrade: text("ai_grade"), // Store as decimal string like "7.3"
+  aiGradeReasoning: text("ai_grade_reasoning"),
+  aiGradeStatus: text("ai_grade_status"), // null (never queued), 'pending', 'grading', 'graded' or 'failed'
+  aiGradeAttempts: integer("ai_grade_attempts").notNull().default(0),
+  aiGradeNextAttemptAt: timestamp("ai_grade_next_attempt_at"), // When the grading worker may next pick it up
+  aiGradedAt: timestamp("ai_graded_at"),
   submittedAt: timestamp("submitted_at").notNull().defaultNow(),
+  editedAt: timestamp("edited_at"), // Last edit by the author
+  moderationStatus: text("moderation_status"), // Set by the content filter: null, 'held' (hidden until approved) or 'flagged'
+  filterMatches: jsonb("filter_matches").$type<string[]>(), // Filter terms that matched, for moderators
   // Reddit-style post types
   postType: text("post_type").default("text"), // "text", "link", "media"
+  mediaUploadId: integer("media_upload_id"), // The upload behind mediaUrl
   mediaUrl: text("media_url"), // For images/videos
   mediaType: text("media_type"), // "image" or "video"
+  mediaThumbnailUrl: text("media_thumbnail_url"), // Smaller copy of an image for the feed
+}, (table) => [
+  uniqueIndex("ideas_media_upload_idx").on(table.mediaUploadId),
+  index("ideas_search_idx").using("gin", ideaSearchVector(table)),
+  index("ideas_similarity_idx").using("gin", sql`${ideaSimilarityText(table)} gin_trgm_ops`),
+  index("ideas_category_idx").on(table.category),
+  index("ideas_grading_queue_idx").on(table.aiGradeNextAttemptAt).where(sql`${table.aiGradeStatus} IN ('pending', 'grading')`),
+]);
+
+// Files uploaded for media posts. The bytes live with the file storage driver (server/file-storage.ts);
+// an upload no idea points to is deleted after a day.
+export const uploads = pgTable("uploads", {
+  id: serial("id").primaryKey(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"), // Images only
+  mimeType: text("mime_type").notNull(), // Sniffed from the file itself, not what the browser claimed
+  mediaType: text("media_type").notNull(), // "image" or "video"
+  size: integer("size").notNull(), // Bytes, after metadata was stripped
+  width: integer("width"),
+  height: integer("height"),
+  sessionId: text("session_id"),
+  userId: text("user_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Pages behind link posts, fetched once and shared by every idea linking there (see server/link-preview.ts)
+export const linkPreviews = pgTable("link_previews", {
+  url: text("url").primaryKey(), // As normalized by the unfurler
+  finalUrl: text("final_url"), // After redirects
+  status: text("status").notNull(), // 'ok' or 'failed'
+  error: text("error"), // Why the last fetch failed
+  title: text("title"),
+  description: text("description"),
+  siteName: text("site_name"),
+  faviconUrl: text("favicon_url"),
+  imageUrl: text("image_url"), // og:image
+  fetchedAt: timestamp("fetched_at").notNull(),
+});
+
+// Tools and topics ideas are tagged with (see server/tags.ts). A tag merged into another keeps
+// its row as an alias, so old links and typed names still resolve to the surviving tag.
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull(), // Lowercase and hyphenated, e.g. "github-copilot"; what filters use
+  name: text("name").notNull(), // As displayed, e.g. "GitHub Copilot"
+  kind: text("kind").notNull(), // 'tool' or 'topic'
+  aliasOf: integer("alias_of"), // Set on aliases: the tag they stand for
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("tags_slug_idx").on(table.slug),
+  index("tags_alias_of_idx").on(table.aliasOf),
+]);
+
+// Never points at an alias; merging moves an alias's ideas to the tag it stands for
+export const ideaTags = pgTable("idea_tags", {
+  ideaId: integer("idea_id").notNull(),
+  tagId: integer("tag_id").notNull(),
+  position: integer("position").notNull().default(0), // Order the author listed the tags in
+}, (table) => [
+  uniqueIndex("idea_tags_idea_tag_idx").on(table.ideaId, table.tagId),
+  index("idea_tags_tag_idx").on(table.tagId, table.ideaId),
+]);
+
+// The categories ideas are filed under (see server/categories.ts). Ideas store the slug, so it
+// never changes; archived categories keep their ideas but can't be picked for new ones.
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull(), // e.g. "marketing-ads"; what ideas.category and filters hold
+  label: text("label").notNull(), // As displayed, e.g. "Marketing & Ads"
+  description: text("description"),
+  icon: text("icon"), // An emoji shown next to the label
+  sortOrder: integer("sort_order").notNull().default(0),
+  archived: boolean("archived").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("categories_slug_idx").on(table.slug),
+]);
+
+// Every AI grading run, so authors can see how feedback changed after edits
+export const ideaGrades = pgTable("idea_grades", {
+  id: serial("id").primaryKey(),
+  ideaId: integer("idea_id").notNull(),
+  score: text("score").notNull(), // Decimal string like "7.3", as on ideas.aiGrade
+  reasoning: text("reasoning").notNull(),
+  tips: jsonb("tips").$type<string[]>().notNull().default([]), // Suggestions for making the idea more specific
+  rubricVersion: text("rubric_version").notNull(),
+  model: text("model").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idea_grades_idea_idx").on(table.ideaId, table.createdAt),
+]);
+
+// Ideas merged into another as duplicates; old links and ids resolve to the canonical idea
+export const ideaRedirects = pgTable("idea_redirects", {
+  fromId: integer("from_id").primaryKey(),
+  toId: integer("to_id").notNull(),
+  mergedBy: text("merged_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idea_redirects_to_idx").on(table.toId),
+]);
+
 export const subscriptions = pgTable("subscriptions", {
   id: serial("id").primaryKey(),
   email: text("email").notNull().unique(),
   source: text("source").notNull().default("homepage"), // "homepage" or "gift_card_popup"
   sessionId: text("session_id"), // Link to user session for gift card popup emails
   subscribedAt: timestamp("subscribed_at").notNull().defaultNow(),
+  unsubscribedAt: timestamp("unsubscribed_at"), // Set from the digest's unsubscribe link
 });
 
+// One weekly digest issue per covered week
+export const digestIssues = pgTable("digest_issues", {
+  id: serial("id").primaryKey(),
+  periodStart: timestamp("period_start").notNull().unique(), // Monday 00:00 UTC of the week the issue covers
+  status: text("status").notNull().default("scheduled"), // 'scheduled', 'sending', 'sent' or 'cancelled'
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  recipientCount: integer("recipient_count").notNull().default(0),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Every digest delivery; the unique index stops an address getting the same issue twice
+export const digestSends = pgTable("digest_sends", {
+  id: serial("id").primaryKey(),
+  issueId: integer("issue_id").notNull(),
+  email: text("email").notNull(),
+  status: text("status").notNull().default("sent"), // 'sent' or 'failed'
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("digest_sends_issue_email_idx").on(table.issueId, table.email),
+]);
+
 export const userSessions = pgTable("user_sessions", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull().unique(),
@@ -43,11 +211,26 @@ export const userSessions = pgTable("user_sessions", {
 export const votes = pgTable("votes", {
   id: serial("id").primaryKey(),
   sessionId: text("session_id").notNull(),
+  userId: text("user_id"), // Set when the voter is logged in; identity is then the user rather than the session
   ideaId: integer("idea_id").notNull(),
-  voteType: text("vote_type").notNull(), // 'up' or 'down'
+  voteType: text("vote_type").notNull(), // 'up', 'down' or 'none' (retracted, row kept so rewards are only earned once)
   ipAddress: text("ip_address").notNull(),
+  status: text("status").notNull().default("active"), // 'active', 'flagged' (awaiting review), 'approved' or 'voided' (excluded from counts)
+  fraudScore: integer("fraud_score").notNull().default(0),
+  fraudReasons: text("fraud_reasons").array(),
+  reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  // Serves the time-windowed "top" ranking
+  index("votes_idea_updated_idx").on(table.ideaId, table.updatedAt),
+  // Serve fraud scoring lookups and the review queue
+  index("votes_ip_created_idx").on(table.ipAddress, table.createdAt),
+  index("votes_status_idx").on(table.status),
+  // One vote per identity per idea
+  uniqueIndex("votes_user_idea_idx").on(table.userId, table.ideaId).where(sql`${table.userId} IS NOT NULL`),
+  uniqueIndex("votes_session_idea_idx").on(table.sessionId, table.ideaId).where(sql`${table.userId} IS NULL`),
+]);
 
 // Session storage table for auth
 export const sessions = pgTable("sessions", {
@@ -65,10 +248,57 @@ export const users = pgTable("users", {
   firstName: text("first_name"),
   lastName: text("last_name"),
   profileImageUrl: text("profile_image_url"),
+  role: text("role").notNull().default("user"), // 'user', 'moderator' or 'admin'
+  emailVerifiedAt: timestamp("email_verified_at"), // Null until the signup verification link is clicked
+  verificationSentAt: timestamp("verification_sent_at"), // Last verification email, used to rate-limit resends
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Password reset tokens; only a SHA-256 hash of the emailed token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Set once the token has been redeemed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("password_reset_tokens_user_idx").on(table.userId),
+]);
+
+// Per-user email notification settings; users without a row get the column defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: text("user_id").primaryKey(),
+  emailDigest: boolean("email_digest").notNull().default(true),
+  commentReplies: boolean("comment_replies").notNull().default(true),
+  ideaUpvotes: boolean("idea_upvotes").notNull().default(false),
+  weeklyTrends: boolean("weekly_trends").notNull().default(true),
+  newFeatures: boolean("new_features").notNull().default(true),
+  communityUpdates: boolean("community_updates").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// In-app notifications, addressed to a user or, before signup, to an anonymous session
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id"),
+  sessionId: text("session_id"), // Only used when userId is null
+  type: text("type").notNull(), // 'comment_reply', 'idea_comment' or 'idea_votes'
+  ideaId: integer("idea_id").notNull(),
+  commentId: integer("comment_id"),
+  actorName: text("actor_name"),
+  milestone: integer("milestone"), // Vote count crossed, for 'idea_votes'
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("notifications_user_idx").on(table.userId, table.createdAt),
+  index("notifications_session_idx").on(table.sessionId, table.createdAt),
+  // Each vote milestone is announced once per idea
+  uniqueIndex("notifications_idea_milestone_idx").on(table.ideaId, table.milestone).where(sql`${table.milestone} IS NOT NULL`),
+]);
+
 // Comments table
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
@@ -81,6 +311,41 @@ export const comments = pgTable("comments", {
   votes: integer("votes").default(1),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  editedAt: timestamp("edited_at"), // Set when the author edits the content
+  moderationStatus: text("moderation_status"), // Set by the content filter: null, 'held' (hidden until approved) or 'flagged'
+  filterMatches: jsonb("filter_matches").$type<string[]>(), // Filter terms that matched, for moderators
+});
+
+// Earlier versions of edited comments
+export const commentRevisions = pgTable("comment_revisions", {
+  id: serial("id").primaryKey(),
+  commentId: integer("comment_id").notNull(),
+  content: text("content").notNull(),
+  moderationStatus: text("moderation_status"), // The comment's status while this version was current; held versions are only shown to the author and staff
+  createdAt: timestamp("created_at").notNull(), // When this version was posted
+  replacedAt: timestamp("replaced_at").notNull().defaultNow(),
+}, (table) => [
+  index("comment_revisions_comment_idx").on(table.commentId, table.createdAt),
+]);
+
+// Words and phrases checked by the content filter. Blocklist terms carry the action to take;
+// allowlist terms exempt text that would otherwise match, e.g. place names.
+export const contentFilterTerms = pgTable("content_filter_terms", {
+  id: serial("id").primaryKey(),
+  term: text("term").notNull(), // A word or phrase; a trailing * matches any word starting with the rest
+  list: text("list").notNull(), // 'block' or 'allow'
+  action: text("action").notNull().default("block"), // For blocklist terms: 'block', 'review' or 'flag'
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("content_filter_terms_list_term_idx").on(table.list, table.term),
+]);
+
+// Token buckets for the Postgres rate limit store (see server/rate-limit.ts)
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(), // "<limit name>:<user|session|ip>:<value>"
+  tokens: doublePrecision("tokens").notNull(), // Tokens left as of updatedAt
+  updatedAt: timestamp("updated_at").notNull(),
 });
 
 // Comment votes table
@@ -93,10 +358,49 @@ export const commentVotes = pgTable("comment_votes", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Audit log of admin and moderator actions
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: text("actor_id"), // User who performed the action
+  actorUsername: text("actor_username"), // Kept so entries stay readable if the account is removed
+  action: text("action").notNull(), // e.g. 'idea.update', 'idea.votes_override', 'paywall.toggle'
+  targetType: text("target_type").notNull(), // 'idea', 'comment', 'vote', 'user', 'tag', 'category', 'setting', 'digest' or 'system'
+  targetId: text("target_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_log_created_idx").on(table.createdAt),
+  index("audit_log_target_idx").on(table.targetType, table.targetId),
+  index("audit_log_actor_idx").on(table.actorId),
+]);
+
+export const tagKinds = ['tool', 'topic'] as const;
+export const MAX_TAGS_PER_KIND = 5;
+
+// Tag names as typed by an author; server/tags.ts resolves them to tags
+const tagNamesSchema = z.array(z.string().trim().min(1).max(40, "Tags can be at most 40 characters"))
+  .max(MAX_TAGS_PER_KIND, `Add at most ${MAX_TAGS_PER_KIND} tools and ${MAX_TAGS_PER_KIND} topics`);
+
 export const insertIdeaSchema = createInsertSchema(ideas).omit({
   id: true,
   votes: true,
+  voteAdjustment: true,
+  aiGrade: true,
+  aiGradeReasoning: true,
+  aiGradeStatus: true,
+  aiGradeAttempts: true,
+  aiGradeNextAttemptAt: true,
+  aiGradedAt: true,
   submittedAt: true,
+  editedAt: true,
+  moderationStatus: true,
+  filterMatches: true,
+  mediaUrl: true, // Media fields are filled in from the upload
+  mediaType: true,
+  mediaThumbnailUrl: true,
+  tools: true, // Derived from the tags
   sessionId: true, // Handled separately in the API
   userId: true, // Handled separately in the API
 }).extend({
@@ -113,13 +417,24 @@ export const insertIdeaSchema = createInsertSchema(ideas).omit({
     message: "Please enter a valid URL (e.g., https://example.com, www.example.com, or example.com)"
   }),
   postType: z.enum(["text", "link", "media"]).optional(),
-  mediaUrl: z.string().optional(),
-  mediaType: z.enum(["image", "video"]).optional(),
+  mediaUploadId: z.number().int().positive().optional(), // From POST /api/uploads
+  tools: tagNamesSchema.optional(),
+  topics: tagNamesSchema.optional(),
 });
 
+// Fields an author may change on their own idea
+export const updateOwnIdeaSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  useCase: z.string().min(100, "Please write at least 100 characters to describe your use case"),
+  tools: tagNamesSchema,
+  topics: tagNamesSchema,
+}).partial().strict();
+
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
   id: true,
   subscribedAt: true,
+  unsubscribedAt: true,
 });
 
 export const insertUserSessionSchema = createInsertSchema(userSessions).omit({
@@ -129,6 +444,12 @@ export const insertUserSessionSchema = createInsertSchema(userSessions).omit({
 
 export const insertVoteSchema = createInsertSchema(votes).omit({
   id: true,
+  status: true,
+  fraudScore: true,
+  fraudReasons: true,
+  reviewedAt: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const insertCommentSchema = createInsertSchema(comments).omit({
@@ -136,6 +457,9 @@ export const insertCommentSchema = createInsertSchema(comments).omit({
   votes: true,
   createdAt: true,
   updatedAt: true,
+  editedAt: true,
+  moderationStatus: true,
+  filterMatches: true,
 });
 
 export const insertCommentVoteSchema = createInsertSchema(commentVotes).omit({
@@ -143,6 +467,44 @@ export const insertCommentVoteSchema = createInsertSchema(commentVotes).omit({
   createdAt: true,
 });
 
+export const contentFilterLists = ['block', 'allow'] as const;
+export const contentFilterActions = ['block', 'review', 'flag'] as const;
+
+export const insertContentFilterTermSchema = z.object({
+  term: z.string().trim().min(1, "Term is required").max(100, "Terms are limited to 100 characters"),
+  list: z.enum(contentFilterLists),
+  action: z.enum(contentFilterActions).default('block'),
+});
+
+const categoryFields = {
+  label: z.string().trim().min(1, "Label is required").max(50, "Labels are limited to 50 characters"),
+  description: z.string().trim().max(200, "Descriptions are limited to 200 characters").nullable().optional(),
+  icon: z.string().trim().max(8, "Use a single emoji").nullable().optional(),
+  sortOrder: z.number().int().optional(),
+};
+
+export const insertCategorySchema = z.object({
+  ...categoryFields,
+  // Derived from the label when left out
+  slug: z.string().trim().max(40).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slugs are lowercase letters and numbers separated by hyphens").optional(),
+});
+
+// The slug can't change: ideas and shared filter links refer to it
+export const updateCategorySchema = z.object({
+  ...categoryFields,
+  archived: z.boolean(),
+}).partial().strict();
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  userId: true,
+  updatedAt: true,
+}).partial().strict();
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -164,11 +526,32 @@ export const loginSchema = z.object({
 
 export type InsertIdea = z.infer<typeof insertIdeaSchema>;
 export type Idea = typeof ideas.$inferSelect;
+export type Upload = typeof uploads.$inferSelect;
+export type LinkPreview = typeof linkPreviews.$inferSelect;
+export type InsertLinkPreview = typeof linkPreviews.$inferInsert;
+export type LinkPreviewStatus = 'ok' | 'failed';
+// What idea responses carry for a link post's preview card
+export type PublicLinkPreview = Pick<LinkPreview, 'url' | 'finalUrl' | 'title' | 'description' | 'siteName' | 'faviconUrl' | 'imageUrl'>;
+export type InsertUpload = typeof uploads.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = typeof tags.$inferInsert;
+export type TagKind = typeof tagKinds[number];
+// What idea responses carry for each of the idea's tags
+export type PublicTag = Pick<Tag, 'id' | 'slug' | 'name' | 'kind'>;
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = typeof categories.$inferInsert;
+export type CategoryInput = z.infer<typeof insertCategorySchema>;
+export type UpdateCategory = z.infer<typeof updateCategorySchema>;
+// What GET /api/categories returns for each category
+export type PublicCategory = Omit<Category, 'createdAt'>;
+export type MediaType = 'image' | 'video';
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 export type Comment = typeof comments.$inferSelect;
 export type InsertCommentVote = z.infer<typeof insertCommentVoteSchema>;
 export type CommentVote = typeof commentVotes.$inferSelect;
 export type User = typeof users.$inferSelect;
+export const userRoles = ['user', 'moderator', 'admin'] as const;
+export type UserRole = typeof userRoles[number];
 export type UpsertUser = typeof users.$inferInsert;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
@@ -176,3 +559,28 @@ export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
 export type UserSession = typeof userSessions.$inferSelect;
 export type InsertVote = z.infer<typeof insertVoteSchema>;
 export type Vote = typeof votes.$inferSelect;
+export type IdeaGrade = typeof ideaGrades.$inferSelect;
+export type IdeaRedirect = typeof ideaRedirects.$inferSelect;
+export type CommentRevision = typeof commentRevisions.$inferSelect;
+export type UpdateOwnIdea = z.infer<typeof updateOwnIdeaSchema>;
+export type AIGradeStatus = 'pending' | 'grading' | 'graded' | 'failed';
+export type VoteType = 'up' | 'down' | 'none';
+export type VoteStatus = 'active' | 'flagged' | 'approved' | 'voided';
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type NotificationPreferenceKey = Exclude<keyof NotificationPreferences, 'userId' | 'updatedAt'>;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationType = 'comment_reply' | 'idea_comment' | 'idea_votes';
+export type DigestIssue = typeof digestIssues.$inferSelect;
+export type DigestIssueStatus = 'scheduled' | 'sending' | 'sent' | 'cancelled';
+export type DigestSend = typeof digestSends.$inferSelect;
+export type ContentFilterTerm = typeof contentFilterTerms.$inferSelect;
+export type InsertContentFilterTerm = z.infer<typeof insertContentFilterTermSchema>;
+export type ContentFilterList = typeof contentFilterLists[number];
+export type ContentFilterAction = typeof contentFilterActions[number];
+export type ModerationStatus = 'held' | 'flagged';
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;